@@ -5,6 +5,9 @@ import { build } from 'bun'
 const pkg = await Bun.file('./package.json').json()
 const version = typeof pkg?.version === 'string' ? pkg.version : 'dev'
 
+/** Local demo/QA clips, loaded with `?video=/media/<file>` (dev server only, not deployed). */
+const MEDIA_DIR = './media'
+
 let buildInFlight: Promise<void> | null = null
 
 async function ensureMainBuilt(): Promise<void> {
@@ -33,6 +36,58 @@ async function ensureMainBuilt(): Promise<void> {
   return buildInFlight
 }
 
+/**
+ * Serves `./media/<file>` with byte-range support (browsers need it to seek in video), or a
+ * JSON list of available files for `/media/`.
+ */
+async function serveMedia(req: Request, path: string): Promise<Response> {
+  let name: string
+  try {
+    name = decodeURIComponent(path.slice('/media/'.length))
+  } catch {
+    // Malformed percent-encoding (e.g. a lone `%`).
+    return new Response('Bad Request', { status: 400 })
+  }
+
+  if (!name) {
+    const files = await Array.fromAsync(new Bun.Glob('*').scan({ cwd: MEDIA_DIR })).catch(
+      () => [] as string[],
+    )
+    return Response.json(files.sort(), { headers: { 'cache-control': 'no-store' } })
+  }
+
+  // Flat directory only: no traversal out of ./media.
+  if (name.includes('/') || name.includes('\\') || name.startsWith('.')) {
+    return new Response('Not Found', { status: 404 })
+  }
+
+  const file = Bun.file(`${MEDIA_DIR}/${name}`)
+  if (!(await file.exists())) return new Response('Not Found', { status: 404 })
+
+  const headers = { 'accept-ranges': 'bytes', 'cache-control': 'no-store' }
+  const match = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get('range') ?? '')
+  if (!match || (!match[1] && !match[2])) return new Response(file, { headers })
+
+  const size = file.size
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]))
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  if (start > end || start >= size) {
+    return new Response('Range Not Satisfiable', {
+      status: 416,
+      headers: { 'content-range': `bytes */${size}` },
+    })
+  }
+
+  return new Response(file.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      ...headers,
+      'content-type': file.type,
+      'content-range': `bytes ${start}-${end}/${size}`,
+    },
+  })
+}
+
 const server = Bun.serve({
   port: process.env.PORT || 3000,
   async fetch(req) {
@@ -57,6 +112,8 @@ const server = Bun.serve({
       }
     }
 
+    if (path.startsWith('/media/')) return serveMedia(req, path)
+
     // Rebuild on request so `bun run dev` always reflects `src/` changes after a refresh.
     if (path === '/main.js' || path === '/main.js.map') {
       try {
@@ -87,6 +144,7 @@ const server = Bun.serve({
 
 console.info(`🚀 Dev server running at http://localhost:${server.port}`)
 console.info('Serving static files from ./public')
+console.info(`Serving demo videos from ${MEDIA_DIR} (open /?video=/media/<file>)`)
 console.info('Refresh the page to pick up TypeScript changes')
 
 process.on('SIGINT', () => {
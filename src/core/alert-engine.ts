@@ -1,32 +1,172 @@
-// Alert Engine - Centralized alerting (toast + flash + beep) with global cooldown.
-// Used by both "hands near face" and posture deviation detection.
+// Alert Engine - Centralized alerting with per-type policies.
+// Every alert type (detector id, or 'camera-shift') has its own cooldown, priority and
+// channels (flash, toast, beep, system notification); an optional global spacing keeps
+// types from piling up. Types with an escalation ladder get louder while their condition
+// persists instead. While the tab is hidden, in-page effects give way to notifications.
+// Snoozes and quiet hours silence everything without stopping detection.
 
-type AlertVariant = 'normal' | 'low-confidence'
+import { type QuietHoursRule, quietHoursEnd } from './quiet-hours.ts'
+
+export type AlertVariant = 'normal' | 'low-confidence'
+
+export type AlertChannel = 'flash' | 'toast' | 'beep' | 'notification'
+
+export const ALERT_CHANNELS: readonly AlertChannel[] = ['flash', 'toast', 'beep', 'notification']
+
+/** Shared by every alert notification, so a new one replaces the last instead of stacking. */
+const NOTIFICATION_TAG = 'posturelens-alert'
+
+export type AlertPriority = 'high' | 'normal' | 'low'
+
+/** Ladder channels: the alert channels plus two that stay on until the condition clears. */
+export type EscalationChannel = AlertChannel | 'ambient' | 'banner'
+
+export const ESCALATION_CHANNELS: readonly EscalationChannel[] = [
+  'ambient',
+  'flash',
+  'toast',
+  'beep',
+  'banner',
+]
+
+export type EscalationStep = {
+  /** Time since the episode's first alert (ms). */
+  afterMs: number
+  channels: EscalationChannel[]
+}
+
+export type EscalationPreset = 'quick' | 'standard' | 'relaxed'
+
+/** Ambient indicator, then flash, then toast + beep, then a persistent banner. */
+export const ESCALATION_PRESETS: Record<EscalationPreset, EscalationStep[]> = {
+  quick: [
+    { afterMs: 0, channels: ['ambient'] },
+    { afterMs: 15_000, channels: ['flash'] },
+    { afterMs: 60_000, channels: ['toast', 'beep'] },
+    { afterMs: 5 * 60_000, channels: ['banner'] },
+  ],
+  standard: [
+    { afterMs: 0, channels: ['ambient'] },
+    { afterMs: 30_000, channels: ['flash'] },
+    { afterMs: 2 * 60_000, channels: ['toast', 'beep'] },
+    { afterMs: 10 * 60_000, channels: ['banner'] },
+  ],
+  relaxed: [
+    { afterMs: 0, channels: ['ambient'] },
+    { afterMs: 60_000, channels: ['flash'] },
+    { afterMs: 5 * 60_000, channels: ['toast', 'beep'] },
+    { afterMs: 20 * 60_000, channels: ['banner'] },
+  ],
+}
+
+export const ALERT_PRIORITIES: readonly AlertPriority[] = ['high', 'normal', 'low']
+
+export type AlertPolicy = {
+  /** Minimum time between two alerts of this type (ms). */
+  cooldownMs: number
+  /** Orders alerts due on the same frame; `high` also ignores the global spacing. */
+  priority: AlertPriority
+  /** Channels for normal-confidence alerts; none mutes the type. */
+  channels: AlertChannel[]
+  /** Channels for low-confidence alerts (the flash shows yellow instead of red). */
+  lowConfidenceChannels: AlertChannel[]
+  /**
+   * When non-empty, a normal alert starts an episode that climbs these steps (sorted by
+   * `afterMs`) while `updateCondition` reports the condition; `channels` is then unused.
+   */
+  escalation: EscalationStep[]
+}
+
+/** One alert a detector wants to raise. */
+export type AlertRequest = {
+  /** Policy key: detector id, or 'camera-shift'. */
+  type: string
+  variant: AlertVariant
+  reason: string
+}
+
+export type AlertChannelHandler = (alert: AlertRequest) => void
 
 export type AlertEngineOptions = {
   /** Override hostname detection for testing. Defaults to window.location.hostname. */
   hostname?: string
 
-  /** Called for normal-confidence alerts only. */
+  /** Used by the `toast` channel. */
   showToast?: (message: string) => void
 
   /**
-   * Cooldown in milliseconds.
+   * Default per-type cooldown in milliseconds.
    * If omitted, uses 60s in prod and 5s on localhost (dev).
    */
   cooldownMs?: number
 
+  /** Minimum time between any two alerts (ms); 0 turns the global spacing off. */
+  minSpacingMs?: number
+
+  /** Policy defaults for specific types (before user overrides). */
+  typeDefaults?: Record<string, Partial<AlertPolicy>>
+
   /** Visual flash duration in ms (class removal). */
   flashMs?: number
+
+  /** Replaces built-in channel implementations (tests). */
+  channels?: Partial<Record<AlertChannel, AlertChannelHandler>>
+
+  /** Whether system notifications are on (needs granted permission too); default off. */
+  notifications?: boolean
+
+  /** Whether the page is in the background; defaults to document.visibilityState. */
+  isHidden?: () => boolean
+
+  /** Ambient indicator for escalation ladders; defaults to a body class. */
+  showAmbient?: (active: boolean) => void
+
+  /** Persistent escalation banner; null hides it. */
+  showBanner?: (message: string | null) => void
+
+  /** Clock (epoch ms); defaults to Date.now. */
+  now?: () => number
+}
+
+/** Why alerts are silent right now, and until when */
+export type AlertSuppression = {
+  reason: 'snooze' | 'quiet-hours'
+  untilMs: number
+}
+
+const PRIORITY_RANK: Record<AlertPriority, number> = { high: 0, normal: 1, low: 2 }
+
+type Episode = {
+  startedAtMs: number
+  /** Index of the next ladder step to fire */
+  nextStep: number
+  reason: string
+  ambient: boolean
+  banner: boolean
 }
 
 export class AlertEngine {
   private readonly hostname: string
   private readonly showToast: (message: string) => void
-  private readonly cooldownMs: number
+  private readonly defaultCooldownMs: number
   private readonly flashMs: number
+  private readonly typeDefaults: Record<string, Partial<AlertPolicy>>
+  private readonly channels: Record<AlertChannel, AlertChannelHandler>
+  private readonly now: () => number
+  private readonly showAmbient: (active: boolean) => void
+  private readonly showBanner: (message: string | null) => void
+  private readonly isHidden: () => boolean
 
-  private lastAlertAtMs = 0
+  private minSpacingMs: number
+  private notificationsEnabled: boolean
+  private notification: Notification | null = null
+  private flashTarget: ((variant: AlertVariant) => void) | null = null
+  private snoozedUntilMs: number | null = null
+  private quietHours: QuietHoursRule[] = []
+  private episodes = new Map<string, Episode>()
+  private overrides = new Map<string, Partial<AlertPolicy>>()
+  private lastAlertAtMs = new Map<string, number>()
+  private lastAnyAlertAtMs: number | null = null
 
   private audioCtx: AudioContext | null = null
 
@@ -34,31 +174,273 @@ export class AlertEngine {
     this.hostname = opts.hostname ?? window.location.hostname
 
     const isDevHost = this.hostname === 'localhost' || this.hostname === '127.0.0.1'
-    this.cooldownMs = opts.cooldownMs ?? (isDevHost ? 5_000 : 60_000)
+    this.defaultCooldownMs = opts.cooldownMs ?? (isDevHost ? 5_000 : 60_000)
+    this.minSpacingMs = opts.minSpacingMs ?? 0
+    this.typeDefaults = opts.typeDefaults ?? {}
 
     this.flashMs = opts.flashMs ?? 650
 
     this.showToast = opts.showToast ?? (() => {})
+    this.now = opts.now ?? Date.now
+    this.channels = {
+      flash: (alert) => {
+        if (this.flashTarget) this.flashTarget(alert.variant)
+        else this.flash(alert.variant === 'normal' ? 'red' : 'yellow')
+      },
+      toast: (alert) => this.showToast(alert.reason),
+      beep: () => void this.beep(),
+      notification: (alert) => this.notify(alert),
+      ...opts.channels,
+    }
+    this.notificationsEnabled = opts.notifications ?? false
+    this.isHidden = opts.isHidden ?? (() => document.visibilityState === 'hidden')
+    this.showAmbient =
+      opts.showAmbient ?? ((active) => document.body.classList.toggle('alert-ambient', active))
+    this.showBanner = opts.showBanner ?? (() => {})
+  }
+
+  /** The effective policy: user overrides, then type defaults, then engine defaults. */
+  public getPolicy(type: string): AlertPolicy {
+    return {
+      cooldownMs: this.defaultCooldownMs,
+      priority: 'normal',
+      channels: [...ALERT_CHANNELS],
+      lowConfidenceChannels: ['flash'],
+      escalation: [],
+      ...this.typeDefaults[type],
+      ...this.overrides.get(type),
+    }
+  }
+
+  /** Overrides parts of a type's policy (merged with earlier overrides). */
+  public setPolicy(type: string, patch: Partial<AlertPolicy>): void {
+    this.overrides.set(type, { ...this.overrides.get(type), ...patch })
+  }
+
+  public getMinSpacingMs(): number {
+    return this.minSpacingMs
+  }
+
+  public setMinSpacingMs(ms: number): void {
+    this.minSpacingMs = ms
+  }
+
+  public setNotificationsEnabled(enabled: boolean): void {
+    this.notificationsEnabled = enabled
+    if (!enabled) this.clearNotification()
+  }
+
+  /**
+   * Sends flashes somewhere other than the page (the Picture-in-Picture widget), where
+   * they also play while the tab is hidden; null restores the page flash.
+   */
+  public setFlashTarget(target: ((variant: AlertVariant) => void) | null): void {
+    this.flashTarget = target
+  }
+
+  /** Silences every alert until `untilMs`; null ends the snooze. Running ladders end. */
+  public snooze(untilMs: number | null): void {
+    this.snoozedUntilMs = untilMs
+    if (this.getSuppression()) this.resetEscalations()
+  }
+
+  public setQuietHours(rules: QuietHoursRule[]): void {
+    this.quietHours = rules
   }
 
-  /** Returns true if we fired an alert (was not suppressed by cooldown). */
-  public trigger(variant: AlertVariant, reason: string): boolean {
-    const now = Date.now()
-    if (now - this.lastAlertAtMs < this.cooldownMs) return false
-    this.lastAlertAtMs = now
+  /**
+   * The snooze or quiet hours silencing alerts right now (whichever lasts longer), or null.
+   */
+  public getSuppression(): AlertSuppression | null {
+    const now = this.now()
+    const snoozeUntil =
+      this.snoozedUntilMs !== null && now < this.snoozedUntilMs ? this.snoozedUntilMs : null
+    const quietUntil = quietHoursEnd(this.quietHours, now)
+
+    if (snoozeUntil !== null && (quietUntil === null || snoozeUntil >= quietUntil)) {
+      return { reason: 'snooze', untilMs: snoozeUntil }
+    }
+    return quietUntil === null ? null : { reason: 'quiet-hours', untilMs: quietUntil }
+  }
+
+  /** Closes the last alert notification (e.g. once the tab is visible again). */
+  public clearNotification(): void {
+    this.notification?.close()
+    this.notification = null
+  }
+
+  /**
+   * Returns true if we fired an alert (was not suppressed by a snooze, quiet hours,
+   * cooldown, spacing or muting).
+   */
+  public trigger(alert: AlertRequest): boolean {
+    if (this.getSuppression()) return false
+
+    const now = this.now()
+    const policy = this.getPolicy(alert.type)
+    const escalates = alert.variant === 'normal' && policy.escalation.length > 0
+    const channels = alert.variant === 'normal' ? policy.channels : policy.lowConfidenceChannels
+    if (!escalates && !channels.length) return false
+
+    const last = this.lastAlertAtMs.get(alert.type)
+    if (last !== undefined && now - last < policy.cooldownMs) return false
+
+    const spaced =
+      this.lastAnyAlertAtMs === null || now - this.lastAnyAlertAtMs >= this.minSpacingMs
+    if (!spaced && policy.priority !== 'high') return false
+
+    this.lastAlertAtMs.set(alert.type, now)
+    this.lastAnyAlertAtMs = now
 
-    if (variant === 'normal') {
-      this.flash('red')
-      this.showToast(reason)
-      void this.beep()
+    if (escalates) {
+      if (!this.episodes.has(alert.type)) {
+        this.episodes.set(alert.type, {
+          startedAtMs: now,
+          nextStep: 0,
+          reason: alert.reason,
+          ambient: false,
+          banner: false,
+        })
+      }
+      this.climb(alert.type, policy.escalation, now)
       return true
     }
 
-    // Low confidence: yellow flash only (no audio, no toast).
-    this.flash('yellow')
+    this.deliver(channels, alert)
     return true
   }
 
+  /**
+   * Reports whether the condition behind an escalating alert type still holds. While it
+   * does, the episode climbs its ladder; once it clears (or alerts are silenced), the
+   * episode ends and persistent indicators are withdrawn. Types without an episode are
+   * ignored.
+   */
+  public updateCondition(type: string, active: boolean): void {
+    if (!this.episodes.has(type)) return
+    if (active && !this.getSuppression()) {
+      this.climb(type, this.getPolicy(type).escalation, this.now())
+    } else {
+      this.endEpisode(type)
+    }
+  }
+
+  /** Index of the last ladder step reached in the type's episode; -1 when none is running. */
+  public getEscalationStep(type: string): number {
+    return (this.episodes.get(type)?.nextStep ?? 0) - 1
+  }
+
+  /** Ends every episode (monitoring stopped). */
+  public resetEscalations(): void {
+    for (const type of [...this.episodes.keys()]) this.endEpisode(type)
+  }
+
+  /**
+   * Fires the most important alert that is allowed right now (by policy priority, then
+   * list order) and returns it, or null when every candidate is suppressed.
+   */
+  public triggerFirst(candidates: AlertRequest[]): AlertRequest | null {
+    const ordered = candidates
+      .map((alert, index) => ({ alert, index }))
+      .sort(
+        (a, b) =>
+          PRIORITY_RANK[this.getPolicy(a.alert.type).priority] -
+            PRIORITY_RANK[this.getPolicy(b.alert.type).priority] || a.index - b.index,
+      )
+
+    for (const { alert } of ordered) {
+      if (this.trigger(alert)) return alert
+    }
+    return null
+  }
+
+  private climb(type: string, steps: EscalationStep[], now: number): void {
+    const episode = this.episodes.get(type)
+    if (!episode) return
+
+    const ladder = [...steps].sort((a, b) => a.afterMs - b.afterMs)
+    while (
+      episode.nextStep < ladder.length &&
+      now - episode.startedAtMs >= ladder[episode.nextStep].afterMs
+    ) {
+      const alert: AlertRequest = { type, variant: 'normal', reason: episode.reason }
+      const channels: AlertChannel[] = []
+      for (const channel of ladder[episode.nextStep].channels) {
+        if (channel === 'ambient') {
+          episode.ambient = true
+          this.showAmbient(true)
+        } else if (channel === 'banner') {
+          episode.banner = true
+          this.showBanner(episode.reason)
+        } else {
+          channels.push(channel)
+        }
+      }
+      // Steps that would show something in the page notify instead while it is hidden.
+      const visible = ladder[episode.nextStep].channels.some(
+        (c) => c === 'flash' || c === 'toast' || c === 'banner',
+      )
+      if (visible && !channels.includes('notification')) channels.push('notification')
+      this.deliver(channels, alert)
+      episode.nextStep++
+    }
+  }
+
+  private endEpisode(type: string): void {
+    const episode = this.episodes.get(type)
+    if (!episode) return
+    this.episodes.delete(type)
+
+    const others = [...this.episodes.values()]
+    if (episode.ambient && !others.some((e) => e.ambient)) this.showAmbient(false)
+    if (episode.banner) {
+      const remaining = others.find((e) => e.banner)
+      this.showBanner(remaining ? remaining.reason : null)
+    }
+  }
+
+  /**
+   * Runs the in-page channels while the tab is visible. Behind other windows those go
+   * unseen, so only the beep (and a flash redirected to the widget) plays and the
+   * notification channel takes over (if enabled).
+   */
+  private deliver(channels: readonly AlertChannel[], alert: AlertRequest): void {
+    if (!this.isHidden()) {
+      for (const channel of channels) {
+        if (channel !== 'notification') this.channels[channel](alert)
+      }
+      return
+    }
+
+    if (this.flashTarget && channels.includes('flash')) this.channels.flash(alert)
+    if (channels.includes('beep')) this.channels.beep(alert)
+    if (this.notificationsEnabled && channels.includes('notification')) {
+      this.channels.notification(alert)
+    }
+  }
+
+  private notify(alert: AlertRequest): void {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+
+    // Replacing a notification under the same tag is silent; closing it first makes the
+    // next alert show (and sound) as a new one.
+    this.clearNotification()
+    try {
+      const notification = new Notification('PostureLens', {
+        body: alert.reason,
+        tag: NOTIFICATION_TAG,
+      })
+      notification.onclick = () => {
+        window.focus()
+        notification.close()
+      }
+      this.notification = notification
+    } catch (error) {
+      // Some mobile browsers only allow notifications from a service worker.
+      console.warn('[AlertEngine] Notification failed:', error)
+    }
+  }
+
   private flash(color: 'red' | 'yellow'): void {
     const cls = color === 'red' ? 'alert-flash--red' : 'alert-flash--yellow'
 
@@ -0,0 +1,203 @@
+// Blink-rate monitoring (screen stare)
+// Detects blinks from the face mesh eye aspect ratio (EAR) and estimates blinks per minute.
+
+import type { Results } from '@mediapipe/holistic'
+
+import { distance2d, type Point } from './geometry.ts'
+import { FACE_LEFT_EYE_EAR_POINTS, FACE_RIGHT_EYE_EAR_POINTS } from './landmarks.ts'
+import { MovingAverage } from './smoothing.ts'
+
+export type BlinkAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  /** Blinks per minute over the rolling window. */
+  blinksPerMinute: number
+}
+
+export type BlinkRateOptions = {
+  /** Rolling window used to estimate the blink rate. */
+  windowMs?: number
+
+  /** Blink rate (per minute) below which the user is considered to be staring. */
+  lowRateThreshold?: number
+
+  /** How long the rate must stay low (after the window has filled) before alerting. */
+  lowRateMs?: number
+
+  /** An eye counts as closed when EAR drops below this fraction of the open-eye baseline. */
+  closedRatio?: number
+
+  /** Face-mesh dropouts shorter than this do not reset the rolling window. */
+  faceLostGraceMs?: number
+
+  /** Number of open-eye samples averaged into the baseline. */
+  baselineWindowSize?: number
+
+  /**
+   * Face frames per second (over the rolling window) needed to judge the rate. Sparser
+   * sampling, e.g. a hidden tab at 1-5 fps, misses most blinks.
+   */
+  minFrameRate?: number
+}
+
+const DEFAULTS: Required<BlinkRateOptions> = {
+  windowMs: 60_000,
+  lowRateThreshold: 8,
+  lowRateMs: 30_000,
+  closedRatio: 0.7,
+  faceLostGraceMs: 2_000,
+  baselineWindowSize: 30,
+  minFrameRate: 6,
+}
+
+/**
+ * Eye aspect ratio: mean vertical lid distance over horizontal eye width.
+ * Roughly constant while open and drops toward 0 during a blink.
+ */
+function eyeAspectRatio(face: Point[], indices: readonly number[]): number | null {
+  const [p1, p2, p3, p4, p5, p6] = indices.map((i) => face[i])
+  if (!p1 || !p2 || !p3 || !p4 || !p5 || !p6) return null
+
+  const width = distance2d(p1, p4)
+  if (width === 0) return null
+
+  return (distance2d(p2, p6) + distance2d(p3, p5)) / (2 * width)
+}
+
+/**
+ * Counts blinks and emits a single gentle reminder when the blink rate stays abnormally
+ * low (typical of screen staring). Uses the rising-edge + acknowledge pattern from
+ * HandFaceProximity.
+ *
+ * Note: detection runs on decimated frames, so very fast blinks can be missed; the
+ * threshold is deliberately well below a normal resting rate (~15-20/min).
+ */
+export class BlinkRateMonitor {
+  private readonly opts: Required<BlinkRateOptions>
+
+  private baseline: MovingAverage
+  private baselineValue: number | null = null
+
+  private blinkTimesMs: number[] = []
+  private frameTimesMs: number[] = []
+  private eyesClosed = false
+  private observedSinceMs: number | null = null
+  private lastFaceMs: number | null = null
+
+  private lowSinceMs: number | null = null
+  private wasLow = false
+  private lastRate: number | null = null
+
+  constructor(opts: BlinkRateOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+    this.baseline = new MovingAverage(this.opts.baselineWindowSize)
+  }
+
+  public reset(): void {
+    this.baseline.reset()
+    this.baselineValue = null
+    this.blinkTimesMs = []
+    this.frameTimesMs = []
+    this.eyesClosed = false
+    this.observedSinceMs = null
+    this.lastFaceMs = null
+    this.lowSinceMs = null
+    this.wasLow = false
+    this.lastRate = null
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    this.wasLow = true
+  }
+
+  /** Blinks per minute over the rolling window, or null until the window has filled. */
+  public getBlinksPerMinute(): number | null {
+    return this.lastRate
+  }
+
+  public update(results: Results, nowMs: number = performance.now()): BlinkAlert | null {
+    const face = results.faceLandmarks ?? []
+    const right = face.length ? eyeAspectRatio(face, FACE_RIGHT_EYE_EAR_POINTS) : null
+    const left = face.length ? eyeAspectRatio(face, FACE_LEFT_EYE_EAR_POINTS) : null
+
+    if (right === null || left === null) {
+      if (this.lastFaceMs !== null && nowMs - this.lastFaceMs > this.opts.faceLostGraceMs) {
+        this.reset()
+      }
+      return null
+    }
+
+    this.lastFaceMs = nowMs
+    if (this.observedSinceMs === null) this.observedSinceMs = nowMs
+    this.frameTimesMs.push(nowMs)
+
+    const ear = (right + left) / 2
+    this.trackBlink(ear, nowMs)
+
+    // Drop blinks that fell out of the rolling window.
+    const windowStart = nowMs - this.opts.windowMs
+    while (this.blinkTimesMs.length && this.blinkTimesMs[0] < windowStart) {
+      this.blinkTimesMs.shift()
+    }
+    while (this.frameTimesMs.length && this.frameTimesMs[0] < windowStart) {
+      this.frameTimesMs.shift()
+    }
+
+    // Too few frames to see blinks: no rate rather than a falsely low one.
+    const frameRate = (this.frameTimesMs.length * 1000) / this.opts.windowMs
+    if (nowMs - this.observedSinceMs < this.opts.windowMs || frameRate < this.opts.minFrameRate) {
+      this.lastRate = null
+      this.lowSinceMs = null
+      return null
+    }
+
+    const rate = (this.blinkTimesMs.length * 60_000) / this.opts.windowMs
+    this.lastRate = rate
+
+    if (rate >= this.opts.lowRateThreshold) {
+      this.lowSinceMs = null
+      this.wasLow = false
+      return null
+    }
+
+    if (this.lowSinceMs === null) {
+      this.lowSinceMs = nowMs
+      console.debug(
+        `[BlinkRate] Low blink rate: ${rate.toFixed(1)}/min (baseline EAR ${this.baselineValue?.toFixed(3) ?? 'n/a'})`,
+      )
+    }
+    if (nowMs - this.lowSinceMs < this.opts.lowRateMs) return null
+
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+    if (this.wasLow) return null
+
+    return {
+      variant: 'normal',
+      reason: 'Remember to blink \u2014 look 20 ft away for 20 s',
+      blinksPerMinute: rate,
+    }
+  }
+
+  /** Closed → open transition counts as one blink. The baseline only learns from open eyes. */
+  private trackBlink(ear: number, nowMs: number): void {
+    if (this.baselineValue === null) {
+      this.baselineValue = this.baseline.add(ear)
+      return
+    }
+
+    const isClosed = ear < this.baselineValue * this.opts.closedRatio
+
+    if (isClosed) {
+      this.eyesClosed = true
+      return
+    }
+
+    if (this.eyesClosed) {
+      this.eyesClosed = false
+      this.blinkTimesMs.push(nowMs)
+    }
+
+    this.baselineValue = this.baseline.add(ear)
+  }
+}
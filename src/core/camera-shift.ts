@@ -0,0 +1,302 @@
+// Camera-moved detection
+// Notices when the whole framing (face + shoulders) jumps vs the reference while the posture
+// itself stays normal, which means the camera moved rather than the user.
+
+import type { Results } from '@mediapipe/holistic'
+
+import { LANDMARK_LEFT_SHOULDER, LANDMARK_NOSE, LANDMARK_RIGHT_SHOULDER } from './landmarks.ts'
+import {
+  calculateTriangleRatio,
+  type HeadLandmarks,
+  type Landmark,
+  type ReferencePose,
+} from './reference-store.ts'
+import { ExponentialSmoother } from './smoothing.ts'
+
+/** Translation (normalized image coords) + uniform scale mapping the reference framing onto the live one. */
+export type FramingShift = {
+  dx: number
+  dy: number
+  scale: number
+}
+
+export type CameraShiftAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  shift: FramingShift
+}
+
+export type CameraShiftOptions = {
+  /** Smoothing time constant (ms), kept short so a jump stays a jump. */
+  smoothingMs?: number
+
+  /** Shoulder-midpoint translation (in reference shoulder widths) that counts as a shift. */
+  translationThreshold?: number
+
+  /** Relative shoulder-width change (0.15 = 15%) that counts as a shift. */
+  scaleThreshold?: number
+
+  /** Max nose offset (in live shoulder widths) from where the shift predicts it. */
+  consistencyTolerance?: number
+
+  /** Max relative triangle-ratio change; beyond this the user moved, not the camera. */
+  ratioTolerance?: number
+
+  /** The framing must go from aligned to shifted within this time to count as sudden. */
+  jumpWindowMs?: number
+
+  /** How long the shift must persist before alerting. */
+  shiftMs?: number
+
+  /** Hysteresis: the shift ends once the signal drops below this fraction of the thresholds. */
+  releaseFraction?: number
+}
+
+const DEFAULTS: Required<CameraShiftOptions> = {
+  smoothingMs: 250,
+  translationThreshold: 0.35,
+  scaleThreshold: 0.15,
+  consistencyTolerance: 0.15,
+  ratioTolerance: 0.1,
+  jumpWindowMs: 2_000,
+  shiftMs: 3_000,
+  releaseFraction: 0.5,
+}
+
+type FramingMeasurement = {
+  shift: FramingShift
+  /** Nose distance from the position the shift predicts, in live shoulder widths. */
+  residual: number
+  /** Relative triangle-ratio change vs reference. */
+  ratioChange: number
+}
+
+function shoulderMidpoint(left: Landmark, right: Landmark): { x: number; y: number } {
+  return { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 }
+}
+
+function shoulderWidth(left: Landmark, right: Landmark): number {
+  return Math.hypot(right.x - left.x, right.y - left.y)
+}
+
+/**
+ * Measures how the live nose + shoulders relate to the reference as a translation + scale.
+ * Returns null if either shoulder line is degenerate.
+ */
+function measureFraming(
+  nose: Landmark,
+  leftShoulder: Landmark,
+  rightShoulder: Landmark,
+  reference: ReferencePose,
+): FramingMeasurement | null {
+  const refWidth = shoulderWidth(reference.leftShoulder, reference.rightShoulder)
+  const liveWidth = shoulderWidth(leftShoulder, rightShoulder)
+  if (refWidth === 0 || liveWidth === 0 || reference.ratio === 0) return null
+
+  const refMid = shoulderMidpoint(reference.leftShoulder, reference.rightShoulder)
+  const liveMid = shoulderMidpoint(leftShoulder, rightShoulder)
+  const scale = liveWidth / refWidth
+
+  // Where the nose would be if only the camera had moved.
+  const predictedX = liveMid.x + (reference.nose.x - refMid.x) * scale
+  const predictedY = liveMid.y + (reference.nose.y - refMid.y) * scale
+  const residual = Math.hypot(nose.x - predictedX, nose.y - predictedY) / liveWidth
+
+  const ratio = calculateTriangleRatio(nose, leftShoulder, rightShoulder)
+
+  return {
+    shift: { dx: liveMid.x - refMid.x, dy: liveMid.y - refMid.y, scale },
+    residual,
+    ratioChange: Math.abs(ratio - reference.ratio) / reference.ratio,
+  }
+}
+
+function transformLandmark(
+  p: Landmark,
+  origin: { x: number; y: number },
+  shift: FramingShift,
+): Landmark {
+  return {
+    x: origin.x + shift.dx + (p.x - origin.x) * shift.scale,
+    y: origin.y + shift.dy + (p.y - origin.y) * shift.scale,
+    z: typeof p.z === 'number' ? p.z * shift.scale : p.z,
+  }
+}
+
+/**
+ * Moves a reference into the new camera framing. Ratios and calibration thresholds are
+ * scale-invariant, so only coordinates and face size change.
+ */
+export function reanchorReference(reference: ReferencePose, shift: FramingShift): ReferencePose {
+  const origin = shoulderMidpoint(reference.leftShoulder, reference.rightShoulder)
+  const move = (p: Landmark) => transformLandmark(p, origin, shift)
+
+  const head: HeadLandmarks | undefined = reference.head
+    ? {
+        leftEye: move(reference.head.leftEye),
+        rightEye: move(reference.head.rightEye),
+        leftEar: move(reference.head.leftEar),
+        rightEar: move(reference.head.rightEar),
+      }
+    : undefined
+
+  return {
+    ...reference,
+    nose: move(reference.nose),
+    leftShoulder: move(reference.leftShoulder),
+    rightShoulder: move(reference.rightShoulder),
+    head,
+    face: reference.face
+      ? {
+          size: reference.face.size * shift.scale,
+          interocular: reference.face.interocular * shift.scale,
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Detects a sudden, sustained shift of the whole framing while the posture ratio stays
+ * normal (e.g. the laptop lid was nudged). While shifted, reference-based alerts are
+ * meaningless; `isShifted()` lets the app pause them and `getShift()` re-anchor the reference.
+ * Slow drifts are ignored — those are the user moving, not the camera.
+ */
+export class CameraShift {
+  private readonly opts: Required<CameraShiftOptions>
+
+  private dxAvg: ExponentialSmoother
+  private dyAvg: ExponentialSmoother
+  private scaleAvg: ExponentialSmoother
+
+  private lastAlignedMs: number | null = null
+  private shiftSinceMs: number | null = null
+  private ignoreEpisode = false
+  private shifted = false
+  private wasShifted = false
+  private lastShift: FramingShift | null = null
+
+  constructor(opts: CameraShiftOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+    this.dxAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.dyAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.scaleAvg = new ExponentialSmoother(this.opts.smoothingMs)
+  }
+
+  public reset(): void {
+    this.dxAvg.reset()
+    this.dyAvg.reset()
+    this.scaleAvg.reset()
+    this.lastAlignedMs = null
+    this.shiftSinceMs = null
+    this.ignoreEpisode = false
+    this.shifted = false
+    this.wasShifted = false
+    this.lastShift = null
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    this.wasShifted = true
+  }
+
+  /** True once a shift has persisted for `shiftMs`, until the framing returns to the reference. */
+  public isShifted(): boolean {
+    return this.shifted
+  }
+
+  /** Smoothed shift from the reference framing to the live one (for re-anchoring). */
+  public getShift(): FramingShift | null {
+    return this.lastShift
+  }
+
+  public update(
+    results: Results,
+    reference: ReferencePose,
+    nowMs: number = performance.now(),
+  ): CameraShiftAlert | null {
+    const pose = results.poseLandmarks ?? []
+    const nose = pose[LANDMARK_NOSE]
+    const leftShoulder = pose[LANDMARK_LEFT_SHOULDER]
+    const rightShoulder = pose[LANDMARK_RIGHT_SHOULDER]
+
+    const measurement =
+      nose && leftShoulder && rightShoulder
+        ? measureFraming(nose, leftShoulder, rightShoulder, reference)
+        : null
+
+    // Keep a confirmed shift across dropouts; only the live evidence is discarded.
+    if (!measurement) {
+      this.dxAvg.reset()
+      this.dyAvg.reset()
+      this.scaleAvg.reset()
+      this.shiftSinceMs = null
+      return null
+    }
+
+    const refWidth = shoulderWidth(reference.leftShoulder, reference.rightShoulder)
+    const shift: FramingShift = {
+      dx: this.dxAvg.add(measurement.shift.dx, nowMs),
+      dy: this.dyAvg.add(measurement.shift.dy, nowMs),
+      scale: this.scaleAvg.add(measurement.shift.scale, nowMs),
+    }
+    this.lastShift = shift
+
+    const translation = Math.hypot(shift.dx, shift.dy) / refWidth
+    const strength = Math.max(
+      translation / this.opts.translationThreshold,
+      Math.abs(shift.scale - 1) / this.opts.scaleThreshold,
+    )
+
+    if (strength < this.opts.releaseFraction) {
+      if (this.shifted) console.info('[CameraShift] Framing back at reference')
+      this.lastAlignedMs = nowMs
+      this.shiftSinceMs = null
+      this.ignoreEpisode = false
+      this.shifted = false
+      this.wasShifted = false
+      return null
+    }
+
+    if (this.shifted) return this.emit(shift)
+
+    // A changed posture (not just framing) is the user moving; leave it to the posture detectors.
+    const framingOnly =
+      measurement.residual <= this.opts.consistencyTolerance &&
+      measurement.ratioChange <= this.opts.ratioTolerance
+
+    if (strength < 1 || !framingOnly || this.ignoreEpisode) {
+      this.shiftSinceMs = null
+      return null
+    }
+
+    if (this.shiftSinceMs === null) {
+      // Already off when monitoring started (e.g. laptop reopened at a new angle) counts as sudden.
+      const sudden =
+        this.lastAlignedMs === null || nowMs - this.lastAlignedMs <= this.opts.jumpWindowMs
+      if (!sudden) {
+        this.ignoreEpisode = true
+        return null
+      }
+      this.shiftSinceMs = nowMs
+    }
+
+    if (nowMs - this.shiftSinceMs < this.opts.shiftMs) return null
+
+    this.shifted = true
+    console.info(
+      `[CameraShift] Camera moved: dx=${shift.dx.toFixed(3)}, dy=${shift.dy.toFixed(3)}, scale=${shift.scale.toFixed(3)}`,
+    )
+    return this.emit(shift)
+  }
+
+  private emit(shift: FramingShift): CameraShiftAlert | null {
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+    if (this.wasShifted) return null
+
+    return {
+      variant: 'normal',
+      reason: 'Camera moved \u2014 posture alerts paused',
+      shift,
+    }
+  }
+}
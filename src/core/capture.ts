@@ -1,4 +1,7 @@
 // Reference pose capture — 3-second averaged capture session
+// Also hosts two-pose calibration (good + deliberate slouch).
+
+import type { Results } from '@mediapipe/holistic'
 
 import {
   showErrorToast,
@@ -7,19 +10,32 @@ import {
   updateStatusDisplay,
 } from '../ui.ts'
 import { setCaptureOverlayText } from './canvas-renderer.ts'
+import { extractHeadLandmarks } from './forward-head.ts'
 import { LANDMARK_LEFT_SHOULDER, LANDMARK_NOSE, LANDMARK_RIGHT_SHOULDER } from './landmarks.ts'
+import { derivePostureCalibration } from './posture.ts'
 import {
   calculateTriangleRatio,
+  type FaceScale,
+  type HeadLandmarks,
   type Landmark,
   type ReferencePose,
   saveReference,
 } from './reference-store.ts'
+import { measureFaceScale } from './screen-distance.ts'
 
 const MIN_CAPTURE_FRAMES = 10
 
-/** Capture state: when true, onDetectorResults collects triangle landmarks */
+type TriangleLandmarks = { nose: Landmark; leftShoulder: Landmark; rightShoulder: Landmark }
+
+/** One captured frame: the triangle plus head landmarks and face size when visible */
+type CaptureFrame = TriangleLandmarks & { head: HeadLandmarks | null; face: FaceScale | null }
+
+/** Averaged capture result; head/face are omitted when too few frames had them */
+type AveragedCapture = TriangleLandmarks & { head?: HeadLandmarks; face?: FaceScale }
+
+/** Capture state: when true, onDetectorResults collects capture frames */
 let isCapturing = false
-const captureBuffer: Array<{ nose: Landmark; leftShoulder: Landmark; rightShoulder: Landmark }> = []
+const captureBuffer: CaptureFrame[] = []
 
 /** Whether capture is currently in progress */
 export function getIsCapturing(): boolean {
@@ -37,7 +53,7 @@ export function getCaptureBuffer(): typeof captureBuffer {
  */
 export function extractTriangleLandmarks(
   poseLandmarks: Array<{ x: number; y: number; z?: number }>,
-): { nose: Landmark; leftShoulder: Landmark; rightShoulder: Landmark } | null {
+): TriangleLandmarks | null {
   const nose = poseLandmarks[LANDMARK_NOSE]
   const leftShoulder = poseLandmarks[LANDMARK_LEFT_SHOULDER]
   const rightShoulder = poseLandmarks[LANDMARK_RIGHT_SHOULDER]
@@ -52,47 +68,88 @@ export function extractTriangleLandmarks(
 }
 
 /**
- * Runs a 3-second reference pose capture session.
- * Collects triangle landmarks each processed frame, averages them,
- * computes the ratio, and saves to IndexedDB.
- *
- * Returns the saved ReferencePose on success, or null on failure.
+ * Extracts a capture frame (triangle + optional head landmarks and face size) from results.
+ * Returns null if the triangle is incomplete.
  */
-export async function captureReferencePose(
-  captureBtn: HTMLButtonElement,
-  startBtn: HTMLButtonElement,
-  ensureDetectionRunning: () => Promise<void>,
-  getDetectionState: () => { running: boolean; currentReference: ReferencePose | null },
-): Promise<ReferencePose | null> {
-  captureBtn.disabled = true
-  startBtn.disabled = true
+export function extractCaptureFrame(results: Results): CaptureFrame | null {
+  const pose = results.poseLandmarks ?? []
+  const triangle = extractTriangleLandmarks(pose)
+  if (!triangle) return null
+  return {
+    ...triangle,
+    head: extractHeadLandmarks(pose),
+    face: measureFaceScale(results.faceLandmarks),
+  }
+}
 
-  // Ensure webcam and detection are running before capture
-  const state = getDetectionState()
-  if (!state.running) {
-    try {
-      await ensureDetectionRunning()
-    } catch (error) {
-      console.error('[Capture] Failed to start webcam:', error)
-      showErrorToast('Failed to start webcam for capture')
-      captureBtn.disabled = false
-      return null
+function averageLandmarks(points: Landmark[]): Landmark {
+  const sum = { x: 0, y: 0, z: 0 }
+  for (const p of points) {
+    sum.x += p.x
+    sum.y += p.y
+    sum.z += p.z ?? 0
+  }
+
+  const count = points.length
+  return { x: sum.x / count, y: sum.y / count, z: sum.z / count }
+}
+
+function averageCaptureFrames(frames: CaptureFrame[]): AveragedCapture {
+  const averaged: AveragedCapture = {
+    nose: averageLandmarks(frames.map((f) => f.nose)),
+    leftShoulder: averageLandmarks(frames.map((f) => f.leftShoulder)),
+    rightShoulder: averageLandmarks(frames.map((f) => f.rightShoulder)),
+  }
+
+  // Ears are often occluded (hair, headphones); only keep head landmarks seen in most frames.
+  const heads = frames.flatMap((f) => (f.head ? [f.head] : []))
+  if (heads.length >= frames.length / 2) {
+    averaged.head = {
+      leftEye: averageLandmarks(heads.map((h) => h.leftEye)),
+      rightEye: averageLandmarks(heads.map((h) => h.rightEye)),
+      leftEar: averageLandmarks(heads.map((h) => h.leftEar)),
+      rightEar: averageLandmarks(heads.map((h) => h.rightEar)),
+    }
+  }
+
+  const faces = frames.flatMap((f) => (f.face ? [f.face] : []))
+  if (faces.length >= frames.length / 2) {
+    averaged.face = {
+      size: faces.reduce((sum, f) => sum + f.size, 0) / faces.length,
+      interocular: faces.reduce((sum, f) => sum + f.interocular, 0) / faces.length,
     }
   }
 
+  return averaged
+}
+
+type CapturePrompt = {
+  /** Overlay glyph shown before the countdown */
+  glyph: string
+  /** Status text shown before the countdown */
+  intro: string
+  /** Status text prefix during the countdown (e.g. "Hold good posture...") */
+  hold: string
+}
+
+/**
+ * Runs one countdown while onDetectorResults fills the capture buffer.
+ * Returns the averaged landmarks, or null (with user-facing error) if too few frames arrived.
+ */
+async function collectAveragedCapture(prompt: CapturePrompt): Promise<AveragedCapture | null> {
   // Reset capture state
   captureBuffer.length = 0
   isCapturing = true
 
   // Pre-countdown instruction
-  setCaptureOverlayText('🧘')
-  updateStatusDisplay('Good posture please...')
+  setCaptureOverlayText(prompt.glyph)
+  updateStatusDisplay(prompt.intro)
   await new Promise((resolve) => setTimeout(resolve, 1500))
 
   // Countdown: 3... 2... 1...
   for (let i = 3; i > 0; i--) {
     setCaptureOverlayText(String(i))
-    updateStatusDisplay(`Hold good posture... ${i}`)
+    updateStatusDisplay(`${prompt.hold} ${i}`)
     await new Promise((resolve) => setTimeout(resolve, 1000))
   }
 
@@ -113,59 +170,63 @@ export async function captureReferencePose(
       `Capture failed: only ${captureBuffer.length} valid frames detected. Ensure your face and shoulders are visible.`,
     )
     updateStatusDisplay('Capture failed \u2014 try again')
-    captureBtn.disabled = false
     return null
   }
 
-  // Average the collected landmarks
-  const count = captureBuffer.length
-  const averaged = {
-    nose: { x: 0, y: 0, z: 0 },
-    leftShoulder: { x: 0, y: 0, z: 0 },
-    rightShoulder: { x: 0, y: 0, z: 0 },
-  }
+  console.debug(`[Capture] Averaged ${captureBuffer.length} frames`)
+  return averageCaptureFrames(captureBuffer)
+}
 
-  for (const frame of captureBuffer) {
-    averaged.nose.x += frame.nose.x
-    averaged.nose.y += frame.nose.y
-    averaged.nose.z += frame.nose.z ?? 0
-    averaged.leftShoulder.x += frame.leftShoulder.x
-    averaged.leftShoulder.y += frame.leftShoulder.y
-    averaged.leftShoulder.z += frame.leftShoulder.z ?? 0
-    averaged.rightShoulder.x += frame.rightShoulder.x
-    averaged.rightShoulder.y += frame.rightShoulder.y
-    averaged.rightShoulder.z += frame.rightShoulder.z ?? 0
-  }
+const GOOD_POSTURE_PROMPT: CapturePrompt = {
+  glyph: '🧘',
+  intro: 'Good posture please...',
+  hold: 'Hold good posture...',
+}
 
-  const nose: Landmark = {
-    x: averaged.nose.x / count,
-    y: averaged.nose.y / count,
-    z: averaged.nose.z / count,
-  }
-  const leftShoulder: Landmark = {
-    x: averaged.leftShoulder.x / count,
-    y: averaged.leftShoulder.y / count,
-    z: averaged.leftShoulder.z / count,
-  }
-  const rightShoulder: Landmark = {
-    x: averaged.rightShoulder.x / count,
-    y: averaged.rightShoulder.y / count,
-    z: averaged.rightShoulder.z / count,
+const SLOUCH_PROMPT: CapturePrompt = {
+  glyph: '🫠',
+  intro: 'Now slouch the way you usually do...',
+  hold: 'Hold the slouch...',
+}
+
+function buildReference(capture: AveragedCapture): ReferencePose {
+  return {
+    ...capture,
+    ratio: calculateTriangleRatio(capture.nose, capture.leftShoulder, capture.rightShoulder),
+    capturedAt: new Date().toISOString(),
   }
+}
 
-  const ratio = calculateTriangleRatio(nose, leftShoulder, rightShoulder)
+/** Starts the webcam/detection if needed. Returns false (with user-facing error) on failure. */
+async function ensureCaptureReady(
+  ensureDetectionRunning: () => Promise<void>,
+  getDetectionState: () => { running: boolean; currentReference: ReferencePose | null },
+): Promise<boolean> {
+  const state = getDetectionState()
+  if (state.running) return true
 
-  const reference: ReferencePose = {
-    nose,
-    leftShoulder,
-    rightShoulder,
-    ratio,
-    capturedAt: new Date().toISOString(),
+  try {
+    await ensureDetectionRunning()
+    return true
+  } catch (error) {
+    console.error('[Capture] Failed to start webcam:', error)
+    showErrorToast('Failed to start webcam for capture')
+    return false
   }
+}
 
+/** Saves the reference and updates UI. Returns the reference on success, null on failure. */
+async function persistReference(
+  reference: ReferencePose,
+  profileId: string,
+  captureBtn: HTMLButtonElement,
+  startBtn: HTMLButtonElement,
+  getDetectionState: () => { running: boolean; currentReference: ReferencePose | null },
+  successMessage: string,
+): Promise<ReferencePose | null> {
   try {
-    await saveReference(reference)
-    console.info(`[Capture] Reference saved \u2014 ratio: ${ratio.toFixed(4)}, frames: ${count}`)
+    await saveReference(reference, profileId)
+    console.info(`[Capture] Reference saved \u2014 ratio: ${reference.ratio.toFixed(4)}`)
 
     // Flash checkmark on canvas
     setCaptureOverlayText('\u2705')
@@ -173,9 +234,8 @@ export async function captureReferencePose(
       setCaptureOverlayText('')
     }, 1500)
 
-    updateStatusDisplay('Reference captured \u2014 ready to monitor')
+    updateStatusDisplay(successMessage)
     updateReferenceStatus(reference)
-    captureBtn.disabled = false
     captureBtn.textContent = 'Recapture Pose'
     const updatedState = getDetectionState()
     syncStartButton(startBtn, updatedState.running, true)
@@ -184,7 +244,107 @@ export async function captureReferencePose(
     console.error('[Capture] Failed to save reference:', error)
     showErrorToast('Failed to save reference pose')
     updateStatusDisplay('Save failed \u2014 try again')
-    captureBtn.disabled = false
     return null
   }
 }
+
+/**
+ * Runs a 3-second reference pose capture session.
+ * Collects triangle landmarks each processed frame, averages them,
+ * computes the ratio, and saves to IndexedDB into the given profile slot.
+ *
+ * Returns the saved ReferencePose on success, or null on failure.
+ */
+export async function captureReferencePose(
+  captureBtn: HTMLButtonElement,
+  startBtn: HTMLButtonElement,
+  profileId: string,
+  ensureDetectionRunning: () => Promise<void>,
+  getDetectionState: () => { running: boolean; currentReference: ReferencePose | null },
+): Promise<ReferencePose | null> {
+  captureBtn.disabled = true
+  startBtn.disabled = true
+
+  try {
+    // Ensure webcam and detection are running before capture
+    if (!(await ensureCaptureReady(ensureDetectionRunning, getDetectionState))) return null
+
+    const good = await collectAveragedCapture(GOOD_POSTURE_PROMPT)
+    if (!good) return null
+
+    return await persistReference(
+      buildReference(good),
+      profileId,
+      captureBtn,
+      startBtn,
+      getDetectionState,
+      'Reference captured \u2014 ready to monitor',
+    )
+  } finally {
+    captureBtn.disabled = false
+  }
+}
+
+/**
+ * Two-pose calibration: captures good posture, then a deliberate slouch, and stores
+ * personal thresholds on the reference so the detector triggers partway between the two.
+ *
+ * Returns the saved ReferencePose on success, or null on failure.
+ */
+export async function calibrateReferencePose(
+  calibrateBtn: HTMLButtonElement,
+  captureBtn: HTMLButtonElement,
+  startBtn: HTMLButtonElement,
+  profileId: string,
+  ensureDetectionRunning: () => Promise<void>,
+  getDetectionState: () => { running: boolean; currentReference: ReferencePose | null },
+): Promise<ReferencePose | null> {
+  calibrateBtn.disabled = true
+  captureBtn.disabled = true
+  startBtn.disabled = true
+
+  try {
+    if (!(await ensureCaptureReady(ensureDetectionRunning, getDetectionState))) return null
+
+    const good = await collectAveragedCapture(GOOD_POSTURE_PROMPT)
+    if (!good) return null
+
+    const slouch = await collectAveragedCapture(SLOUCH_PROMPT)
+    if (!slouch) return null
+
+    const reference = buildReference(good)
+    const slouchRatio = calculateTriangleRatio(
+      slouch.nose,
+      slouch.leftShoulder,
+      slouch.rightShoulder,
+    )
+    const calibration = derivePostureCalibration(reference, { ...slouch, ratio: slouchRatio })
+
+    if (!calibration) {
+      console.warn(
+        `[Capture] Calibration rejected: good=${reference.ratio.toFixed(4)}, slouch=${slouchRatio.toFixed(4)}`,
+      )
+      showErrorToast(
+        'Calibration failed: the slouch looked too similar to your good posture. Try a clearer slouch.',
+      )
+      updateStatusDisplay('Calibration failed \u2014 try again')
+      return null
+    }
+
+    console.info(
+      `[Capture] Calibrated \u2014 ratioDropThreshold: ${calibration.ratioDropThreshold.toFixed(4)}, zDeviationThreshold: ${calibration.zDeviationThreshold?.toFixed(4) ?? 'n/a'}`,
+    )
+
+    return await persistReference(
+      { ...reference, calibration },
+      profileId,
+      captureBtn,
+      startBtn,
+      getDetectionState,
+      'Calibration saved \u2014 ready to monitor',
+    )
+  } finally {
+    calibrateBtn.disabled = false
+    captureBtn.disabled = false
+  }
+}
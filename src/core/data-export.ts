@@ -0,0 +1,420 @@
+// Data Export - move references, settings and history between browsers
+// One versioned JSON file, optionally encrypted with a passphrase (PBKDF2 + AES-GCM via
+// WebCrypto). Import validates the schema, then merges into or replaces the local data.
+//
+// Format:
+//   {"format":"posturelens-export","version":1,"exportedAt":"...","data":{profiles,activeProfileId,settings,history}}
+//   {"format":"posturelens-export","version":1,"exportedAt":"...","encrypted":{kdf,iterations,salt,iv,ciphertext}}
+
+import { type HistoryMinute, loadAllHistory, replaceHistory } from './history.ts'
+import {
+  listProfiles,
+  loadActiveProfileId,
+  type ReferenceProfile,
+  replaceProfiles,
+} from './reference-store.ts'
+
+export const EXPORT_FORMAT = 'posturelens-export'
+export const EXPORT_VERSION = 1
+
+/** localStorage keys with this prefix are app settings */
+export const SETTINGS_KEY_PREFIX = 'posturelens.'
+
+/** OWASP 2023 recommendation for PBKDF2-HMAC-SHA256 */
+const PBKDF2_ITERATIONS = 600_000
+/** Files come from anywhere: a huge count would freeze the tab while deriving the key */
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+/** Everything the app keeps locally */
+export type LocalData = {
+  profiles: ReferenceProfile[]
+  activeProfileId: string | null
+  /** localStorage settings (keys start with SETTINGS_KEY_PREFIX) */
+  settings: Record<string, string>
+  history: HistoryMinute[]
+}
+
+export type EncryptedPayload = {
+  kdf: 'PBKDF2-SHA-256'
+  iterations: number
+  /** base64 */
+  salt: string
+  /** base64 AES-GCM nonce */
+  iv: string
+  /** base64 AES-GCM ciphertext of the JSON-encoded LocalData */
+  ciphertext: string
+}
+
+type ExportHeader = {
+  format: typeof EXPORT_FORMAT
+  version: typeof EXPORT_VERSION
+  /** ISO timestamp */
+  exportedAt: string
+}
+
+export type ExportFile = ExportHeader & ({ data: LocalData } | { encrypted: EncryptedPayload })
+
+export type ImportMode = 'merge' | 'replace'
+
+// --- Validation --------------------------------------------------------------
+
+type Json = Record<string, unknown>
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function fail(path: string, expected: string): never {
+  throw new Error(`${path} must be ${expected}`)
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) fail(path, 'an object')
+  return value
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, 'an array')
+  return value
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') fail(path, 'a string')
+  return value
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number')
+  return value
+}
+
+function expectIterations(value: unknown): number {
+  const iterations = expectNumber(value, 'encrypted.iterations')
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    fail('encrypted.iterations', `a whole number from 1 to ${MAX_PBKDF2_ITERATIONS}`)
+  }
+  return iterations
+}
+
+function validateLandmark(value: unknown, path: string): void {
+  const point = expectObject(value, path)
+  expectNumber(point.x, `${path}.x`)
+  expectNumber(point.y, `${path}.y`)
+  if (point.z !== undefined) expectNumber(point.z, `${path}.z`)
+}
+
+function validateProfile(value: unknown, path: string): ReferenceProfile {
+  const profile = expectObject(value, path)
+  expectString(profile.id, `${path}.id`)
+  expectString(profile.name, `${path}.name`)
+  expectString(profile.createdAt, `${path}.createdAt`)
+
+  if (profile.pose !== null) {
+    const pose = expectObject(profile.pose, `${path}.pose`)
+    for (const key of ['nose', 'leftShoulder', 'rightShoulder']) {
+      validateLandmark(pose[key], `${path}.pose.${key}`)
+    }
+    expectNumber(pose.ratio, `${path}.pose.ratio`)
+    expectString(pose.capturedAt, `${path}.pose.capturedAt`)
+
+    // Optional parts: older references lack them, but present ones feed the detectors.
+    if (pose.head !== undefined) {
+      const head = expectObject(pose.head, `${path}.pose.head`)
+      for (const key of ['leftEye', 'rightEye', 'leftEar', 'rightEar']) {
+        validateLandmark(head[key], `${path}.pose.head.${key}`)
+      }
+    }
+    if (pose.face !== undefined) {
+      const face = expectObject(pose.face, `${path}.pose.face`)
+      expectNumber(face.size, `${path}.pose.face.size`)
+      expectNumber(face.interocular, `${path}.pose.face.interocular`)
+    }
+    if (pose.calibration !== undefined) {
+      const calibration = expectObject(pose.calibration, `${path}.pose.calibration`)
+      expectNumber(calibration.slouchRatio, `${path}.pose.calibration.slouchRatio`)
+      expectNumber(calibration.ratioDropThreshold, `${path}.pose.calibration.ratioDropThreshold`)
+      if (calibration.zDeviationThreshold !== undefined) {
+        expectNumber(
+          calibration.zDeviationThreshold,
+          `${path}.pose.calibration.zDeviationThreshold`,
+        )
+      }
+    }
+  }
+  return value as ReferenceProfile
+}
+
+function validateMinute(value: unknown, path: string): HistoryMinute {
+  const minute = expectObject(value, path)
+  for (const key of [
+    'minute',
+    'scoredFrames',
+    'scoreSum',
+    'badPostureMs',
+    'presentMs',
+    'monitoredMs',
+  ]) {
+    expectNumber(minute[key], `${path}.${key}`)
+  }
+  if (minute.minScore !== null) expectNumber(minute.minScore, `${path}.minScore`)
+
+  const alerts = expectObject(minute.alerts, `${path}.alerts`)
+  for (const [type, count] of Object.entries(alerts)) {
+    expectNumber(count, `${path}.alerts.${type}`)
+  }
+  return value as HistoryMinute
+}
+
+/** Checks the shape of decoded export data; throws naming the first invalid field. */
+export function validateLocalData(raw: unknown): LocalData {
+  const data = expectObject(raw, 'data')
+
+  const profiles = expectArray(data.profiles, 'data.profiles').map((p, i) =>
+    validateProfile(p, `data.profiles[${i}]`),
+  )
+
+  const activeProfileId =
+    data.activeProfileId === null
+      ? null
+      : expectString(data.activeProfileId, 'data.activeProfileId')
+
+  const settings: Record<string, string> = {}
+  for (const [key, value] of Object.entries(expectObject(data.settings, 'data.settings'))) {
+    if (!key.startsWith(SETTINGS_KEY_PREFIX)) {
+      throw new Error(`data.settings.${key} is not a PostureLens setting`)
+    }
+    settings[key] = expectString(value, `data.settings.${key}`)
+  }
+
+  const history = expectArray(data.history, 'data.history').map((m, i) =>
+    validateMinute(m, `data.history[${i}]`),
+  )
+
+  return { profiles, activeProfileId, settings, history }
+}
+
+/**
+ * Parses an export file (plain or encrypted). Throws on anything that is not a
+ * supported PostureLens export.
+ */
+export function parseExportFile(text: string): ExportFile {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (!isObject(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new Error('Not a PostureLens export')
+  }
+  if (raw.version !== EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${String(raw.version)}`)
+  }
+  const exportedAt = expectString(raw.exportedAt, 'exportedAt')
+  const header: ExportHeader = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt }
+
+  if (raw.encrypted !== undefined) {
+    const payload = expectObject(raw.encrypted, 'encrypted')
+    if (payload.kdf !== 'PBKDF2-SHA-256') throw new Error('encrypted.kdf is not supported')
+    return {
+      ...header,
+      encrypted: {
+        kdf: 'PBKDF2-SHA-256',
+        iterations: expectIterations(payload.iterations),
+        salt: expectString(payload.salt, 'encrypted.salt'),
+        iv: expectString(payload.iv, 'encrypted.iv'),
+        ciphertext: expectString(payload.ciphertext, 'encrypted.ciphertext'),
+      },
+    }
+  }
+
+  return { ...header, data: validateLocalData(raw.data) }
+}
+
+// --- Encryption --------------------------------------------------------------
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/** Encrypts the data with a key derived from `passphrase`. */
+export async function encryptLocalData(
+  data: LocalData,
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS,
+): Promise<EncryptedPayload> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await deriveKey(passphrase, salt, iterations)
+  const plaintext = new TextEncoder().encode(JSON.stringify(data))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext)
+
+  return {
+    kdf: 'PBKDF2-SHA-256',
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/** Decrypts and validates an encrypted payload; a wrong passphrase throws. */
+export async function decryptLocalData(
+  payload: EncryptedPayload,
+  passphrase: string,
+): Promise<LocalData> {
+  const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations)
+
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.ciphertext),
+    )
+  } catch {
+    throw new Error('Wrong passphrase or damaged file')
+  }
+  return validateLocalData(JSON.parse(new TextDecoder().decode(plaintext)))
+}
+
+/** Serializes an export file, encrypted when a passphrase is given. */
+export async function buildExportFile(
+  data: LocalData,
+  passphrase?: string,
+  exportedAt: Date = new Date(),
+): Promise<string> {
+  const header: ExportHeader = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+  }
+  const file: ExportFile = passphrase
+    ? { ...header, encrypted: await encryptLocalData(data, passphrase) }
+    : { ...header, data }
+  return JSON.stringify(file)
+}
+
+// --- Conflict handling -------------------------------------------------------
+
+/**
+ * Combines imported data with what is already stored. `replace` takes the import as is.
+ * `merge` keeps every local value and only adds what is missing:
+ * - profiles with a new id are added; an id clash with different content is added as a
+ *   renamed copy ("<name> (imported)") so neither calibration is lost, unless a local
+ *   profile already holds that content (e.g. the copy from an earlier import)
+ * - settings and history minutes already present locally win, so importing the same file
+ *   twice changes nothing
+ */
+/** A profile's pose and dates, without the id and name that a merge may change */
+function profileContent(profile: ReferenceProfile): string {
+  const { id: _id, name: _name, ...content } = profile
+  return JSON.stringify(content)
+}
+
+export function mergeLocalData(
+  current: LocalData,
+  incoming: LocalData,
+  mode: ImportMode,
+  newId: () => string = () => crypto.randomUUID(),
+): LocalData {
+  if (mode === 'replace') return incoming
+
+  const profiles = [...current.profiles]
+  for (const profile of incoming.profiles) {
+    const existing = profiles.find((p) => p.id === profile.id)
+    if (!existing) {
+      profiles.push(profile)
+    } else if (!profiles.some((p) => profileContent(p) === profileContent(profile))) {
+      profiles.push({ ...profile, id: newId(), name: `${profile.name} (imported)` })
+    }
+  }
+
+  const history = new Map(incoming.history.map((m) => [m.minute, m]))
+  for (const m of current.history) history.set(m.minute, m)
+
+  return {
+    profiles,
+    activeProfileId: current.activeProfileId ?? incoming.activeProfileId,
+    settings: { ...incoming.settings, ...current.settings },
+    history: [...history.values()].sort((a, b) => a.minute - b.minute),
+  }
+}
+
+// --- Storage -----------------------------------------------------------------
+
+/** Reads every profile, setting and history minute. */
+export async function collectLocalData(storage: Storage = localStorage): Promise<LocalData> {
+  const settings: Record<string, string> = {}
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i)
+    if (!key?.startsWith(SETTINGS_KEY_PREFIX)) continue
+    const value = storage.getItem(key)
+    if (value !== null) settings[key] = value
+  }
+
+  return {
+    profiles: await listProfiles(),
+    activeProfileId: await loadActiveProfileId(),
+    settings,
+    history: await loadAllHistory(),
+  }
+}
+
+/** Imports data: merges with or replaces the local profiles, settings and history. */
+export async function importLocalData(
+  incoming: LocalData,
+  mode: ImportMode,
+  storage: Storage = localStorage,
+): Promise<LocalData> {
+  const result = mergeLocalData(await collectLocalData(storage), incoming, mode)
+
+  await replaceProfiles(result.profiles, result.activeProfileId)
+  await replaceHistory(result.history)
+
+  const stale: string[] = []
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i)
+    if (key?.startsWith(SETTINGS_KEY_PREFIX) && !(key in result.settings)) stale.push(key)
+  }
+  for (const key of stale) storage.removeItem(key)
+  for (const [key, value] of Object.entries(result.settings)) storage.setItem(key, value)
+
+  console.info(
+    `[DataExport] Imported (${mode}): ${result.profiles.length} profile(s), ${result.history.length} minute(s)`,
+  )
+  return result
+}
@@ -0,0 +1,210 @@
+// Detector registry
+// Common interface for alert detectors plus a registry the detection loop iterates over
+// (priority order, enable/disable, sensitivity presets, alert counters).
+
+import type { Results } from '@mediapipe/holistic'
+
+import type { AlertVariant } from './alert-engine.ts'
+import type { ReferencePose } from './reference-store.ts'
+
+export type SensitivityLevel = 'low' | 'medium' | 'high'
+
+export const SENSITIVITY_LEVELS: readonly SensitivityLevel[] = ['low', 'medium', 'high']
+
+/** Minimal alert shape every detector emits (detectors may add their own fields). */
+export type DetectorAlert = {
+  variant: AlertVariant
+  reason: string
+}
+
+/** Everything a detector gets for one processed frame. */
+export type DetectorFrame = {
+  results: Results
+  /** Null when no reference is captured (or it is paused, e.g. after a camera move). */
+  reference: ReferencePose | null
+  nowMs: number
+}
+
+/** Posture state after the latest update (feeds the history aggregates). */
+export type PostureSample = {
+  /** 0-100, where 100 matches the reference */
+  score: number
+  /** Past the deviation threshold, whether or not an alert has fired yet */
+  deviated: boolean
+}
+
+export interface AlertDetector {
+  update(frame: DetectorFrame): DetectorAlert | null
+  reset(): void
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  acknowledge(): void
+  /** Implemented by the detector that scores posture; null until it has a score. */
+  postureSample?(): PostureSample | null
+}
+
+/**
+ * Wraps an existing detector class as an AlertDetector; `update` maps the frame onto the
+ * class's own update signature.
+ */
+export function adaptDetector<D extends { reset(): void; acknowledge(): void }>(
+  detector: D,
+  update: (detector: D, frame: DetectorFrame) => DetectorAlert | null,
+): AlertDetector {
+  return {
+    update: (frame) => update(detector, frame),
+    reset: () => detector.reset(),
+    acknowledge: () => detector.acknowledge(),
+  }
+}
+
+export type DetectorDefinition = {
+  /** Stable id (used for persisted settings). */
+  id: string
+  label: string
+  /** Lower runs first; when several detectors alert on the same frame, the lowest wins. */
+  priority: number
+  /** Skipped (not updated) while `frame.reference` is null. */
+  requiresReference: boolean
+  /** Whether `create` honors the sensitivity level (drives the settings UI). */
+  tunable: boolean
+  create: (level: SensitivityLevel) => AlertDetector
+}
+
+/** Public view of a registered detector (for settings UI / debugging). */
+export type DetectorInfo = {
+  id: string
+  label: string
+  priority: number
+  requiresReference: boolean
+  tunable: boolean
+  enabled: boolean
+  level: SensitivityLevel
+  alertCount: number
+}
+
+export type DetectorHit = {
+  id: string
+  alert: DetectorAlert
+}
+
+type RegistryEntry = {
+  definition: DetectorDefinition
+  detector: AlertDetector
+  enabled: boolean
+  level: SensitivityLevel
+  alertCount: number
+}
+
+/**
+ * Holds detectors in priority order. Every enabled detector is updated on every frame
+ * (so smoothing and timers keep running while a higher-priority alert is active); all
+ * pending alerts are returned in priority order and the alert engine picks one.
+ */
+export class DetectorRegistry {
+  private entries: RegistryEntry[] = []
+
+  public register(
+    definition: DetectorDefinition,
+    settings: { enabled?: boolean; level?: SensitivityLevel } = {},
+  ): void {
+    if (this.entries.some((e) => e.definition.id === definition.id)) {
+      throw new Error(`Detector "${definition.id}" is already registered`)
+    }
+
+    const level = settings.level ?? 'medium'
+    this.entries.push({
+      definition,
+      detector: definition.create(level),
+      enabled: settings.enabled ?? true,
+      level,
+      alertCount: 0,
+    })
+    this.entries.sort((a, b) => a.definition.priority - b.definition.priority)
+  }
+
+  public list(): DetectorInfo[] {
+    return this.entries.map((e) => ({
+      id: e.definition.id,
+      label: e.definition.label,
+      priority: e.definition.priority,
+      requiresReference: e.definition.requiresReference,
+      tunable: e.definition.tunable,
+      enabled: e.enabled,
+      level: e.level,
+      alertCount: e.alertCount,
+    }))
+  }
+
+  public isEnabled(id: string): boolean {
+    return this.getEntry(id).enabled
+  }
+
+  public setEnabled(id: string, enabled: boolean): void {
+    const entry = this.getEntry(id)
+    if (entry.enabled === enabled) return
+    entry.enabled = enabled
+    entry.detector.reset()
+  }
+
+  public setSensitivity(id: string, level: SensitivityLevel): void {
+    const entry = this.getEntry(id)
+    entry.level = level
+    entry.detector = entry.definition.create(level)
+  }
+
+  /** Recreates a detector with its current level (after options outside the registry changed). */
+  public rebuild(id: string): void {
+    const entry = this.getEntry(id)
+    entry.detector = entry.definition.create(entry.level)
+  }
+
+  /** Resets detector state; `referenceOnly` limits it to detectors that use the reference. */
+  public reset(filter: { referenceOnly?: boolean } = {}): void {
+    for (const entry of this.entries) {
+      if (filter.referenceOnly && !entry.definition.requiresReference) continue
+      entry.detector.reset()
+    }
+  }
+
+  public resetAlertCounts(): void {
+    for (const entry of this.entries) entry.alertCount = 0
+  }
+
+  /** Updates every enabled detector; returns their alerts, highest priority first. */
+  public evaluate(frame: DetectorFrame): DetectorHit[] {
+    const hits: DetectorHit[] = []
+
+    for (const entry of this.entries) {
+      if (!entry.enabled) continue
+      if (entry.definition.requiresReference && !frame.reference) continue
+
+      const alert = entry.detector.update(frame)
+      if (alert) hits.push({ id: entry.definition.id, alert })
+    }
+
+    return hits
+  }
+
+  /** Posture state from the first enabled detector that scores posture. */
+  public postureSample(): PostureSample | null {
+    for (const entry of this.entries) {
+      if (!entry.enabled) continue
+      const sample = entry.detector.postureSample?.()
+      if (sample) return sample
+    }
+    return null
+  }
+
+  /** Call when the alert from `evaluate` was actually shown. */
+  public acknowledge(id: string): void {
+    const entry = this.getEntry(id)
+    entry.alertCount++
+    entry.detector.acknowledge()
+  }
+
+  private getEntry(id: string): RegistryEntry {
+    const entry = this.entries.find((e) => e.definition.id === id)
+    if (!entry) throw new Error(`Unknown detector "${id}"`)
+    return entry
+  }
+}
@@ -18,15 +18,26 @@ export interface DetectorConfig {
   enableSegmentation?: boolean
 }
 
+/** What the detection loop needs from a landmark source (the live Detector or a stand-in). */
+export interface LandmarkSource {
+  loadModel(): Promise<void>
+  onResults(callback: (results: Results) => void): void
+  processFrame(videoElement: HTMLVideoElement): Promise<void>
+  cleanup(): Promise<void>
+}
+
 export interface DetectorCapabilities {
   webgpu: boolean
   wasm: boolean
 }
 
-export class Detector {
+/** Live frames are processed 1 in N while the tab is visible */
+export const DEFAULT_FRAME_DECIMATION = 3
+
+export class Detector implements LandmarkSource {
   private holistic: HolisticType | null = null
   private frameCount = 0
-  private frameDecimation = 3 // Process every 3rd frame
+  private frameDecimation = DEFAULT_FRAME_DECIMATION
   private config: Required<DetectorConfig>
   private capabilities: DetectorCapabilities
   private onResultsCallback: ((results: Results) => void) | null = null
@@ -0,0 +1,247 @@
+// Forward-head posture ("tech neck") detection
+// Compares ear/eye geometry relative to the shoulders vs the captured reference.
+
+import type { Results } from '@mediapipe/holistic'
+
+import {
+  LANDMARK_LEFT_EAR,
+  LANDMARK_LEFT_EYE,
+  LANDMARK_LEFT_SHOULDER,
+  LANDMARK_RIGHT_EAR,
+  LANDMARK_RIGHT_EYE,
+  LANDMARK_RIGHT_SHOULDER,
+} from './landmarks.ts'
+import type { HeadLandmarks, Landmark, ReferencePose } from './reference-store.ts'
+import { ExponentialSmoother } from './smoothing.ts'
+
+export type ForwardHeadAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  /** Estimated forward displacement vs reference (0 = same as reference). */
+  displacement: number
+}
+
+export type ForwardHeadOptions = {
+  /** Smoothing time constant (ms); independent of frame rate. */
+  smoothingMs?: number
+
+  /** How long the head must stay forward (ms) before triggering. */
+  triggerMs?: number
+
+  /** Displacement (weighted relative change, e.g. 0.12 = 12%) required to count as forward. */
+  displacementThreshold?: number
+}
+
+const DEFAULTS: Required<ForwardHeadOptions> = {
+  smoothingMs: 500,
+  triggerMs: 3_000,
+  displacementThreshold: 0.12,
+}
+
+/** Weights of the displacement components; the Z weight is dropped when depth is missing. */
+const SCALE_WEIGHT = 0.4
+const NECK_WEIGHT = 0.4
+const Z_WEIGHT = 0.2
+
+/** Geometry of the head relative to the shoulders, normalized by shoulder width. */
+export type ForwardHeadMetrics = {
+  /** Interocular distance / shoulder width (grows as the head moves toward the camera). */
+  headScale: number
+  /** Vertical ear-midpoint-to-shoulder-midpoint distance / shoulder width (shrinks as the head juts). */
+  neckLength: number
+  /** (ear-midpoint Z - shoulder-midpoint Z) / shoulder width; more negative = head further forward. */
+  earShoulderZ: number | null
+}
+
+/**
+ * Extracts eye and ear landmarks from pose results.
+ * Returns null if any of the 4 required landmarks are missing.
+ */
+export function extractHeadLandmarks(
+  poseLandmarks: Array<{ x: number; y: number; z?: number }>,
+): HeadLandmarks | null {
+  const leftEye = poseLandmarks[LANDMARK_LEFT_EYE]
+  const rightEye = poseLandmarks[LANDMARK_RIGHT_EYE]
+  const leftEar = poseLandmarks[LANDMARK_LEFT_EAR]
+  const rightEar = poseLandmarks[LANDMARK_RIGHT_EAR]
+
+  if (!leftEye || !rightEye || !leftEar || !rightEar) return null
+
+  return {
+    leftEye: { x: leftEye.x, y: leftEye.y, z: leftEye.z },
+    rightEye: { x: rightEye.x, y: rightEye.y, z: rightEye.z },
+    leftEar: { x: leftEar.x, y: leftEar.y, z: leftEar.z },
+    rightEar: { x: rightEar.x, y: rightEar.y, z: rightEar.z },
+  }
+}
+
+function midpointZ(a: Landmark, b: Landmark): number | null {
+  if (typeof a.z !== 'number' || typeof b.z !== 'number') return null
+  if (!Number.isFinite(a.z) || !Number.isFinite(b.z)) return null
+  return (a.z + b.z) / 2
+}
+
+/**
+ * Computes head-vs-shoulder geometry. Returns null if the shoulders collapse to a point.
+ */
+export function computeForwardHeadMetrics(
+  head: HeadLandmarks,
+  leftShoulder: Landmark,
+  rightShoulder: Landmark,
+): ForwardHeadMetrics | null {
+  const shoulderWidth = Math.hypot(
+    rightShoulder.x - leftShoulder.x,
+    rightShoulder.y - leftShoulder.y,
+  )
+  if (shoulderWidth === 0) return null
+
+  const interocular = Math.hypot(head.rightEye.x - head.leftEye.x, head.rightEye.y - head.leftEye.y)
+  const earMidY = (head.leftEar.y + head.rightEar.y) / 2
+  const shoulderMidY = (leftShoulder.y + rightShoulder.y) / 2
+
+  const earZ = midpointZ(head.leftEar, head.rightEar)
+  const shoulderZ = midpointZ(leftShoulder, rightShoulder)
+
+  return {
+    headScale: interocular / shoulderWidth,
+    neckLength: (shoulderMidY - earMidY) / shoulderWidth,
+    earShoulderZ: earZ !== null && shoulderZ !== null ? (earZ - shoulderZ) / shoulderWidth : null,
+  }
+}
+
+/**
+ * Weighted forward displacement of live vs reference metrics.
+ * Each component is a relative change where positive means "more forward".
+ */
+function forwardDisplacement(
+  live: ForwardHeadMetrics,
+  ref: ForwardHeadMetrics,
+): { displacement: number; usedZ: boolean } {
+  const scaleGrowth = ref.headScale > 0 ? live.headScale / ref.headScale - 1 : 0
+  const neckShrink = ref.neckLength > 0 ? 1 - live.neckLength / ref.neckLength : 0
+
+  if (live.earShoulderZ === null || ref.earShoulderZ === null) {
+    const displacement =
+      (scaleGrowth * SCALE_WEIGHT + neckShrink * NECK_WEIGHT) / (SCALE_WEIGHT + NECK_WEIGHT)
+    return { displacement, usedZ: false }
+  }
+
+  // Z is already normalized by shoulder width, so the raw shift is comparable to the ratios.
+  const zForward = ref.earShoulderZ - live.earShoulderZ
+
+  return {
+    displacement: scaleGrowth * SCALE_WEIGHT + neckShrink * NECK_WEIGHT + zForward * Z_WEIGHT,
+    usedZ: true,
+  }
+}
+
+/**
+ * Emits a single alert when the head juts forward relative to the reference
+ * while the shoulders may stay put. Mirrors PostureDeviation's timed trigger + rising-edge
+ * logic.
+ * Requires a reference captured with head landmarks.
+ */
+export class ForwardHeadPosture {
+  private readonly opts: Required<ForwardHeadOptions>
+
+  private scaleAvg: ExponentialSmoother
+  private neckAvg: ExponentialSmoother
+  private zAvg: ExponentialSmoother
+
+  private forwardSinceMs: number | null = null
+  private wasForward = false
+  private loggedThisEpisode = false
+  private warnedMissingReference = false
+
+  constructor(opts: ForwardHeadOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+    this.scaleAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.neckAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.zAvg = new ExponentialSmoother(this.opts.smoothingMs)
+  }
+
+  public reset(): void {
+    this.scaleAvg.reset()
+    this.neckAvg.reset()
+    this.zAvg.reset()
+    this.forwardSinceMs = null
+    this.wasForward = false
+    this.loggedThisEpisode = false
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    this.wasForward = true
+  }
+
+  public update(
+    results: Results,
+    reference: ReferencePose,
+    nowMs: number = performance.now(),
+  ): ForwardHeadAlert | null {
+    if (!reference.head) {
+      if (!this.warnedMissingReference) {
+        this.warnedMissingReference = true
+        console.debug('[ForwardHead] Reference has no head landmarks; recapture to enable')
+      }
+      return null
+    }
+
+    const pose = results.poseLandmarks ?? []
+    const head = pose.length ? extractHeadLandmarks(pose) : null
+    const leftShoulder = pose[LANDMARK_LEFT_SHOULDER]
+    const rightShoulder = pose[LANDMARK_RIGHT_SHOULDER]
+
+    const instant =
+      head && leftShoulder && rightShoulder
+        ? computeForwardHeadMetrics(head, leftShoulder, rightShoulder)
+        : null
+    const ref = computeForwardHeadMetrics(
+      reference.head,
+      reference.leftShoulder,
+      reference.rightShoulder,
+    )
+
+    if (!instant || !ref) {
+      this.reset()
+      return null
+    }
+
+    const live: ForwardHeadMetrics = {
+      headScale: this.scaleAvg.add(instant.headScale, nowMs),
+      neckLength: this.neckAvg.add(instant.neckLength, nowMs),
+      earShoulderZ:
+        instant.earShoulderZ !== null ? this.zAvg.add(instant.earShoulderZ, nowMs) : null,
+    }
+
+    const { displacement, usedZ } = forwardDisplacement(live, ref)
+    const isForward = displacement > this.opts.displacementThreshold
+
+    if (!isForward) {
+      this.forwardSinceMs = null
+      this.wasForward = false
+      this.loggedThisEpisode = false
+      return null
+    }
+
+    if (this.forwardSinceMs === null) this.forwardSinceMs = nowMs
+    if (nowMs - this.forwardSinceMs < this.opts.triggerMs) return null
+
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+    if (this.wasForward) return null
+
+    if (!this.loggedThisEpisode) {
+      this.loggedThisEpisode = true
+      console.debug(
+        `[ForwardHead] Alert triggered: displacement=${displacement.toFixed(3)}, headScale=${live.headScale.toFixed(3)}/${ref.headScale.toFixed(3)}, neck=${live.neckLength.toFixed(3)}/${ref.neckLength.toFixed(3)}, usedZ=${usedZ}`,
+      )
+    }
+
+    return {
+      // Without depth the estimate relies on 2D proportions only.
+      variant: usedZ ? 'normal' : 'low-confidence',
+      reason: 'Head forward',
+      displacement,
+    }
+  }
+}
@@ -0,0 +1,182 @@
+// Frame Scheduler - drives the detection loop in visible and hidden tabs
+// requestAnimationFrame stops while the tab is hidden, so background frames come from a
+// timer in a small worker instead (worker timers escape main-thread throttling) at a lower,
+// configurable rate. A rate meter reports how many detections actually complete.
+
+export type FrameMode = 'foreground' | 'background'
+
+export type FrameSchedulerOptions = {
+  /** Time between background frames (ms) */
+  backgroundIntervalMs?: number
+
+  /** Called on start and whenever the tab switches between visible and hidden */
+  onModeChange?: (mode: FrameMode) => void
+}
+
+export const DEFAULT_BACKGROUND_INTERVAL_MS = 500
+
+/** Posts a tick every `event.data` ms; 0 stops. */
+const TIMER_WORKER_SOURCE = `
+let timer = null
+self.onmessage = (event) => {
+  clearInterval(timer)
+  timer = event.data > 0 ? setInterval(() => self.postMessage('tick'), event.data) : null
+}
+`
+
+/** Detection rate over a sliding window (frames per second). */
+export class RateMeter {
+  private times: number[] = []
+  private readonly windowMs: number
+
+  constructor(windowMs = 5_000) {
+    this.windowMs = windowMs
+  }
+
+  public record(timeMs: number): void {
+    this.times.push(timeMs)
+    this.prune(timeMs)
+  }
+
+  /** Frames per second over the window ending at `nowMs`; 0 when fewer than two frames. */
+  public rate(nowMs: number): number {
+    this.prune(nowMs)
+    if (this.times.length < 2) return 0
+    const spanMs = nowMs - this.times[0]
+    return spanMs > 0 ? ((this.times.length - 1) * 1000) / spanMs : 0
+  }
+
+  public reset(): void {
+    this.times = []
+  }
+
+  private prune(nowMs: number): void {
+    const cutoff = nowMs - this.windowMs
+    let drop = 0
+    while (drop < this.times.length && this.times[drop] < cutoff) drop++
+    if (drop) this.times.splice(0, drop)
+  }
+}
+
+/**
+ * Runs `tick` once per animation frame while the tab is visible and every
+ * `backgroundIntervalMs` while it is hidden. Ticks never overlap: a background tick that
+ * arrives while the previous frame is still processing is dropped.
+ */
+export class FrameScheduler {
+  private tick: (() => Promise<void>) | null = null
+  private mode: FrameMode = 'foreground'
+  private rafId: number | null = null
+  private worker: Worker | null = null
+  private workerUrl: string | null = null
+  private fallbackTimerId: number | null = null
+  private busy = false
+  private backgroundIntervalMs: number
+  private readonly onModeChange: (mode: FrameMode) => void
+
+  constructor(opts: FrameSchedulerOptions = {}) {
+    this.backgroundIntervalMs = opts.backgroundIntervalMs ?? DEFAULT_BACKGROUND_INTERVAL_MS
+    this.onModeChange = opts.onModeChange ?? (() => {})
+  }
+
+  public start(tick: () => Promise<void>): void {
+    if (this.tick) return
+    this.tick = tick
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
+    this.setMode(document.visibilityState === 'hidden' ? 'background' : 'foreground')
+  }
+
+  public stop(): void {
+    if (!this.tick) return
+    this.tick = null
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    this.cancelForeground()
+    this.stopBackgroundTimer()
+    this.worker?.terminate()
+    this.worker = null
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl)
+    this.workerUrl = null
+  }
+
+  public getMode(): FrameMode {
+    return this.mode
+  }
+
+  public setBackgroundIntervalMs(ms: number): void {
+    this.backgroundIntervalMs = ms
+    if (this.tick && this.mode === 'background') this.startBackgroundTimer()
+  }
+
+  private handleVisibilityChange = (): void => {
+    this.setMode(document.visibilityState === 'hidden' ? 'background' : 'foreground')
+  }
+
+  private setMode(mode: FrameMode): void {
+    this.mode = mode
+    if (mode === 'background') {
+      this.cancelForeground()
+      this.startBackgroundTimer()
+    } else {
+      this.stopBackgroundTimer()
+      // A frame still processing schedules the next one itself.
+      if (!this.busy) this.scheduleForeground()
+    }
+    console.info(`[FrameScheduler] ${mode} mode`)
+    this.onModeChange(mode)
+  }
+
+  private runFrame = async (): Promise<void> => {
+    this.rafId = null
+    const tick = this.tick
+    if (!tick || this.busy) return
+
+    this.busy = true
+    try {
+      await tick()
+    } finally {
+      this.busy = false
+    }
+    if (this.tick && this.mode === 'foreground') this.scheduleForeground()
+  }
+
+  private scheduleForeground(): void {
+    if (this.rafId === null) this.rafId = requestAnimationFrame(this.runFrame)
+  }
+
+  private cancelForeground(): void {
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId)
+    this.rafId = null
+  }
+
+  private startBackgroundTimer(): void {
+    this.stopBackgroundTimer()
+    const worker = this.ensureWorker()
+    if (worker) {
+      worker.postMessage(this.backgroundIntervalMs)
+      return
+    }
+    // Without a worker the browser may throttle this to once a second or less.
+    this.fallbackTimerId = window.setInterval(() => void this.runFrame(), this.backgroundIntervalMs)
+  }
+
+  private stopBackgroundTimer(): void {
+    this.worker?.postMessage(0)
+    if (this.fallbackTimerId !== null) clearInterval(this.fallbackTimerId)
+    this.fallbackTimerId = null
+  }
+
+  private ensureWorker(): Worker | null {
+    if (this.worker) return this.worker
+    try {
+      this.workerUrl ??= URL.createObjectURL(
+        new Blob([TIMER_WORKER_SOURCE], { type: 'text/javascript' }),
+      )
+      this.worker = new Worker(this.workerUrl)
+      this.worker.onmessage = () => void this.runFrame()
+    } catch (error) {
+      console.warn('[FrameScheduler] Timer worker unavailable, using setInterval:', error)
+      this.worker = null
+    }
+    return this.worker
+  }
+}
@@ -0,0 +1,33 @@
+// Shared 2D geometry helpers for normalized landmarks
+
+export type Point = { x: number; y: number; z?: number }
+
+export type Rect = { minX: number; minY: number; maxX: number; maxY: number }
+
+export function computeBoundingBox(points: Point[]): Rect | null {
+  if (!points.length) return null
+
+  let minX = 1,
+    minY = 1,
+    maxX = 0,
+    maxY = 0
+
+  for (const p of points) {
+    minX = Math.min(minX, p.x)
+    minY = Math.min(minY, p.y)
+    maxX = Math.max(maxX, p.x)
+    maxY = Math.max(maxY, p.y)
+  }
+
+  return { minX, minY, maxX, maxY }
+}
+
+/** Largest side of a rectangle (used as a scale-invariant face size). */
+export function rectSize(r: Rect): number {
+  return Math.max(r.maxX - r.minX, r.maxY - r.minY)
+}
+
+/** 2D distance between two points (Z ignored). */
+export function distance2d(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
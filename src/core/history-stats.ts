@@ -0,0 +1,147 @@
+// History Stats - dashboard views over stored per-minute history
+// Pure functions: day/week ranges in local time, bucketed score series, totals and
+// hour-of-day heatmaps. Rendering lives in dashboard.ts.
+
+import { type HistoryMinute, MINUTE_MS, mergeMinutes } from './history.ts'
+
+export type DashboardRange = 'day' | 'week'
+
+const HOUR_MS = 60 * MINUTE_MS
+
+/** A local-time window and the chart bucket size used for it */
+export type RangeBounds = {
+  /** Local midnight of each day in the range, plus the end of the last day */
+  dayStarts: number[]
+  startMs: number
+  endMs: number
+  bucketMs: number
+}
+
+/** One chart bucket (bucketMs wide) */
+export type HistoryBucket = {
+  start: number
+  meanScore: number | null
+  minScore: number | null
+  badPostureMs: number
+  monitoredMs: number
+}
+
+export type HistorySummary = {
+  monitoredMs: number
+  presentMs: number
+  badPostureMs: number
+  meanScore: number | null
+  minScore: number | null
+  /** Alerts by type, summed over the range */
+  alerts: Record<string, number>
+}
+
+/** Rows are days, columns hours 0-23; cells hold the bad-posture share (null = not present) */
+export type HourHeatmap = Array<Array<number | null>>
+
+function localMidnight(timeMs: number, dayOffset = 0): number {
+  const d = new Date(timeMs)
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + dayOffset).getTime()
+}
+
+/**
+ * The day containing `anchorMs` (15-minute buckets), or the Monday-based week containing it
+ * (hourly buckets). Day boundaries follow the local calendar, so DST days are 23 or 25 hours.
+ */
+export function rangeBounds(range: DashboardRange, anchorMs: number): RangeBounds {
+  let first = localMidnight(anchorMs)
+  let days = 1
+  if (range === 'week') {
+    const weekday = (new Date(anchorMs).getDay() + 6) % 7
+    first = localMidnight(anchorMs, -weekday)
+    days = 7
+  }
+
+  const dayStarts = Array.from({ length: days + 1 }, (_, i) => localMidnight(first, i))
+  return {
+    dayStarts,
+    startMs: dayStarts[0],
+    endMs: dayStarts[days],
+    bucketMs: range === 'day' ? 15 * MINUTE_MS : HOUR_MS,
+  }
+}
+
+/** Moves the anchor one range back (-1) or forward (+1). */
+export function shiftAnchor(range: DashboardRange, anchorMs: number, direction: -1 | 1): number {
+  const days = range === 'day' ? 1 : 7
+  return localMidnight(anchorMs, direction * days)
+}
+
+/** Sums all minutes into one record (alerts merged by type). */
+export function summarizeHistory(minutes: HistoryMinute[]): HistorySummary {
+  if (!minutes.length) {
+    return {
+      monitoredMs: 0,
+      presentMs: 0,
+      badPostureMs: 0,
+      meanScore: null,
+      minScore: null,
+      alerts: {},
+    }
+  }
+
+  const total = minutes.reduce((acc, m) => mergeMinutes(acc, m))
+  return {
+    monitoredMs: total.monitoredMs,
+    presentMs: total.presentMs,
+    badPostureMs: total.badPostureMs,
+    meanScore: total.scoredFrames > 0 ? total.scoreSum / total.scoredFrames : null,
+    minScore: total.minScore,
+    alerts: total.alerts,
+  }
+}
+
+/** Splits [startMs, endMs) into buckets; empty buckets have null scores. */
+export function bucketHistory(
+  minutes: HistoryMinute[],
+  startMs: number,
+  endMs: number,
+  bucketMs: number,
+): HistoryBucket[] {
+  const count = Math.ceil((endMs - startMs) / bucketMs)
+  const groups: HistoryMinute[][] = Array.from({ length: count }, () => [])
+  for (const m of minutes) {
+    const index = Math.floor((m.minute - startMs) / bucketMs)
+    if (index >= 0 && index < count) groups[index].push(m)
+  }
+
+  return groups.map((group, i) => {
+    const summary = summarizeHistory(group)
+    return {
+      start: startMs + i * bucketMs,
+      meanScore: summary.meanScore,
+      minScore: summary.minScore,
+      badPostureMs: summary.badPostureMs,
+      monitoredMs: summary.monitoredMs,
+    }
+  })
+}
+
+/**
+ * Share of present time spent in bad posture, per day (rows, from `dayStarts`) and local
+ * hour of day (columns).
+ */
+export function hourHeatmap(minutes: HistoryMinute[], dayStarts: number[]): HourHeatmap {
+  const days = dayStarts.length - 1
+  const present = Array.from({ length: days }, () => new Array<number>(24).fill(0))
+  const bad = Array.from({ length: days }, () => new Array<number>(24).fill(0))
+
+  for (const m of minutes) {
+    const day = dayStarts.findIndex(
+      (start, i) => i < days && m.minute < dayStarts[i + 1] && m.minute >= start,
+    )
+    if (day < 0) continue
+    const hour = new Date(m.minute).getHours()
+    present[day][hour] += m.presentMs
+    bad[day][hour] += m.badPostureMs
+  }
+
+  return present.map((row, day) =>
+    row.map((presentMs, hour) => (presentMs > 0 ? Math.min(1, bad[day][hour] / presentMs) : null)),
+  )
+}
@@ -0,0 +1,279 @@
+// Posture History - per-minute aggregates of live monitoring
+// Folds detection frames into one record per wall-clock minute (posture score, time in bad
+// posture, presence, alerts by type) and persists them to the `history` object store.
+
+import { HISTORY_STORE_NAME, openDb } from './reference-store.ts'
+
+export const MINUTE_MS = 60_000
+
+/** Records older than this are pruned */
+export const HISTORY_RETENTION_DAYS = 90
+
+/** Hard cap on stored minutes (~1000 monitored hours), whatever their age */
+export const HISTORY_MAX_MINUTES = 60_000
+
+/** Frames further apart than this (loop stopped, tab throttled) add no time */
+const MAX_FRAME_GAP_MS = 2_000
+
+/** One minute of monitoring, keyed by its start time */
+export type HistoryMinute = {
+  /** Start of the minute (epoch ms); also the record key */
+  minute: number
+  /** Frames that carried a posture score */
+  scoredFrames: number
+  /** Sum of those scores (mean = scoreSum / scoredFrames) */
+  scoreSum: number
+  /** Lowest posture score; null when nothing was scored */
+  minScore: number | null
+  /** Time (ms) the posture ratio was past the deviation threshold */
+  badPostureMs: number
+  /** Time (ms) a person was in frame */
+  presentMs: number
+  /** Time (ms) monitoring was running */
+  monitoredMs: number
+  /** Alerts shown, by detector id ('camera-shift' for the camera check) */
+  alerts: Record<string, number>
+}
+
+/** What the detection loop reports for one frame */
+export type HistoryFrame = {
+  /** Wall-clock time (epoch ms) */
+  timeMs: number
+  /** Posture score (0-100); null without a reference or pose */
+  score: number | null
+  badPosture: boolean
+  present: boolean
+}
+
+export function minuteStart(timeMs: number): number {
+  return Math.floor(timeMs / MINUTE_MS) * MINUTE_MS
+}
+
+/** Mean posture score of a minute, or null when nothing was scored. */
+export function meanScore(minute: HistoryMinute): number | null {
+  return minute.scoredFrames > 0 ? minute.scoreSum / minute.scoredFrames : null
+}
+
+function emptyMinute(minute: number): HistoryMinute {
+  return {
+    minute,
+    scoredFrames: 0,
+    scoreSum: 0,
+    minScore: null,
+    badPostureMs: 0,
+    presentMs: 0,
+    monitoredMs: 0,
+    alerts: {},
+  }
+}
+
+function minOf(a: number | null, b: number | null): number | null {
+  if (a === null) return b
+  if (b === null) return a
+  return Math.min(a, b)
+}
+
+/** Combines two partial records of the same minute (e.g. monitoring stopped and restarted). */
+export function mergeMinutes(a: HistoryMinute, b: HistoryMinute): HistoryMinute {
+  const alerts = { ...a.alerts }
+  for (const [type, count] of Object.entries(b.alerts)) alerts[type] = (alerts[type] ?? 0) + count
+
+  return {
+    minute: a.minute,
+    scoredFrames: a.scoredFrames + b.scoredFrames,
+    scoreSum: a.scoreSum + b.scoreSum,
+    minScore: minOf(a.minScore, b.minScore),
+    badPostureMs: a.badPostureMs + b.badPostureMs,
+    presentMs: a.presentMs + b.presentMs,
+    monitoredMs: a.monitoredMs + b.monitoredMs,
+    alerts,
+  }
+}
+
+/**
+ * Accumulates frames into the current minute. Each frame accounts for the time since the
+ * previous one; minutes that have ended are queued for `takeCompleted`.
+ */
+export class HistoryAggregator {
+  private current: HistoryMinute | null = null
+  private completed: HistoryMinute[] = []
+  private lastFrameMs: number | null = null
+
+  public addFrame(frame: HistoryFrame): void {
+    const elapsed = this.lastFrameMs === null ? 0 : frame.timeMs - this.lastFrameMs
+    this.lastFrameMs = frame.timeMs
+    const dt = elapsed > 0 && elapsed <= MAX_FRAME_GAP_MS ? elapsed : 0
+
+    const m = this.minuteFor(frame.timeMs)
+    m.monitoredMs += dt
+    if (frame.present) m.presentMs += dt
+    if (frame.badPosture) m.badPostureMs += dt
+    if (frame.score !== null) {
+      m.scoredFrames++
+      m.scoreSum += frame.score
+      m.minScore = minOf(m.minScore, frame.score)
+    }
+  }
+
+  public addAlert(type: string, timeMs: number): void {
+    const m = this.minuteFor(timeMs)
+    m.alerts[type] = (m.alerts[type] ?? 0) + 1
+  }
+
+  public hasCompleted(): boolean {
+    return this.completed.length > 0
+  }
+
+  /** Minutes that ended since the last call. */
+  public takeCompleted(): HistoryMinute[] {
+    const done = this.completed
+    this.completed = []
+    return done
+  }
+
+  /**
+   * Completed minutes plus the partial current one (on stop/unload). Later frames in the
+   * same minute start a new partial record, which `saveHistoryMinutes` merges.
+   */
+  public flush(): HistoryMinute[] {
+    const done = this.takeCompleted()
+    if (this.current) done.push(this.current)
+    this.current = null
+    return done
+  }
+
+  /** Forgets the frame timing so the next frame adds no time (after stopping). */
+  public pause(): void {
+    this.lastFrameMs = null
+  }
+
+  private minuteFor(timeMs: number): HistoryMinute {
+    const start = minuteStart(timeMs)
+    if (this.current && this.current.minute !== start) {
+      this.completed.push(this.current)
+      this.current = null
+    }
+    this.current ??= emptyMinute(start)
+    return this.current
+  }
+}
+
+/**
+ * Writes minutes to IndexedDB, merging into records already stored for the same minute.
+ */
+export async function saveHistoryMinutes(minutes: HistoryMinute[]): Promise<void> {
+  if (!minutes.length) return
+
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE_NAME, 'readwrite')
+    const store = tx.objectStore(HISTORY_STORE_NAME)
+
+    for (const minute of minutes) {
+      const request = store.get(minute.minute)
+      request.onsuccess = () => {
+        const stored = request.result as HistoryMinute | undefined
+        store.put(stored ? mergeMinutes(stored, minute) : minute, minute.minute)
+      }
+    }
+
+    tx.oncomplete = () => {
+      console.debug(`[History] Saved ${minutes.length} minute(s)`)
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Loads stored minutes in [fromMs, toMs], oldest first.
+ */
+export async function loadHistory(
+  fromMs: number,
+  toMs: number = Date.now(),
+): Promise<HistoryMinute[]> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE_NAME, 'readonly')
+    const request = tx.objectStore(HISTORY_STORE_NAME).getAll(IDBKeyRange.bound(fromMs, toMs))
+
+    request.onsuccess = () => resolve(request.result as HistoryMinute[])
+    request.onerror = () => reject(request.error)
+    tx.oncomplete = () => db.close()
+  })
+}
+
+/** Loads every stored minute, oldest first (data export). */
+export function loadAllHistory(): Promise<HistoryMinute[]> {
+  return loadHistory(0, Number.MAX_SAFE_INTEGER)
+}
+
+/**
+ * Replaces all stored minutes (data import).
+ */
+export async function replaceHistory(minutes: HistoryMinute[]): Promise<void> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE_NAME, 'readwrite')
+    const store = tx.objectStore(HISTORY_STORE_NAME)
+
+    store.clear()
+    for (const minute of minutes) store.put(minute, minute.minute)
+
+    tx.oncomplete = () => {
+      console.info(`[History] Replaced history (${minutes.length} minute(s))`)
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Applies the retention limits: drops minutes older than `retentionDays`, then the oldest
+ * ones beyond `maxMinutes`. Resolves to the number of deleted records.
+ */
+export async function pruneHistory(
+  nowMs: number = Date.now(),
+  retentionDays: number = HISTORY_RETENTION_DAYS,
+  maxMinutes: number = HISTORY_MAX_MINUTES,
+): Promise<number> {
+  const cutoff = nowMs - retentionDays * 24 * 60 * MINUTE_MS
+
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HISTORY_STORE_NAME, 'readwrite')
+    const store = tx.objectStore(HISTORY_STORE_NAME)
+    let deleted = 0
+
+    const expired = store.count(IDBKeyRange.upperBound(cutoff, true))
+    expired.onsuccess = () => {
+      deleted = expired.result
+      store.delete(IDBKeyRange.upperBound(cutoff, true))
+
+      const remaining = store.count()
+      remaining.onsuccess = () => {
+        let excess = remaining.result - maxMinutes
+        if (excess <= 0) return
+
+        const cursor = store.openCursor()
+        cursor.onsuccess = () => {
+          const c = cursor.result
+          if (!c || excess <= 0) return
+          c.delete()
+          deleted++
+          excess--
+          c.continue()
+        }
+      }
+    }
+
+    tx.oncomplete = () => {
+      if (deleted) console.info(`[History] Pruned ${deleted} minute(s)`)
+      db.close()
+      resolve(deleted)
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
@@ -1,10 +1,95 @@
-// MediaPipe Holistic landmark indices used for shoulder triangle detection
+// MediaPipe Holistic landmark indices used for shoulder triangle, head posture and face detection
 
 /** Nose landmark (tip of nose) */
 export const LANDMARK_NOSE = 0
 
+/** Left eye (center) landmark */
+export const LANDMARK_LEFT_EYE = 2
+
+/** Right eye (center) landmark */
+export const LANDMARK_RIGHT_EYE = 5
+
+/** Left ear landmark */
+export const LANDMARK_LEFT_EAR = 7
+
+/** Right ear landmark */
+export const LANDMARK_RIGHT_EAR = 8
+
 /** Left shoulder landmark */
 export const LANDMARK_LEFT_SHOULDER = 11
 
 /** Right shoulder landmark */
 export const LANDMARK_RIGHT_SHOULDER = 12
+
+/** All 33 pose landmark names, indexed like `results.poseLandmarks` (used by custom rules). */
+export const POSE_LANDMARK_NAMES = [
+  'nose',
+  'left_eye_inner',
+  'left_eye',
+  'left_eye_outer',
+  'right_eye_inner',
+  'right_eye',
+  'right_eye_outer',
+  'left_ear',
+  'right_ear',
+  'mouth_left',
+  'mouth_right',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_pinky',
+  'right_pinky',
+  'left_index',
+  'right_index',
+  'left_thumb',
+  'right_thumb',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+  'left_heel',
+  'right_heel',
+  'left_foot_index',
+  'right_foot_index',
+] as const
+
+export type PoseLandmarkName = (typeof POSE_LANDMARK_NAMES)[number]
+
+// Face mesh (468-point) indices
+
+/** Outer corner of the user's right eye (face mesh) */
+export const FACE_LANDMARK_RIGHT_EYE_OUTER = 33
+
+/** Outer corner of the user's left eye (face mesh) */
+export const FACE_LANDMARK_LEFT_EYE_OUTER = 263
+
+/**
+ * Eye-aspect-ratio points for the user's right eye (face mesh):
+ * outer corner, upper lid ×2, inner corner, lower lid ×2.
+ */
+export const FACE_RIGHT_EYE_EAR_POINTS = [33, 160, 158, 133, 153, 144] as const
+
+/** Eye-aspect-ratio points for the user's left eye (same order as the right eye). */
+export const FACE_LEFT_EYE_EAR_POINTS = [263, 387, 385, 362, 380, 373] as const
+
+// Face-mesh anchor points per face zone (used to classify hand-to-face contact)
+
+/** Lip outline points (corners, upper/lower lip center) */
+export const FACE_MOUTH_POINTS = [0, 13, 14, 17, 61, 291] as const
+
+/** Nose tip, bridge and nostril points */
+export const FACE_NOSE_POINTS = [1, 4, 5, 195, 98, 327] as const
+
+/** Eye corner and lid points for both eyes */
+export const FACE_EYES_POINTS = [33, 133, 159, 145, 263, 362, 386, 374] as const
+
+/** Chin and jaw-center points */
+export const FACE_CHIN_POINTS = [152, 148, 377, 175, 199] as const
+
+/** Forehead/hairline points (hands above these count as "hair") */
+export const FACE_HAIR_POINTS = [10, 67, 109, 151, 297, 338] as const
@@ -0,0 +1,194 @@
+// Lateral lean / shoulder tilt detection
+// Compares the shoulder-line angle and the nose's sideways offset vs the captured reference.
+
+import type { Results } from '@mediapipe/holistic'
+
+import { LANDMARK_LEFT_SHOULDER, LANDMARK_NOSE, LANDMARK_RIGHT_SHOULDER } from './landmarks.ts'
+import type { Landmark, ReferencePose } from './reference-store.ts'
+import { ExponentialSmoother } from './smoothing.ts'
+
+/** Direction in the user's own frame (their left, not the image's left). */
+export type LeanDirection = 'left' | 'right'
+
+export type LeanAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  direction: LeanDirection
+  /** Smoothed shoulder-line angle change vs reference, in degrees (positive = toward user's left). */
+  tiltDeltaDeg: number
+  /** Smoothed nose offset change vs reference, in shoulder widths (positive = toward user's left). */
+  offsetDelta: number
+}
+
+export type LateralLeanOptions = {
+  /** Smoothing time constant (ms); independent of frame rate. */
+  smoothingMs?: number
+
+  /** How long the lean must last (ms) before triggering. */
+  triggerMs?: number
+
+  /** Shoulder-line angle change (degrees) that counts as leaning. */
+  tiltThresholdDeg?: number
+
+  /** Nose sideways offset change (fraction of shoulder width) that counts as leaning. */
+  offsetThreshold?: number
+
+  /**
+   * Hysteresis: once leaning, the lean only ends when the signal drops below
+   * this fraction of the thresholds.
+   */
+  releaseFraction?: number
+}
+
+const DEFAULTS: Required<LateralLeanOptions> = {
+  smoothingMs: 500,
+  triggerMs: 3_000,
+  tiltThresholdDeg: 8,
+  offsetThreshold: 0.15,
+  releaseFraction: 0.6,
+}
+
+type LeanMetrics = {
+  /** Shoulder-line angle in degrees; positive when the user's left shoulder is lower. */
+  tiltDeg: number
+  /** Nose offset from the shoulder midpoint along the shoulder line, in shoulder widths. */
+  offset: number
+}
+
+/**
+ * Computes shoulder tilt and nose offset. MediaPipe's "left" is the user's left, so the
+ * right→left shoulder vector defines the user's leftward axis regardless of mirroring.
+ */
+function computeLeanMetrics(
+  nose: Landmark,
+  leftShoulder: Landmark,
+  rightShoulder: Landmark,
+): LeanMetrics | null {
+  const dx = leftShoulder.x - rightShoulder.x
+  const dy = leftShoulder.y - rightShoulder.y
+  const width = Math.hypot(dx, dy)
+  if (width === 0) return null
+
+  const midX = (leftShoulder.x + rightShoulder.x) / 2
+  const midY = (leftShoulder.y + rightShoulder.y) / 2
+
+  // Angle of the shoulder line relative to the user's leftward axis.
+  // Image Y grows downward, so a lower left shoulder yields a positive angle.
+  const tiltDeg = (Math.atan2(dy, Math.abs(dx)) * 180) / Math.PI
+
+  // Project nose offset onto the unit shoulder axis (right → left).
+  const offset = ((nose.x - midX) * dx + (nose.y - midY) * dy) / (width * width)
+
+  return { tiltDeg, offset }
+}
+
+/**
+ * Emits a single alert when the user leans sideways (e.g. propped on one elbow).
+ * Timed trigger + rising-edge like PostureDeviation, plus hysteresis so a lean hovering
+ * around the threshold does not re-arm the alert.
+ */
+export class LateralLean {
+  private readonly opts: Required<LateralLeanOptions>
+
+  private tiltAvg: ExponentialSmoother
+  private offsetAvg: ExponentialSmoother
+
+  private leanSinceMs: number | null = null
+  private isLeaning = false
+  private wasLeaning = false
+  private loggedThisEpisode = false
+
+  constructor(opts: LateralLeanOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+    this.tiltAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.offsetAvg = new ExponentialSmoother(this.opts.smoothingMs)
+  }
+
+  public reset(): void {
+    this.tiltAvg.reset()
+    this.offsetAvg.reset()
+    this.leanSinceMs = null
+    this.isLeaning = false
+    this.wasLeaning = false
+    this.loggedThisEpisode = false
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    this.wasLeaning = true
+  }
+
+  public update(
+    results: Results,
+    reference: ReferencePose,
+    nowMs: number = performance.now(),
+  ): LeanAlert | null {
+    const pose = results.poseLandmarks ?? []
+    const nose = pose[LANDMARK_NOSE]
+    const leftShoulder = pose[LANDMARK_LEFT_SHOULDER]
+    const rightShoulder = pose[LANDMARK_RIGHT_SHOULDER]
+
+    const instant =
+      nose && leftShoulder && rightShoulder
+        ? computeLeanMetrics(nose, leftShoulder, rightShoulder)
+        : null
+    const ref = computeLeanMetrics(reference.nose, reference.leftShoulder, reference.rightShoulder)
+
+    if (!instant || !ref) {
+      this.reset()
+      return null
+    }
+
+    const tiltDeltaDeg = this.tiltAvg.add(instant.tiltDeg, nowMs) - ref.tiltDeg
+    const offsetDelta = this.offsetAvg.add(instant.offset, nowMs) - ref.offset
+
+    // Strength of each signal relative to its threshold; the stronger one decides.
+    const tiltStrength = tiltDeltaDeg / this.opts.tiltThresholdDeg
+    const offsetStrength = offsetDelta / this.opts.offsetThreshold
+    const dominant =
+      Math.abs(tiltStrength) >= Math.abs(offsetStrength) ? tiltStrength : offsetStrength
+    const strength = Math.abs(dominant)
+
+    if (this.isLeaning) {
+      if (strength < this.opts.releaseFraction) this.isLeaning = false
+    } else if (strength >= 1) {
+      this.isLeaning = true
+    }
+
+    if (!this.isLeaning) {
+      this.leanSinceMs = null
+      this.wasLeaning = false
+      this.loggedThisEpisode = false
+      return null
+    }
+
+    if (this.leanSinceMs === null) this.leanSinceMs = nowMs
+    if (nowMs - this.leanSinceMs < this.opts.triggerMs) return null
+
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+    if (this.wasLeaning) return null
+
+    const direction: LeanDirection = dominant > 0 ? 'left' : 'right'
+
+    // Head tilt alone moves the nose without tilting the shoulders; only a lean that shows in
+    // both signals (same direction, past the release level) counts as high confidence.
+    const agrees =
+      Math.sign(tiltStrength) === Math.sign(offsetStrength) &&
+      Math.min(Math.abs(tiltStrength), Math.abs(offsetStrength)) >= this.opts.releaseFraction
+
+    if (!this.loggedThisEpisode) {
+      this.loggedThisEpisode = true
+      console.debug(
+        `[LateralLean] Alert triggered: direction=${direction}, tiltDelta=${tiltDeltaDeg.toFixed(2)}deg, offsetDelta=${offsetDelta.toFixed(3)}, agrees=${agrees}`,
+      )
+    }
+
+    return {
+      variant: agrees ? 'normal' : 'low-confidence',
+      reason: direction === 'left' ? 'Leaning left' : 'Leaning right',
+      direction,
+      tiltDeltaDeg,
+      offsetDelta,
+    }
+  }
+}
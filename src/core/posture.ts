@@ -4,7 +4,13 @@
 import type { Results } from '@mediapipe/holistic'
 
 import { LANDMARK_LEFT_SHOULDER, LANDMARK_NOSE, LANDMARK_RIGHT_SHOULDER } from './landmarks.ts'
-import { calculateTriangleRatio, type Landmark, type ReferencePose } from './reference-store.ts'
+import {
+  calculateTriangleRatio,
+  type Landmark,
+  type PostureCalibration,
+  type ReferencePose,
+} from './reference-store.ts'
+import { ExponentialSmoother } from './smoothing.ts'
 
 export type PostureAlert = {
   variant: 'normal' | 'low-confidence'
@@ -26,11 +32,11 @@ export type PostureScore = {
 }
 
 export type PostureDeviationOptions = {
-  /** Moving average window (in processed frames). */
-  windowSize?: number
+  /** Smoothing time constant (ms); independent of frame rate. */
+  smoothingMs?: number
 
-  /** How many consecutive "bad" frames are required to trigger. */
-  framesToTrigger?: number
+  /** How long posture must stay bad (ms) before triggering. */
+  triggerMs?: number
 
   /** Ratio drop fraction required to consider posture deviated (e.g. 0.08 = 8%). */
   ratioDropThreshold?: number
@@ -46,14 +52,20 @@ export type PostureDeviationOptions = {
 }
 
 const DEFAULTS: Required<PostureDeviationOptions> = {
-  windowSize: 10,
-  framesToTrigger: 4,
+  smoothingMs: 500,
+  triggerMs: 3_000,
   ratioDropThreshold: 0.07,
   headTiltLowConfidenceThreshold: 0.8,
   zWeight: 0.3,
   zDeviationThreshold: 0.05,
 }
 
+/** Where between the good (0) and slouched (1) pose a calibrated reference triggers. */
+const CALIBRATION_TRIGGER_FRACTION = 0.5
+
+/** Minimum good→slouch ratio drop for a calibration to be trusted over the defaults. */
+const MIN_CALIBRATION_RATIO_DROP = 0.02
+
 type Triangle = { nose: Landmark; leftShoulder: Landmark; rightShoulder: Landmark }
 
 function extractTriangle(
@@ -77,33 +89,6 @@ function noseToShoulderMidpointDeltaY(nose: Landmark, left: Landmark, right: Lan
   return midpointY - nose.y
 }
 
-class MovingAverage {
-  private readonly windowSize: number
-  private values: number[] = []
-  private sum = 0
-
-  constructor(windowSize: number) {
-    this.windowSize = windowSize
-  }
-
-  public reset(): void {
-    this.values = []
-    this.sum = 0
-  }
-
-  public add(value: number): number {
-    this.values.push(value)
-    this.sum += value
-
-    if (this.values.length > this.windowSize) {
-      const removed = this.values.shift()
-      if (removed !== undefined) this.sum -= removed
-    }
-
-    return this.sum / this.values.length
-  }
-}
-
 /**
  * Calculate average Z depth for shoulder triangle landmarks.
  * Z values from MediaPipe are relative to hip midpoint (negative = closer to camera).
@@ -155,34 +140,68 @@ function calculatePostureScore(
 }
 
 /**
- * Emits a single alert when posture deviation becomes true.
+ * Derives personal thresholds from a good reference and a deliberate slouch.
+ * Returns null when the slouch is not meaningfully different from the reference.
+ */
+export function derivePostureCalibration(
+  reference: Triangle & { ratio: number },
+  slouch: Triangle & { ratio: number },
+): PostureCalibration | null {
+  if (reference.ratio <= 0) return null
+
+  const slouchDrop = (reference.ratio - slouch.ratio) / reference.ratio
+  if (slouchDrop < MIN_CALIBRATION_RATIO_DROP) return null
+
+  const calibration: PostureCalibration = {
+    slouchRatio: slouch.ratio,
+    ratioDropThreshold: slouchDrop * CALIBRATION_TRIGGER_FRACTION,
+  }
+
+  // Same relative Z deviation that calculatePostureScore measures; only kept if the slouch
+  // actually moved toward the camera, otherwise the default Z threshold applies.
+  const refZ = calculateAverageZ(reference)
+  const slouchZ = calculateAverageZ(slouch)
+  if (refZ !== null && slouchZ !== null && refZ !== 0) {
+    const slouchZDeviation = (refZ - slouchZ) / Math.abs(refZ)
+    if (slouchZDeviation > 0) calibration.zDeviationThreshold = slouchZDeviation
+  }
+
+  return calibration
+}
+
+/**
+ * Emits a single alert once posture has deviated for `triggerMs`.
+ * Timing and smoothing use timestamps, so presets mean the same at any frame rate.
  * Uses AlertEngine for cooldown; this avoids per-frame spam via rising-edge detection.
  * Now includes Z-coordinate reinforcement and overall posture scoring.
+ * Calibrated references override the ratio/Z thresholds from the sensitivity options.
  */
 export class PostureDeviation {
   private readonly opts: Required<PostureDeviationOptions>
 
-  private ratioAvg: MovingAverage
-  private headDeltaAvg: MovingAverage
-  private zAvg: MovingAverage
+  private ratioAvg: ExponentialSmoother
+  private headDeltaAvg: ExponentialSmoother
+  private zAvg: ExponentialSmoother
 
-  private badStreak = 0
+  private badSinceMs: number | null = null
   private wasBad = false
+  private loggedThisEpisode = false
   private lastScore: PostureScore | null = null
 
   constructor(opts: PostureDeviationOptions = {}) {
     this.opts = { ...DEFAULTS, ...opts }
-    this.ratioAvg = new MovingAverage(this.opts.windowSize)
-    this.headDeltaAvg = new MovingAverage(this.opts.windowSize)
-    this.zAvg = new MovingAverage(this.opts.windowSize)
+    this.ratioAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.headDeltaAvg = new ExponentialSmoother(this.opts.smoothingMs)
+    this.zAvg = new ExponentialSmoother(this.opts.smoothingMs)
   }
 
   public reset(): void {
     this.ratioAvg.reset()
     this.headDeltaAvg.reset()
     this.zAvg.reset()
-    this.badStreak = 0
+    this.badSinceMs = null
     this.wasBad = false
+    this.loggedThisEpisode = false
     this.lastScore = null
   }
 
@@ -196,7 +215,16 @@ export class PostureDeviation {
     return this.lastScore
   }
 
-  public update(results: Results, reference: ReferencePose): PostureAlert | null {
+  /** Whether the last update was past the deviation threshold (before the trigger delay). */
+  public isDeviated(): boolean {
+    return this.badSinceMs !== null
+  }
+
+  public update(
+    results: Results,
+    reference: ReferencePose,
+    nowMs: number = performance.now(),
+  ): PostureAlert | null {
     const pose = results.poseLandmarks ?? []
     if (!pose.length) {
       this.reset()
@@ -210,21 +238,23 @@ export class PostureDeviation {
     }
 
     const liveRatioInstant = calculateTriangleRatio(tri.nose, tri.leftShoulder, tri.rightShoulder)
-    const liveRatio = this.ratioAvg.add(liveRatioInstant)
+    const liveRatio = this.ratioAvg.add(liveRatioInstant, nowMs)
 
     const liveHeadDeltaInstant = noseToShoulderMidpointDeltaY(
       tri.nose,
       tri.leftShoulder,
       tri.rightShoulder,
     )
-    const liveHeadDelta = this.headDeltaAvg.add(liveHeadDeltaInstant)
+    const liveHeadDelta = this.headDeltaAvg.add(liveHeadDeltaInstant, nowMs)
 
     // Calculate Z-coordinate average as secondary reinforcement signal
     const liveZInstant = calculateAverageZ(tri)
-    const liveZ = liveZInstant !== null ? this.zAvg.add(liveZInstant) : null
+    const liveZ = liveZInstant !== null ? this.zAvg.add(liveZInstant, nowMs) : null
 
     const refRatio = reference.ratio
-    const ratioThreshold = refRatio * (1 - this.opts.ratioDropThreshold)
+    const ratioDropThreshold =
+      reference.calibration?.ratioDropThreshold ?? this.opts.ratioDropThreshold
+    const ratioThreshold = refRatio * (1 - ratioDropThreshold)
 
     const isBad = liveRatio > 0 && liveRatio < ratioThreshold
 
@@ -249,31 +279,30 @@ export class PostureDeviation {
     )
 
     // Calculate overall posture score
-    const score = calculatePostureScore(
-      liveRatio,
-      refRatio,
-      liveZ,
-      refZ,
-      headTiltConfidence,
-      this.opts,
-    )
+    const score = calculatePostureScore(liveRatio, refRatio, liveZ, refZ, headTiltConfidence, {
+      ...this.opts,
+      zDeviationThreshold:
+        reference.calibration?.zDeviationThreshold ?? this.opts.zDeviationThreshold,
+    })
     this.lastScore = score
 
     if (!isBad) {
-      this.badStreak = 0
+      this.badSinceMs = null
       this.wasBad = false
+      this.loggedThisEpisode = false
       return null
     }
 
-    this.badStreak++
-    if (this.badStreak < this.opts.framesToTrigger) return null
+    if (this.badSinceMs === null) this.badSinceMs = nowMs
+    if (nowMs - this.badSinceMs < this.opts.triggerMs) return null
 
-    // Emit until acknowledged (AlertEngine handles global cooldown).
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
     if (this.wasBad) return null
 
     const isLowConfidence = headDeltaRatio < this.opts.headTiltLowConfidenceThreshold
 
-    if (this.badStreak === this.opts.framesToTrigger) {
+    if (!this.loggedThisEpisode) {
+      this.loggedThisEpisode = true
       console.debug(
         `[PostureDeviation] Alert triggered: ratio=${liveRatio.toFixed(4)}, ref=${refRatio.toFixed(4)}, score=${score.overall}, zComponent=${score.zComponent}`,
       )
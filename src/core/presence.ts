@@ -0,0 +1,110 @@
+// Presence tracking + sedentary break reminders
+// Counts continuous seated time from pose presence; a long enough absence counts as a break.
+
+import type { Results } from '@mediapipe/holistic'
+
+export type BreakReminder = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  /** Continuous seated time when the reminder was raised, in ms. */
+  seatedMs: number
+}
+
+export type PresenceTrackerOptions = {
+  /** Continuous time out of frame that counts as a break (resets seated time). */
+  breakAfterAbsentMs?: number
+
+  /** Seated time before the first break reminder. */
+  sitLimitMs?: number
+
+  /** Interval between repeat reminders while the user keeps sitting. */
+  reminderIntervalMs?: number
+}
+
+const DEFAULTS: Required<PresenceTrackerOptions> = {
+  breakAfterAbsentMs: 2 * 60_000,
+  sitLimitMs: 50 * 60_000,
+  reminderIntervalMs: 10 * 60_000,
+}
+
+/**
+ * Tracks how long the user has been continuously in front of the camera.
+ * Short absences (under `breakAfterAbsentMs`) do not interrupt the sitting session.
+ * Emits a reminder once `sitLimitMs` is reached, then every `reminderIntervalMs`
+ * until a break is detected. Uses the emit-until-acknowledged pattern.
+ */
+export class PresenceTracker {
+  private opts: Required<PresenceTrackerOptions>
+
+  private sessionStartMs: number | null = null
+  private lastSeenMs: number | null = null
+  /** Seated time when the last reminder was shown, or null if none this session */
+  private remindedAtSeatedMs: number | null = null
+
+  constructor(opts: PresenceTrackerOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+  }
+
+  public reset(): void {
+    this.sessionStartMs = null
+    this.lastSeenMs = null
+    this.remindedAtSeatedMs = null
+  }
+
+  /**
+   * Updates thresholds without losing the current sitting session. An acknowledged
+   * reminder stays acknowledged; the next one follows the new limit and interval.
+   */
+  public setOptions(opts: PresenceTrackerOptions): void {
+    this.opts = { ...this.opts, ...opts }
+  }
+
+  public getOptions(): Required<PresenceTrackerOptions> {
+    return { ...this.opts }
+  }
+
+  /** Marks that an emitted reminder was actually shown; schedules the next one. */
+  public acknowledge(): void {
+    if (this.sessionStartMs === null || this.lastSeenMs === null) return
+    this.remindedAtSeatedMs = this.lastSeenMs - this.sessionStartMs
+  }
+
+  /** Continuous seated time (up to when the user was last seen), or null between sessions. */
+  public getSeatedMs(): number | null {
+    if (this.sessionStartMs === null || this.lastSeenMs === null) return null
+    return this.lastSeenMs - this.sessionStartMs
+  }
+
+  public update(results: Results, nowMs: number = performance.now()): BreakReminder | null {
+    const present = (results.poseLandmarks?.length ?? 0) > 0
+
+    if (!present) {
+      if (this.lastSeenMs !== null && nowMs - this.lastSeenMs >= this.opts.breakAfterAbsentMs) {
+        const seatedMs = this.getSeatedMs()
+        console.info(
+          `[Presence] Break detected after ${Math.round((seatedMs ?? 0) / 60_000)} min seated`,
+        )
+        this.reset()
+      }
+      return null
+    }
+
+    if (this.sessionStartMs === null) this.sessionStartMs = nowMs
+    this.lastSeenMs = nowMs
+
+    const seatedMs = nowMs - this.sessionStartMs
+    if (seatedMs < this.nextReminderAtSeatedMs()) return null
+
+    return {
+      variant: 'normal',
+      reason: 'Time for a break',
+      seatedMs,
+    }
+  }
+
+  private nextReminderAtSeatedMs(): number {
+    const { sitLimitMs, reminderIntervalMs } = this.opts
+    if (this.remindedAtSeatedMs === null) return sitLimitMs
+    return Math.max(sitLimitMs, this.remindedAtSeatedMs + reminderIntervalMs)
+  }
+}
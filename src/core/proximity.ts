@@ -1,22 +1,35 @@
 // Hand/face proximity detection
-// Computes distances between hand landmarks and the face region and reports when hands are near the face.
+// Computes distances between hand landmarks and the face region and reports when hands are near the face,
+// classified by face zone (mouth, nose, eyes, chin, hair).
 
 import type { Results } from '@mediapipe/holistic'
 
-type Point = { x: number; y: number; z?: number }
+import { computeBoundingBox, distance2d, type Point, type Rect } from './geometry.ts'
+import {
+  FACE_CHIN_POINTS,
+  FACE_EYES_POINTS,
+  FACE_HAIR_POINTS,
+  FACE_MOUTH_POINTS,
+  FACE_NOSE_POINTS,
+} from './landmarks.ts'
 
-type Rect = { minX: number; minY: number; maxX: number; maxY: number }
+export type FaceZone = 'mouth' | 'nose' | 'eyes' | 'chin' | 'hair'
+
+/** All face zones, in display order. */
+export const FACE_ZONES: readonly FaceZone[] = ['mouth', 'nose', 'eyes', 'chin', 'hair']
 
 export type ProximityAlert = {
   variant: 'normal' | 'low-confidence'
   reason: string
   /** Normalized distance to face rectangle (0 when inside). */
   normalizedDistance: number
+  /** Face zone the hand is closest to. */
+  zone: FaceZone
 }
 
 export type HandFaceProximityOptions = {
-  /** How many consecutive near frames are required to trigger. */
-  framesToTrigger?: number
+  /** How long hands must stay near the face (ms) before triggering. */
+  triggerMs?: number
 
   /**
    * Normalized distance threshold relative to face size.
@@ -32,31 +45,34 @@ export type HandFaceProximityOptions = {
    * If Z is missing, the Z gate is skipped.
    */
   zDistanceThreshold?: number
+
+  /** Zones that may trigger an alert; contact with other zones is ignored. */
+  enabledZones?: readonly FaceZone[]
 }
 
 const DEFAULTS: Required<HandFaceProximityOptions> = {
-  framesToTrigger: 3,
+  triggerMs: 300,
   normalizedDistanceThreshold: 0.18,
   minFaceSize: 0.08,
   zDistanceThreshold: 0.12,
+  enabledZones: FACE_ZONES,
 }
 
-function computeBoundingBox(points: Point[]): Rect | null {
-  if (!points.length) return null
-
-  let minX = 1,
-    minY = 1,
-    maxX = 0,
-    maxY = 0
-
-  for (const p of points) {
-    minX = Math.min(minX, p.x)
-    minY = Math.min(minY, p.y)
-    maxX = Math.max(maxX, p.x)
-    maxY = Math.max(maxY, p.y)
-  }
+const ZONE_POINTS: Record<FaceZone, readonly number[]> = {
+  mouth: FACE_MOUTH_POINTS,
+  nose: FACE_NOSE_POINTS,
+  eyes: FACE_EYES_POINTS,
+  chin: FACE_CHIN_POINTS,
+  hair: FACE_HAIR_POINTS,
+}
 
-  return { minX, minY, maxX, maxY }
+/** Alert text per zone, aimed at the habit each zone usually means. */
+const ZONE_REASONS: Record<FaceZone, string> = {
+  mouth: 'Hands near mouth \u2014 nail biting?',
+  nose: 'Hands near nose',
+  eyes: 'Hands near eyes \u2014 try not to rub them',
+  chin: 'Chin resting on hand',
+  hair: 'Hands in hair',
 }
 
 function distancePointToRect(p: Point, r: Rect): number {
@@ -74,6 +90,56 @@ function minDistanceToRect(points: Point[], rect: Rect): number {
   return min
 }
 
+/**
+ * Fallback when face-mesh anchors are missing: classify by vertical position in the face bbox.
+ */
+function classifyByBoundingBox(p: Point, rect: Rect): FaceZone {
+  const h = rect.maxY - rect.minY
+  const t = h > 0 ? (p.y - rect.minY) / h : 0.5
+  if (t < 0.2) return 'hair'
+  if (t < 0.45) return 'eyes'
+  if (t < 0.62) return 'nose'
+  if (t < 0.82) return 'mouth'
+  return 'chin'
+}
+
+/**
+ * Classifies which face zone the hand is touching: the zone whose anchor points are
+ * closest to any of the given (near-face) hand points.
+ */
+export function classifyFaceZone(handPoints: Point[], face: Point[], faceRect: Rect): FaceZone {
+  let bestZone: FaceZone | null = null
+  let bestDist = Number.POSITIVE_INFINITY
+
+  for (const zone of FACE_ZONES) {
+    for (const index of ZONE_POINTS[zone]) {
+      const anchor = face[index]
+      if (!anchor) continue
+      for (const p of handPoints) {
+        const d = distance2d(p, anchor)
+        if (d < bestDist) {
+          bestDist = d
+          bestZone = zone
+        }
+      }
+    }
+  }
+
+  if (bestZone) return bestZone
+
+  // Find the hand point closest to the bbox and classify it by position.
+  let closest = handPoints[0]
+  let closestDist = Number.POSITIVE_INFINITY
+  for (const p of handPoints) {
+    const d = distancePointToRect(p, faceRect)
+    if (d < closestDist) {
+      closestDist = d
+      closest = p
+    }
+  }
+  return classifyByBoundingBox(closest, faceRect)
+}
+
 function meanZ(points: Point[]): number | null {
   let sum = 0
   let count = 0
@@ -89,24 +155,26 @@ function meanZ(points: Point[]): number | null {
 }
 
 /**
- * State machine that emits a single alert when "hands near face" becomes true.
+ * State machine that emits a single alert once "hands near face" has held for `triggerMs`.
  *
- * Note: rate limiting is handled by AlertEngine (global cooldown). This detector
- * only prevents per-frame spam by emitting on the rising edge.
+ * Note: rate limiting is handled by AlertEngine (per-type cooldown, optional global
+ * spacing). This detector only prevents per-frame spam by emitting on the rising edge.
  */
 export class HandFaceProximity {
   private readonly opts: Required<HandFaceProximityOptions>
 
-  private nearStreak = 0
+  private nearSinceMs: number | null = null
   private wasNear = false
+  private loggedThisEpisode = false
 
   constructor(opts: HandFaceProximityOptions = {}) {
     this.opts = { ...DEFAULTS, ...opts }
   }
 
   public reset(): void {
-    this.nearStreak = 0
+    this.nearSinceMs = null
     this.wasNear = false
+    this.loggedThisEpisode = false
   }
 
   /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
@@ -114,7 +182,7 @@ export class HandFaceProximity {
     this.wasNear = true
   }
 
-  public update(results: Results): ProximityAlert | null {
+  public update(results: Results, nowMs: number = performance.now()): ProximityAlert | null {
     const face = results.faceLandmarks ?? []
     const leftHand = results.leftHandLandmarks ?? []
     const rightHand = results.rightHandLandmarks ?? []
@@ -161,33 +229,47 @@ export class HandFaceProximity {
         ? true
         : Math.abs(handZ - faceZ) <= this.opts.zDistanceThreshold
 
-    const isNear = normalizedDistance <= this.opts.normalizedDistanceThreshold && zOk
+    const withinDistance = normalizedDistance <= this.opts.normalizedDistanceThreshold && zOk
+
+    // Only hand points that are actually near the face decide the zone.
+    let zone: FaceZone | null = null
+    if (withinDistance) {
+      const maxDist = this.opts.normalizedDistanceThreshold * faceSize
+      const nearPoints = [...leftHand, ...rightHand].filter(
+        (p) => distancePointToRect(p, faceRect) <= maxDist,
+      )
+      zone = classifyFaceZone(nearPoints, face, faceRect)
+    }
+
+    const isNear = zone !== null && this.opts.enabledZones.includes(zone)
 
-    if (isNear) {
-      this.nearStreak++
-    } else {
-      this.nearStreak = 0
+    if (!isNear || !zone) {
+      this.nearSinceMs = null
       this.wasNear = false
+      this.loggedThisEpisode = false
       return null
     }
 
-    if (this.nearStreak < this.opts.framesToTrigger) return null
+    if (this.nearSinceMs === null) this.nearSinceMs = nowMs
+    if (nowMs - this.nearSinceMs < this.opts.triggerMs) return null
 
-    if (this.nearStreak === this.opts.framesToTrigger) {
+    if (!this.loggedThisEpisode) {
+      this.loggedThisEpisode = true
       console.debug(
-        `[HandsNearFace] threshold reached: normalizedDistance=${normalizedDistance.toFixed(3)}, faceSize=${faceSize.toFixed(3)}, faceZ=${faceZ?.toFixed?.(3) ?? 'n/a'}, handZ=${handZ !== Number.POSITIVE_INFINITY ? handZ.toFixed(3) : 'n/a'}, zOk=${zOk}`,
+        `[HandsNearFace] threshold reached: zone=${zone}, normalizedDistance=${normalizedDistance.toFixed(3)}, faceSize=${faceSize.toFixed(3)}, faceZ=${faceZ?.toFixed?.(3) ?? 'n/a'}, handZ=${handZ !== Number.POSITIVE_INFINITY ? handZ.toFixed(3) : 'n/a'}, zOk=${zOk}`,
       )
     }
 
-    // Emit until acknowledged (AlertEngine handles global cooldown).
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
     if (this.wasNear) return null
 
     const isLowConfidence = faceSize < this.opts.minFaceSize
 
     return {
       variant: isLowConfidence ? 'low-confidence' : 'normal',
-      reason: 'Hands near face',
+      reason: ZONE_REASONS[zone],
       normalizedDistance,
+      zone,
     }
   }
 }
@@ -0,0 +1,103 @@
+// Quiet Hours & Snooze - when alerts stay silent
+// Quiet hours are recurring local-time windows on chosen weekdays; a window whose end is
+// not after its start runs past midnight. Snoozes are one-off windows from now.
+
+const MINUTE_MS = 60_000
+const DAY_MINUTES = 24 * 60
+
+/** One recurring quiet window */
+export type QuietHoursRule = {
+  /** Weekdays the window starts on (0 = Sunday ... 6 = Saturday) */
+  days: number[]
+  /** Minutes after local midnight */
+  startMinute: number
+  /** Minutes after local midnight; at or before `startMinute` means the next day */
+  endMinute: number
+}
+
+export type SnoozeChoice = '5m' | '15m' | '60m' | 'tomorrow'
+
+export const SNOOZE_CHOICES: readonly SnoozeChoice[] = ['5m', '15m', '60m', 'tomorrow']
+
+function localMidnight(timeMs: number, dayOffset = 0): number {
+  const d = new Date(timeMs)
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + dayOffset).getTime()
+}
+
+/** Local wall-clock time on the day of `dayStartMs` (DST-safe). */
+function atMinute(dayStartMs: number, minute: number): number {
+  const d = new Date(dayStartMs)
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, minute).getTime()
+}
+
+/** End of a snooze started at `nowMs`; "tomorrow" lasts until the next local midnight. */
+export function snoozeEnd(choice: SnoozeChoice, nowMs: number): number {
+  switch (choice) {
+    case '5m':
+      return nowMs + 5 * MINUTE_MS
+    case '15m':
+      return nowMs + 15 * MINUTE_MS
+    case '60m':
+      return nowMs + 60 * MINUTE_MS
+    case 'tomorrow':
+      return localMidnight(nowMs, 1)
+  }
+}
+
+/** The rule's window that contains `timeMs`, as [start, end), or null. */
+function activeWindow(rule: QuietHoursRule, timeMs: number): [number, number] | null {
+  const overnight = rule.endMinute <= rule.startMinute
+  // A window that runs past midnight may have started the day before.
+  for (const dayOffset of overnight ? [0, -1] : [0]) {
+    const dayStart = localMidnight(timeMs, dayOffset)
+    if (!rule.days.includes(new Date(dayStart).getDay())) continue
+
+    const start = atMinute(dayStart, rule.startMinute)
+    const end = atMinute(overnight ? localMidnight(dayStart, 1) : dayStart, rule.endMinute)
+    if (timeMs >= start && timeMs < end) return [start, end]
+  }
+  return null
+}
+
+/**
+ * End of the quiet hours containing `timeMs`, or null outside them. Windows that touch or
+ * overlap are followed to the end of the last one.
+ */
+export function quietHoursEnd(rules: QuietHoursRule[], timeMs: number): number | null {
+  let end: number | null = null
+  let probe = timeMs
+  // Bounded: every step moves to a later window end.
+  for (let i = 0; i <= rules.length * 2; i++) {
+    let next: number | null = null
+    for (const rule of rules) {
+      const span = activeWindow(rule, probe)
+      if (span && (next === null || span[1] > next)) next = span[1]
+    }
+    if (next === null) break
+    end = next
+    probe = next
+  }
+  return end
+}
+
+function isMinute(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < DAY_MINUTES
+}
+
+/** Parses persisted quiet hours, dropping malformed rules. */
+export function parseQuietHours(value: unknown): QuietHoursRule[] {
+  if (!Array.isArray(value)) return []
+
+  const rules: QuietHoursRule[] = []
+  for (const raw of value) {
+    if (typeof raw !== 'object' || raw === null) continue
+    const { days, startMinute, endMinute } = raw as Record<string, unknown>
+    if (!Array.isArray(days) || !isMinute(startMinute) || !isMinute(endMinute)) continue
+    rules.push({
+      days: [0, 1, 2, 3, 4, 5, 6].filter((day) => days.includes(day)),
+      startMinute,
+      endMinute,
+    })
+  }
+  return rules
+}
@@ -1,10 +1,19 @@
-// Reference Store - IndexedDB wrapper for shoulder triangle reference pose
-// Stores triangle landmarks (nose, L shoulder, R shoulder) + computed ratio
+// Reference Store - IndexedDB wrapper for shoulder triangle reference poses
+// Stores named reference profiles (e.g. sitting, standing, laptop-only), each holding
+// triangle landmarks (nose, L shoulder, R shoulder) + computed ratio.
 
 const DB_NAME = 'posturelens'
-const DB_VERSION = 1
+const DB_VERSION = 3
 const STORE_NAME = 'reference'
-const REFERENCE_KEY = 'current'
+const META_STORE_NAME = 'meta'
+/** Per-minute posture aggregates (see history.ts); shares the database with the references */
+export const HISTORY_STORE_NAME = 'history'
+
+/** Key used by DB_VERSION 1 for the single stored reference */
+const LEGACY_REFERENCE_KEY = 'current'
+const ACTIVE_PROFILE_KEY = 'activeProfileId'
+const DEFAULT_PROFILE_ID = 'default'
+const DEFAULT_PROFILE_NAME = 'Default'
 
 /** A single normalized landmark with optional depth */
 export interface Landmark {
@@ -13,6 +22,32 @@ export interface Landmark {
   z?: number
 }
 
+/** Eye and ear landmarks captured alongside the triangle (used for head-forward detection) */
+export interface HeadLandmarks {
+  leftEye: Landmark
+  rightEye: Landmark
+  leftEar: Landmark
+  rightEar: Landmark
+}
+
+/** Face size measured from the face mesh at capture (used for screen-distance detection) */
+export interface FaceScale {
+  /** Largest side of the face bounding box (normalized) */
+  size: number
+  /** Distance between the outer eye corners (normalized) */
+  interocular: number
+}
+
+/** Personal thresholds derived from a good + deliberately slouched capture */
+export interface PostureCalibration {
+  /** Triangle ratio of the slouched pose */
+  slouchRatio: number
+  /** Ratio drop fraction (vs reference) at which posture counts as deviated */
+  ratioDropThreshold: number
+  /** Relative Z shift of the slouched pose; absent when depth was unusable */
+  zDeviationThreshold?: number
+}
+
 /** The stored reference pose data */
 export interface ReferencePose {
   nose: Landmark
@@ -22,22 +57,75 @@ export interface ReferencePose {
   ratio: number
   /** ISO timestamp of when the reference was captured */
   capturedAt: string
+  /** Absent on references captured before head landmarks were recorded */
+  head?: HeadLandmarks
+  /** Absent on references captured before face size was recorded */
+  face?: FaceScale
+  /** Present only for two-pose calibrated references; otherwise sensitivity defaults apply */
+  calibration?: PostureCalibration
+}
+
+/** A named reference slot; the pose is null until one has been captured into it */
+export interface ReferenceProfile {
+  id: string
+  name: string
+  pose: ReferencePose | null
+  /** ISO timestamp of when the profile was created */
+  createdAt: string
+}
+
+/**
+ * Moves the DB_VERSION 1 reference (stored under `current`) into a default profile.
+ * Runs inside the versionchange transaction so it completes before any reads.
+ */
+function migrateLegacyReference(tx: IDBTransaction): void {
+  const store = tx.objectStore(STORE_NAME)
+  const meta = tx.objectStore(META_STORE_NAME)
+  const request = store.get(LEGACY_REFERENCE_KEY)
+
+  request.onsuccess = () => {
+    const legacy = request.result as ReferencePose | undefined
+    if (!legacy) return
+
+    const profile: ReferenceProfile = {
+      id: DEFAULT_PROFILE_ID,
+      name: DEFAULT_PROFILE_NAME,
+      pose: legacy,
+      createdAt: legacy.capturedAt,
+    }
+    store.put(profile, profile.id)
+    store.delete(LEGACY_REFERENCE_KEY)
+    meta.put(profile.id, ACTIVE_PROFILE_KEY)
+    console.info('[ReferenceStore] Migrated legacy reference into default profile')
+  }
 }
 
 /**
  * Opens (or creates) the IndexedDB database with schema versioning.
  * Returns a promise that resolves to the database instance.
  */
-function openDb(): Promise<IDBDatabase> {
+export function openDb(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION)
 
-    request.onupgradeneeded = () => {
+    request.onupgradeneeded = (event) => {
       const db = request.result
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME)
         console.info('[ReferenceStore] Created object store:', STORE_NAME)
       }
+      if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+        db.createObjectStore(META_STORE_NAME)
+        console.info('[ReferenceStore] Created object store:', META_STORE_NAME)
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE_NAME)) {
+        db.createObjectStore(HISTORY_STORE_NAME)
+        console.info('[ReferenceStore] Created object store:', HISTORY_STORE_NAME)
+      }
+
+      if (event.oldVersion === 1 && request.transaction) {
+        migrateLegacyReference(request.transaction)
+      }
     }
 
     request.onsuccess = () => resolve(request.result)
@@ -73,18 +161,45 @@ export function calculateTriangleRatio(
 }
 
 /**
- * Saves a reference pose to IndexedDB.
+ * Lists all reference profiles, oldest first.
+ */
+export async function listProfiles(): Promise<ReferenceProfile[]> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly')
+    const store = tx.objectStore(STORE_NAME)
+    const request = store.getAll()
+
+    request.onsuccess = () => {
+      const profiles = (request.result as ReferenceProfile[]).slice()
+      profiles.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      resolve(profiles)
+    }
+    request.onerror = () => reject(request.error)
+    tx.oncomplete = () => db.close()
+  })
+}
+
+/**
+ * Creates a new, empty reference profile. Does not change the active profile.
  */
-export async function saveReference(pose: ReferencePose): Promise<void> {
+export async function createProfile(name: string): Promise<ReferenceProfile> {
+  const profile: ReferenceProfile = {
+    id: crypto.randomUUID(),
+    name: name.trim() || DEFAULT_PROFILE_NAME,
+    pose: null,
+    createdAt: new Date().toISOString(),
+  }
+
   const db = await openDb()
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite')
     const store = tx.objectStore(STORE_NAME)
-    const request = store.put(pose, REFERENCE_KEY)
+    const request = store.add(profile, profile.id)
 
     request.onsuccess = () => {
-      console.info('[ReferenceStore] Reference pose saved')
-      resolve()
+      console.info('[ReferenceStore] Profile created:', profile.name)
+      resolve(profile)
     }
     request.onerror = () => reject(request.error)
     tx.oncomplete = () => db.close()
@@ -92,27 +207,203 @@ export async function saveReference(pose: ReferencePose): Promise<void> {
 }
 
 /**
- * Loads the stored reference pose from IndexedDB.
- * Returns null if no reference has been captured yet.
+ * Renames an existing profile. Rejects if the profile does not exist.
  */
-export async function loadReference(): Promise<ReferencePose | null> {
+export async function renameProfile(id: string, name: string): Promise<void> {
   const db = await openDb()
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readonly')
+    const tx = db.transaction(STORE_NAME, 'readwrite')
     const store = tx.objectStore(STORE_NAME)
-    const request = store.get(REFERENCE_KEY)
+    const request = store.get(id)
 
     request.onsuccess = () => {
-      const result = request.result as ReferencePose | undefined
-      resolve(result ?? null)
+      const profile = request.result as ReferenceProfile | undefined
+      if (!profile) {
+        reject(new Error(`[ReferenceStore] Unknown profile: ${id}`))
+        return
+      }
+      store.put({ ...profile, name: name.trim() || profile.name }, id)
+    }
+    request.onerror = () => reject(request.error)
+    tx.oncomplete = () => {
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Deletes a profile. If it was the active profile, the active pointer is cleared
+ * and `loadActiveProfile` falls back to the oldest remaining profile.
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    const store = tx.objectStore(STORE_NAME)
+    const meta = tx.objectStore(META_STORE_NAME)
+
+    store.delete(id)
+    const activeRequest = meta.get(ACTIVE_PROFILE_KEY)
+    activeRequest.onsuccess = () => {
+      if (activeRequest.result === id) meta.delete(ACTIVE_PROFILE_KEY)
+    }
+
+    tx.oncomplete = () => {
+      console.info('[ReferenceStore] Profile deleted:', id)
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Marks a profile as active. The active profile is what posture detection runs against.
+ */
+export async function setActiveProfile(id: string): Promise<void> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(META_STORE_NAME, 'readwrite')
+    const meta = tx.objectStore(META_STORE_NAME)
+    const request = meta.put(id, ACTIVE_PROFILE_KEY)
+
+    request.onerror = () => reject(request.error)
+    tx.oncomplete = () => {
+      db.close()
+      resolve()
     }
+  })
+}
+
+/**
+ * Loads the stored active profile id (may be stale or null; see `loadActiveProfile`).
+ */
+export async function loadActiveProfileId(): Promise<string | null> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(META_STORE_NAME, 'readonly')
+    const request = tx.objectStore(META_STORE_NAME).get(ACTIVE_PROFILE_KEY)
+
+    request.onsuccess = () => resolve((request.result as string | undefined) ?? null)
     request.onerror = () => reject(request.error)
     tx.oncomplete = () => db.close()
   })
 }
 
 /**
- * Checks whether a reference pose exists in IndexedDB without loading full data.
+ * Replaces every stored profile and the active pointer in one transaction (data import).
+ */
+export async function replaceProfiles(
+  profiles: ReferenceProfile[],
+  activeProfileId: string | null,
+): Promise<void> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    const store = tx.objectStore(STORE_NAME)
+    const meta = tx.objectStore(META_STORE_NAME)
+
+    store.clear()
+    for (const profile of profiles) store.put(profile, profile.id)
+    if (activeProfileId) meta.put(activeProfileId, ACTIVE_PROFILE_KEY)
+    else meta.delete(ACTIVE_PROFILE_KEY)
+
+    tx.oncomplete = () => {
+      console.info(`[ReferenceStore] Replaced profiles (${profiles.length})`)
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Loads the active profile. Falls back to the oldest profile if the active pointer
+ * is missing or stale. Returns null if no profiles exist.
+ */
+export async function loadActiveProfile(): Promise<ReferenceProfile | null> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readonly')
+    const store = tx.objectStore(STORE_NAME)
+    const meta = tx.objectStore(META_STORE_NAME)
+
+    let result: ReferenceProfile | null = null
+
+    const activeRequest = meta.get(ACTIVE_PROFILE_KEY)
+    activeRequest.onsuccess = () => {
+      const allRequest = store.getAll()
+      allRequest.onsuccess = () => {
+        const profiles = allRequest.result as ReferenceProfile[]
+        profiles.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        result = profiles.find((p) => p.id === activeRequest.result) ?? profiles[0] ?? null
+      }
+    }
+
+    tx.oncomplete = () => {
+      db.close()
+      resolve(result)
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Returns the active profile, creating and activating a default one if none exist.
+ */
+export async function ensureActiveProfile(): Promise<ReferenceProfile> {
+  const existing = await loadActiveProfile()
+  if (existing) return existing
+
+  const profile = await createProfile(DEFAULT_PROFILE_NAME)
+  await setActiveProfile(profile.id)
+  return profile
+}
+
+/**
+ * Saves a reference pose into the given profile slot (the active profile if omitted).
+ * Creates a default profile if none exist yet.
+ */
+export async function saveReference(pose: ReferencePose, profileId?: string): Promise<void> {
+  const targetId = profileId ?? (await ensureActiveProfile()).id
+
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite')
+    const store = tx.objectStore(STORE_NAME)
+    const request = store.get(targetId)
+
+    request.onsuccess = () => {
+      const profile = request.result as ReferenceProfile | undefined
+      if (!profile) {
+        reject(new Error(`[ReferenceStore] Unknown profile: ${targetId}`))
+        return
+      }
+      store.put({ ...profile, pose }, targetId)
+    }
+    request.onerror = () => reject(request.error)
+    tx.oncomplete = () => {
+      console.info('[ReferenceStore] Reference pose saved')
+      db.close()
+      resolve()
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Loads the active profile's reference pose from IndexedDB.
+ * Returns null if no reference has been captured yet.
+ */
+export async function loadReference(): Promise<ReferencePose | null> {
+  const profile = await loadActiveProfile()
+  return profile?.pose ?? null
+}
+
+/**
+ * Checks whether the active profile has a captured reference pose.
  */
 export async function hasReference(): Promise<boolean> {
   const ref = await loadReference()
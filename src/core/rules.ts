@@ -0,0 +1,410 @@
+// Custom rules
+// A small JSON rule language over named pose landmarks, its validator, and the interpreter
+// that evaluates rules on every frame.
+//
+// Example (array of rules):
+// [
+//   { "id": "hand-up", "message": "Right hand above nose", "forMs": 5000,
+//     "when": { "above": ["right_wrist", "nose"] } },
+//   { "id": "uneven", "message": "Shoulders uneven", "forMs": 3000,
+//     "when": { "gt": [{ "abs": { "delta": ["y", "left_shoulder", "right_shoulder"] } }, 0.05] } }
+// ]
+
+import type { Results } from '@mediapipe/holistic'
+
+import { POSE_LANDMARK_NAMES, type PoseLandmarkName } from './landmarks.ts'
+
+type Axis = 'x' | 'y' | 'z'
+
+/**
+ * Numeric expression. Coordinates are normalized image coords (y grows downward).
+ * - `{ "y": "nose" }` — one coordinate of a landmark
+ * - `{ "distance": [a, b] }` — 2D distance
+ * - `{ "angle": [a, b] }` — angle of a→b above horizontal, in degrees
+ * - `{ "angle": [a, b, c] }` — angle at b between a and c, in degrees
+ * - `{ "delta": ["y", a, b] }` — a.y - b.y
+ * - `{ "abs": expr }`
+ */
+export type ValueExpr =
+  | number
+  | { x: PoseLandmarkName }
+  | { y: PoseLandmarkName }
+  | { z: PoseLandmarkName }
+  | { distance: [PoseLandmarkName, PoseLandmarkName] }
+  | {
+      angle:
+        | [PoseLandmarkName, PoseLandmarkName]
+        | [PoseLandmarkName, PoseLandmarkName, PoseLandmarkName]
+    }
+  | { delta: [Axis, PoseLandmarkName, PoseLandmarkName] }
+  | { abs: ValueExpr }
+
+/**
+ * Boolean condition.
+ * - `{ "above": [a, b] }` / `{ "below": [a, b] }` — a is higher/lower on screen than b
+ * - `{ "gt": [expr, expr] }` / `{ "lt": [expr, expr] }`
+ * - `{ "all": [...] }`, `{ "any": [...] }`, `{ "not": cond }`
+ */
+export type Condition =
+  | { above: [PoseLandmarkName, PoseLandmarkName] }
+  | { below: [PoseLandmarkName, PoseLandmarkName] }
+  | { gt: [ValueExpr, ValueExpr] }
+  | { lt: [ValueExpr, ValueExpr] }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+
+export type CustomRule = {
+  id: string
+  /** Alert text. */
+  message: string
+  when: Condition
+  /** How long the condition must hold before alerting (default 0). */
+  forMs: number
+}
+
+export type RuleParseResult = {
+  rules: CustomRule[]
+  /** Human-readable validation errors with a path, e.g. `[0].when.above[1]: unknown landmark "noze"`. */
+  errors: string[]
+}
+
+export type CustomRuleAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  ruleId: string
+}
+
+/** Landmarks MediaPipe reports as less visible than this count as missing. */
+const MIN_VISIBILITY = 0.5
+
+const AXES: readonly Axis[] = ['x', 'y', 'z']
+
+type PoseLandmark = { x: number; y: number; z?: number; visibility?: number }
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Returns the single key of an operator object, or null if it has zero or several keys. */
+function singleKey(value: Record<string, unknown>): string | null {
+  const keys = Object.keys(value)
+  return keys.length === 1 ? keys[0] : null
+}
+
+function isLandmarkName(value: unknown): value is PoseLandmarkName {
+  return typeof value === 'string' && (POSE_LANDMARK_NAMES as readonly string[]).includes(value)
+}
+
+function checkLandmarks(value: unknown, counts: number[], path: string, errors: string[]): void {
+  if (!Array.isArray(value) || !counts.includes(value.length)) {
+    errors.push(`${path}: expected ${counts.join(' or ')} landmark names`)
+    return
+  }
+  value.forEach((name, i) => {
+    if (!isLandmarkName(name)) {
+      errors.push(`${path}[${i}]: unknown landmark ${JSON.stringify(name)}`)
+    }
+  })
+}
+
+function checkValue(value: unknown, path: string, errors: string[]): void {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) errors.push(`${path}: number must be finite`)
+    return
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a number or a value expression`)
+    return
+  }
+
+  const op = singleKey(value)
+  const arg = op ? value[op] : undefined
+  switch (op) {
+    case 'x':
+    case 'y':
+    case 'z':
+      if (!isLandmarkName(arg)) {
+        errors.push(`${path}.${op}: unknown landmark ${JSON.stringify(arg)}`)
+      }
+      return
+    case 'distance':
+      checkLandmarks(arg, [2], `${path}.distance`, errors)
+      return
+    case 'angle':
+      checkLandmarks(arg, [2, 3], `${path}.angle`, errors)
+      return
+    case 'delta':
+      if (!Array.isArray(arg) || arg.length !== 3 || !AXES.includes(arg[0])) {
+        errors.push(`${path}.delta: expected ["x" | "y" | "z", landmark, landmark]`)
+        return
+      }
+      checkLandmarks(arg.slice(1), [2], `${path}.delta`, errors)
+      return
+    case 'abs':
+      checkValue(arg, `${path}.abs`, errors)
+      return
+    default:
+      errors.push(`${path}: unknown value expression ${JSON.stringify(Object.keys(value))}`)
+  }
+}
+
+function checkCondition(value: unknown, path: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected a condition object`)
+    return
+  }
+
+  const op = singleKey(value)
+  const arg = op ? value[op] : undefined
+  switch (op) {
+    case 'above':
+    case 'below':
+      checkLandmarks(arg, [2], `${path}.${op}`, errors)
+      return
+    case 'gt':
+    case 'lt':
+      if (!Array.isArray(arg) || arg.length !== 2) {
+        errors.push(`${path}.${op}: expected [value, value]`)
+        return
+      }
+      checkValue(arg[0], `${path}.${op}[0]`, errors)
+      checkValue(arg[1], `${path}.${op}[1]`, errors)
+      return
+    case 'all':
+    case 'any':
+      if (!Array.isArray(arg) || arg.length === 0) {
+        errors.push(`${path}.${op}: expected a non-empty array of conditions`)
+        return
+      }
+      arg.forEach((c, i) => {
+        checkCondition(c, `${path}.${op}[${i}]`, errors)
+      })
+      return
+    case 'not':
+      checkCondition(arg, `${path}.not`, errors)
+      return
+    default:
+      errors.push(`${path}: unknown condition ${JSON.stringify(Object.keys(value))}`)
+  }
+}
+
+/**
+ * Parses and validates rule JSON (an array of rules). Returns no rules if anything is
+ * invalid, so a half-valid edit never partially applies.
+ */
+export function parseRules(text: string): RuleParseResult {
+  if (!text.trim()) return { rules: [], errors: [] }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    return { rules: [], errors: [`Invalid JSON: ${(error as Error).message}`] }
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { rules: [], errors: ['Expected an array of rules'] }
+  }
+
+  const errors: string[] = []
+  const rules: CustomRule[] = []
+  const ids = new Set<string>()
+
+  parsed.forEach((raw, i) => {
+    const path = `[${i}]`
+    if (!isObject(raw)) {
+      errors.push(`${path}: expected a rule object`)
+      return
+    }
+
+    const { id, message, when, forMs = 0 } = raw
+    const before = errors.length
+
+    if (typeof id !== 'string' || !id.trim()) {
+      errors.push(`${path}.id: expected a non-empty string`)
+    } else if (ids.has(id)) {
+      errors.push(`${path}.id: duplicate id "${id}"`)
+    } else {
+      ids.add(id)
+    }
+
+    if (typeof message !== 'string' || !message.trim()) {
+      errors.push(`${path}.message: expected a non-empty string`)
+    }
+    if (typeof forMs !== 'number' || !Number.isFinite(forMs) || forMs < 0) {
+      errors.push(`${path}.forMs: expected a duration in ms (>= 0)`)
+    }
+    checkCondition(when, `${path}.when`, errors)
+
+    if (errors.length === before) {
+      rules.push({
+        id: id as string,
+        message: message as string,
+        when: when as Condition,
+        forMs: forMs as number,
+      })
+    }
+  })
+
+  return errors.length ? { rules: [], errors } : { rules, errors }
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+// ---------------------------------------------------------------------------
+
+function getLandmark(pose: PoseLandmark[], name: PoseLandmarkName): PoseLandmark | null {
+  const landmark = pose[POSE_LANDMARK_NAMES.indexOf(name)]
+  if (!landmark) return null
+  if (typeof landmark.visibility === 'number' && landmark.visibility < MIN_VISIBILITY) return null
+  return landmark
+}
+
+/** Evaluates a value expression; null when a landmark (or its Z) is missing. */
+export function evaluateValue(expr: ValueExpr, pose: PoseLandmark[]): number | null {
+  if (typeof expr === 'number') return expr
+
+  if ('x' in expr) return getLandmark(pose, expr.x)?.x ?? null
+  if ('y' in expr) return getLandmark(pose, expr.y)?.y ?? null
+  if ('z' in expr) return getLandmark(pose, expr.z)?.z ?? null
+
+  if ('abs' in expr) {
+    const v = evaluateValue(expr.abs, pose)
+    return v === null ? null : Math.abs(v)
+  }
+
+  if ('distance' in expr) {
+    const a = getLandmark(pose, expr.distance[0])
+    const b = getLandmark(pose, expr.distance[1])
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : null
+  }
+
+  if ('delta' in expr) {
+    const [axis, aName, bName] = expr.delta
+    const a = getLandmark(pose, aName)?.[axis]
+    const b = getLandmark(pose, bName)?.[axis]
+    return typeof a === 'number' && typeof b === 'number' ? a - b : null
+  }
+
+  const points = expr.angle.map((name) => getLandmark(pose, name))
+  if (points.some((p) => !p)) return null
+  const [a, b, c] = points as PoseLandmark[]
+
+  if (!c) {
+    // Image y grows downward, so flip it to make "b higher than a" a positive angle.
+    return (Math.atan2(a.y - b.y, b.x - a.x) * 180) / Math.PI
+  }
+
+  const v1x = a.x - b.x
+  const v1y = a.y - b.y
+  const v2x = c.x - b.x
+  const v2y = c.y - b.y
+  const norm = Math.hypot(v1x, v1y) * Math.hypot(v2x, v2y)
+  if (norm === 0) return null
+  const cos = Math.max(-1, Math.min(1, (v1x * v2x + v1y * v2y) / norm))
+  return (Math.acos(cos) * 180) / Math.PI
+}
+
+/** Evaluates a condition; null (unknown) when a landmark it needs is missing. */
+export function evaluateCondition(cond: Condition, pose: PoseLandmark[]): boolean | null {
+  if ('above' in cond || 'below' in cond) {
+    const [aName, bName] = 'above' in cond ? cond.above : cond.below
+    const a = getLandmark(pose, aName)
+    const b = getLandmark(pose, bName)
+    if (!a || !b) return null
+    return 'above' in cond ? a.y < b.y : a.y > b.y
+  }
+
+  if ('gt' in cond || 'lt' in cond) {
+    const [l, r] = 'gt' in cond ? cond.gt : cond.lt
+    const left = evaluateValue(l, pose)
+    const right = evaluateValue(r, pose)
+    if (left === null || right === null) return null
+    return 'gt' in cond ? left > right : left < right
+  }
+
+  if ('not' in cond) {
+    const inner = evaluateCondition(cond.not, pose)
+    return inner === null ? null : !inner
+  }
+
+  const results = ('all' in cond ? cond.all : cond.any).map((c) => evaluateCondition(c, pose))
+  if ('all' in cond) {
+    if (results.includes(false)) return false
+    return results.includes(null) ? null : true
+  }
+  if (results.includes(true)) return true
+  return results.includes(null) ? null : false
+}
+
+type RuleState = {
+  trueSinceMs: number | null
+  acknowledged: boolean
+}
+
+/**
+ * Runs a set of custom rules on each frame. A rule alerts once its condition has held
+ * for `forMs`, then stays quiet until the condition clears (emit-until-acknowledged,
+ * per rule). Earlier rules win when several match on the same frame. Every rule raises
+ * the one `custom-rules` alert type, so they share its cooldown.
+ */
+export class CustomRuleDetector {
+  private readonly rules: CustomRule[]
+  private states = new Map<string, RuleState>()
+  private lastEmittedId: string | null = null
+
+  constructor(rules: CustomRule[]) {
+    this.rules = rules
+    this.reset()
+  }
+
+  public reset(): void {
+    this.states = new Map(
+      this.rules.map((rule) => [rule.id, { trueSinceMs: null, acknowledged: false }]),
+    )
+    this.lastEmittedId = null
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    if (this.lastEmittedId === null) return
+    const state = this.states.get(this.lastEmittedId)
+    if (state) state.acknowledged = true
+  }
+
+  public update(results: Results, nowMs: number = performance.now()): CustomRuleAlert | null {
+    const pose = (results.poseLandmarks ?? []) as PoseLandmark[]
+    let alert: CustomRuleAlert | null = null
+
+    for (const rule of this.rules) {
+      const state = this.states.get(rule.id)
+      if (!state) continue
+
+      const matched = pose.length > 0 && evaluateCondition(rule.when, pose) === true
+      if (!matched) {
+        state.trueSinceMs = null
+        state.acknowledged = false
+        continue
+      }
+
+      if (state.trueSinceMs === null) {
+        state.trueSinceMs = nowMs
+        console.debug(`[CustomRules] "${rule.id}" matched`)
+      }
+      if (nowMs - state.trueSinceMs < rule.forMs) continue
+
+      // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+      if (state.acknowledged || alert) continue
+
+      alert = { variant: 'normal', reason: rule.message, ruleId: rule.id }
+    }
+
+    this.lastEmittedId = alert?.ruleId ?? null
+    return alert
+  }
+}
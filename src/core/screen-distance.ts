@@ -0,0 +1,159 @@
+// Screen distance ("too close to the monitor") detection
+// Compares live face size (bbox + interocular distance) vs the size captured with the reference.
+
+import type { Results } from '@mediapipe/holistic'
+
+import { computeBoundingBox, distance2d, type Point, rectSize } from './geometry.ts'
+import { FACE_LANDMARK_LEFT_EYE_OUTER, FACE_LANDMARK_RIGHT_EYE_OUTER } from './landmarks.ts'
+import type { FaceScale, ReferencePose } from './reference-store.ts'
+import { ExponentialSmoother } from './smoothing.ts'
+
+export type ScreenDistanceAlert = {
+  variant: 'normal' | 'low-confidence'
+  reason: string
+  /** Estimated distance relative to the reference distance (0.8 = 20% closer). */
+  distanceRatio: number
+  /** How long the user has been too close, in ms. */
+  closeForMs: number
+}
+
+export type ScreenDistanceOptions = {
+  /** Smoothing time constant (ms); independent of frame rate. */
+  smoothingMs?: number
+
+  /** Face scale vs reference (1.25 = face appears 25% larger) that counts as too close. */
+  closeScaleThreshold?: number
+
+  /** Hysteresis: "too close" ends only once the scale drops below this. */
+  releaseScaleThreshold?: number
+
+  /** How long the user must stay too close before alerting. */
+  tooCloseMs?: number
+
+  /** If bbox and interocular estimates disagree by more than this, treat as low-confidence. */
+  maxEstimateDisagreement?: number
+}
+
+const DEFAULTS: Required<ScreenDistanceOptions> = {
+  smoothingMs: 500,
+  closeScaleThreshold: 1.25,
+  releaseScaleThreshold: 1.12,
+  tooCloseMs: 20_000,
+  maxEstimateDisagreement: 0.15,
+}
+
+/**
+ * Measures face size from the 468-point face mesh.
+ * Returns null if the mesh is missing or degenerate.
+ */
+export function measureFaceScale(faceLandmarks: Point[] | undefined): FaceScale | null {
+  if (!faceLandmarks?.length) return null
+
+  const rect = computeBoundingBox(faceLandmarks)
+  const rightEye = faceLandmarks[FACE_LANDMARK_RIGHT_EYE_OUTER]
+  const leftEye = faceLandmarks[FACE_LANDMARK_LEFT_EYE_OUTER]
+  if (!rect || !rightEye || !leftEye) return null
+
+  const size = rectSize(rect)
+  const interocular = distance2d(rightEye, leftEye)
+  if (size <= 0 || interocular <= 0) return null
+
+  return { size, interocular }
+}
+
+/**
+ * Emits a single alert once the user has stayed too close to the screen for `tooCloseMs`.
+ * Apparent face size grows roughly inversely with distance, so live/reference size
+ * gives the distance ratio. Uses the rising-edge + acknowledge pattern like the other detectors.
+ */
+export class ScreenDistance {
+  private readonly opts: Required<ScreenDistanceOptions>
+
+  private scaleAvg: ExponentialSmoother
+
+  private closeSinceMs: number | null = null
+  private wasClose = false
+  private loggedThisEpisode = false
+  private lastDistanceRatio: number | null = null
+
+  constructor(opts: ScreenDistanceOptions = {}) {
+    this.opts = { ...DEFAULTS, ...opts }
+    this.scaleAvg = new ExponentialSmoother(this.opts.smoothingMs)
+  }
+
+  public reset(): void {
+    this.scaleAvg.reset()
+    this.closeSinceMs = null
+    this.wasClose = false
+    this.loggedThisEpisode = false
+    this.lastDistanceRatio = null
+  }
+
+  /** Marks that an emitted alert was actually shown (i.e., not suppressed by cooldown). */
+  public acknowledge(): void {
+    this.wasClose = true
+  }
+
+  /** Last estimated distance relative to the reference (for UI/debugging). */
+  public getLastDistanceRatio(): number | null {
+    return this.lastDistanceRatio
+  }
+
+  public update(
+    results: Results,
+    reference: ReferencePose,
+    nowMs: number = performance.now(),
+  ): ScreenDistanceAlert | null {
+    // References captured before face size was recorded cannot be compared.
+    if (!reference.face) return null
+
+    const live = measureFaceScale(results.faceLandmarks)
+    if (!live) {
+      this.reset()
+      return null
+    }
+
+    const sizeScale = live.size / reference.face.size
+    const eyeScale = live.interocular / reference.face.interocular
+    const scale = this.scaleAvg.add((sizeScale + eyeScale) / 2, nowMs)
+    this.lastDistanceRatio = 1 / scale
+
+    const isClose =
+      this.closeSinceMs !== null
+        ? scale >= this.opts.releaseScaleThreshold
+        : scale >= this.opts.closeScaleThreshold
+
+    if (!isClose) {
+      this.closeSinceMs = null
+      this.wasClose = false
+      this.loggedThisEpisode = false
+      return null
+    }
+
+    if (this.closeSinceMs === null) this.closeSinceMs = nowMs
+    const closeForMs = nowMs - this.closeSinceMs
+    if (closeForMs < this.opts.tooCloseMs) return null
+
+    // Emit until acknowledged (AlertEngine applies per-type cooldowns and global spacing).
+    if (this.wasClose) return null
+
+    // Head turns shrink interocular distance but not the bbox; large disagreement means the
+    // estimate is unreliable.
+    const disagreement = Math.abs(sizeScale - eyeScale) / Math.max(sizeScale, eyeScale)
+    const isLowConfidence = disagreement > this.opts.maxEstimateDisagreement
+
+    if (!this.loggedThisEpisode) {
+      this.loggedThisEpisode = true
+      console.debug(
+        `[ScreenDistance] Too close: scale=${scale.toFixed(3)}, sizeScale=${sizeScale.toFixed(3)}, eyeScale=${eyeScale.toFixed(3)}, closeForMs=${Math.round(closeForMs)}`,
+      )
+    }
+
+    return {
+      variant: isLowConfidence ? 'low-confidence' : 'normal',
+      reason: 'Too close to the screen',
+      distanceRatio: this.lastDistanceRatio,
+      closeForMs,
+    }
+  }
+}
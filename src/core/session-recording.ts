@@ -0,0 +1,288 @@
+// Session recording + replay
+// Records landmark streams (no video) to JSONL and replays them in place of the Detector.
+//
+// Format: line 1 is a header, every following line is one processed frame:
+//   {"type":"posturelens-session","version":1,"recordedAt":1760000000000,"reference":{...},"settings":{...}}
+//   {"t":0,"pose":[[x,y,z,visibility],...],"face":[[x,y,z],...],"left":[...],"right":[...]}
+// `t` is ms since recording start; landmark arrays are omitted when not detected.
+
+import type { Results } from '@mediapipe/holistic'
+
+import type { ReferencePose } from './reference-store.ts'
+
+export const SESSION_FORMAT = 'posturelens-session'
+export const SESSION_VERSION = 1
+
+/** Decimal places kept per coordinate (~0.1px at 1080p). */
+const COORD_DECIMALS = 4
+
+export type SessionHeader = {
+  type: typeof SESSION_FORMAT
+  version: typeof SESSION_VERSION
+  /** Wall-clock start (epoch ms). */
+  recordedAt: number
+  /** Reference the detectors compared against while recording. */
+  reference: ReferencePose | null
+  /** App detector settings at recording start (opaque here; interpreted by the app). */
+  settings: unknown
+}
+
+type PackedLandmark = number[]
+
+export type SessionFrame = {
+  /** ms since recording start */
+  t: number
+  pose?: PackedLandmark[]
+  face?: PackedLandmark[]
+  left?: PackedLandmark[]
+  right?: PackedLandmark[]
+}
+
+export type RecordedSession = {
+  header: SessionHeader
+  frames: SessionFrame[]
+  durationMs: number
+}
+
+type Landmark = { x: number; y: number; z?: number; visibility?: number }
+
+function round(value: number): number {
+  const factor = 10 ** COORD_DECIMALS
+  return Math.round(value * factor) / factor
+}
+
+function packLandmarks(
+  landmarks: Landmark[] | undefined,
+  withVisibility: boolean,
+): PackedLandmark[] | undefined {
+  if (!landmarks?.length) return undefined
+  return landmarks.map((p) => {
+    const packed = [round(p.x), round(p.y), round(p.z ?? 0)]
+    if (withVisibility) packed.push(round(p.visibility ?? 1))
+    return packed
+  })
+}
+
+function unpackLandmarks(packed: PackedLandmark[] | undefined): Landmark[] | undefined {
+  if (!packed) return undefined
+  return packed.map(([x, y, z, visibility]) =>
+    visibility === undefined ? { x, y, z } : { x, y, z, visibility },
+  )
+}
+
+/** Compacts one Results frame (landmarks only; images and segmentation are dropped). */
+export function packFrame(results: Results, t: number): SessionFrame {
+  const frame: SessionFrame = { t: Math.round(t * 10) / 10 }
+  const pose = packLandmarks(results.poseLandmarks, true)
+  const face = packLandmarks(results.faceLandmarks, false)
+  const left = packLandmarks(results.leftHandLandmarks, false)
+  const right = packLandmarks(results.rightHandLandmarks, false)
+  if (pose) frame.pose = pose
+  if (face) frame.face = face
+  if (left) frame.left = left
+  if (right) frame.right = right
+  return frame
+}
+
+/** Rebuilds a Results object from a recorded frame (landmark fields only). */
+export function unpackFrame(frame: SessionFrame): Results {
+  return {
+    poseLandmarks: unpackLandmarks(frame.pose),
+    faceLandmarks: unpackLandmarks(frame.face),
+    leftHandLandmarks: unpackLandmarks(frame.left),
+    rightHandLandmarks: unpackLandmarks(frame.right),
+  } as unknown as Results
+}
+
+/**
+ * Accumulates JSONL lines in memory while recording. Frames are serialized as they arrive
+ * so `stop()` is cheap even for long sessions.
+ */
+export class SessionRecorder {
+  private lines: string[] = []
+  private startMs: number | null = null
+
+  public isRecording(): boolean {
+    return this.startMs !== null
+  }
+
+  public getFrameCount(): number {
+    return Math.max(0, this.lines.length - 1)
+  }
+
+  public start(
+    reference: ReferencePose | null,
+    settings: unknown,
+    nowMs: number = performance.now(),
+  ): void {
+    const header: SessionHeader = {
+      type: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      recordedAt: Date.now(),
+      reference,
+      settings,
+    }
+    this.lines = [JSON.stringify(header)]
+    this.startMs = nowMs
+    console.info('[SessionRecorder] Recording started')
+  }
+
+  public record(results: Results, nowMs: number): void {
+    if (this.startMs === null) return
+    this.lines.push(JSON.stringify(packFrame(results, nowMs - this.startMs)))
+  }
+
+  /** Ends the recording and returns the JSONL text (empty string if not recording). */
+  public stop(): string {
+    if (this.startMs === null) return ''
+    const text = `${this.lines.join('\n')}\n`
+    console.info(`[SessionRecorder] Recording stopped (${this.getFrameCount()} frames)`)
+    this.lines = []
+    this.startMs = null
+    return text
+  }
+}
+
+/**
+ * Parses a recorded JSONL session. Throws with the offending line number on bad input.
+ */
+export function parseSession(text: string): RecordedSession {
+  const lines = text.split('\n').filter((line) => line.trim())
+  if (!lines.length) throw new Error('Recording is empty')
+
+  let header: SessionHeader
+  try {
+    header = JSON.parse(lines[0]) as SessionHeader
+  } catch {
+    throw new Error('Line 1: header is not valid JSON')
+  }
+  if (header?.type !== SESSION_FORMAT) {
+    throw new Error('Line 1: not a PostureLens session recording')
+  }
+  if (header.version !== SESSION_VERSION) {
+    throw new Error(`Line 1: unsupported recording version ${String(header.version)}`)
+  }
+
+  const frames: SessionFrame[] = []
+  for (let i = 1; i < lines.length; i++) {
+    let frame: SessionFrame
+    try {
+      frame = JSON.parse(lines[i]) as SessionFrame
+    } catch {
+      throw new Error(`Line ${i + 1}: frame is not valid JSON`)
+    }
+    if (typeof frame?.t !== 'number' || !Number.isFinite(frame.t)) {
+      throw new Error(`Line ${i + 1}: frame has no timestamp`)
+    }
+    if (frames.length && frame.t < frames[frames.length - 1].t) {
+      throw new Error(`Line ${i + 1}: timestamps go backwards`)
+    }
+    frames.push(frame)
+  }
+
+  return { header, frames, durationMs: frames.length ? frames[frames.length - 1].t : 0 }
+}
+
+export type SessionReplayOptions = {
+  /** Called for every replayed frame with the recorded timestamp as `nowMs`. */
+  onFrame: (results: Results, nowMs: number) => void
+  /** Called after a seek; detector state from before the jump no longer applies. */
+  onSeek?: () => void
+  /** Called whenever the position or play state changes. */
+  onProgress?: (positionMs: number, playing: boolean) => void
+}
+
+/**
+ * Feeds a recorded session back in real time, standing in for the Detector.
+ * Recorded timestamps are passed through unchanged, so time-based detectors see exactly
+ * the timing they saw live. Replaying from the start (after a detector reset) reproduces
+ * the recorded alert behavior; a seek starts detectors from scratch at that point.
+ */
+export class SessionReplay {
+  public readonly session: RecordedSession
+
+  private readonly opts: SessionReplayOptions
+  private nextIndex = 0
+  private positionMs = 0
+  private playing = false
+  private timerId: number | null = null
+  /** performance.now() that corresponds to t = 0 while playing. */
+  private clockOriginMs = 0
+
+  constructor(session: RecordedSession, opts: SessionReplayOptions) {
+    this.session = session
+    this.opts = opts
+  }
+
+  public isPlaying(): boolean {
+    return this.playing
+  }
+
+  public getPositionMs(): number {
+    return this.positionMs
+  }
+
+  public getDurationMs(): number {
+    return this.session.durationMs
+  }
+
+  public play(): void {
+    if (this.playing) return
+    if (this.nextIndex >= this.session.frames.length) this.seek(0)
+
+    this.playing = true
+    this.clockOriginMs = performance.now() - this.positionMs
+    this.opts.onProgress?.(this.positionMs, true)
+    this.tick()
+  }
+
+  public pause(): void {
+    if (!this.playing) return
+    this.playing = false
+    if (this.timerId !== null) {
+      clearTimeout(this.timerId)
+      this.timerId = null
+    }
+    this.opts.onProgress?.(this.positionMs, false)
+  }
+
+  public seek(positionMs: number): void {
+    const target = Math.max(0, Math.min(positionMs, this.session.durationMs))
+    const frames = this.session.frames
+
+    let index = 0
+    while (index < frames.length && frames[index].t < target) index++
+
+    this.nextIndex = index
+    this.positionMs = target
+    this.clockOriginMs = performance.now() - target
+    this.opts.onSeek?.()
+    this.opts.onProgress?.(this.positionMs, this.playing)
+  }
+
+  private tick(): void {
+    this.timerId = null
+    if (!this.playing) return
+
+    const frames = this.session.frames
+    const elapsed = performance.now() - this.clockOriginMs
+
+    while (this.nextIndex < frames.length && frames[this.nextIndex].t <= elapsed) {
+      const frame = frames[this.nextIndex]
+      this.nextIndex++
+      this.positionMs = frame.t
+      this.opts.onFrame(unpackFrame(frame), frame.t)
+    }
+
+    if (this.nextIndex >= frames.length) {
+      this.playing = false
+      this.opts.onProgress?.(this.positionMs, false)
+      console.info('[SessionReplay] Reached end of recording')
+      return
+    }
+
+    this.opts.onProgress?.(this.positionMs, true)
+    const delay = Math.max(0, frames[this.nextIndex].t - elapsed)
+    this.timerId = window.setTimeout(() => this.tick(), delay)
+  }
+}
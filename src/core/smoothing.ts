@@ -0,0 +1,63 @@
+// Shared signal smoothing for detectors
+
+/** Simple moving average over the last `windowSize` samples (processed frames). */
+export class MovingAverage {
+  private readonly windowSize: number
+  private values: number[] = []
+  private sum = 0
+
+  constructor(windowSize: number) {
+    this.windowSize = windowSize
+  }
+
+  public reset(): void {
+    this.values = []
+    this.sum = 0
+  }
+
+  public add(value: number): number {
+    this.values.push(value)
+    this.sum += value
+
+    if (this.values.length > this.windowSize) {
+      const removed = this.values.shift()
+      if (removed !== undefined) this.sum -= removed
+    }
+
+    return this.sum / this.values.length
+  }
+}
+
+/**
+ * Exponential moving average with a time constant, so smoothing is independent of the
+ * processed frame rate. Each sample moves the average by 1 - e^(-dt/timeConstantMs).
+ */
+export class ExponentialSmoother {
+  private readonly timeConstantMs: number
+  private value: number | null = null
+  private lastMs: number | null = null
+
+  constructor(timeConstantMs: number) {
+    this.timeConstantMs = timeConstantMs
+  }
+
+  public reset(): void {
+    this.value = null
+    this.lastMs = null
+  }
+
+  public add(value: number, nowMs: number): number {
+    if (this.value === null || this.lastMs === null || this.timeConstantMs <= 0) {
+      this.value = value
+      this.lastMs = nowMs
+      return value
+    }
+
+    const dtMs = Math.max(0, nowMs - this.lastMs)
+    const alpha = 1 - Math.exp(-dtMs / this.timeConstantMs)
+    this.value += (value - this.value) * alpha
+    this.lastMs = nowMs
+
+    return this.value
+  }
+}
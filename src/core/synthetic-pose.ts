@@ -0,0 +1,553 @@
+// Synthetic pose generator
+// Produces holistic-style Results (33 pose, 468 face, 21+21 hand landmarks) from a few
+// body parameters, and a LandmarkSource that plays scripted scenarios in place of the webcam.
+
+import type { Results } from '@mediapipe/holistic'
+
+import type { LandmarkSource } from './detector.ts'
+import {
+  FACE_CHIN_POINTS,
+  FACE_HAIR_POINTS,
+  FACE_LEFT_EYE_EAR_POINTS,
+  FACE_MOUTH_POINTS,
+  FACE_NOSE_POINTS,
+  FACE_RIGHT_EYE_EAR_POINTS,
+} from './landmarks.ts'
+import type { FaceZone } from './proximity.ts'
+
+type Landmark = { x: number; y: number; z: number; visibility?: number }
+
+/** Body parameters for one frame. All zeros is the upright reference posture. */
+export type SyntheticPoseParams = {
+  /** Forward shoulder rounding: apparent shoulder-width loss (0.1 = 10% narrower). */
+  shoulderRounding: number
+  /** Head dropped toward the shoulders, as a fraction of the upright neck height. */
+  headDrop: number
+  /** Sideways lean of the upper body in degrees (positive = toward the user's left). */
+  leanDeg: number
+  /** Apparent size vs the reference distance (1.2 = 20% closer to the screen). */
+  scale: number
+  /** Face zone the right hand reaches for (null = hand stays on the desk). */
+  handZone: FaceZone | null
+  /** How far along its path the hand is: 0 on the desk, 1 touching `handZone`. */
+  handReach: number
+}
+
+export type SyntheticKeyframe = {
+  atMs: number
+  /** Changes from the previous keyframe; numbers interpolate linearly, `handZone` steps. */
+  pose: Partial<SyntheticPoseParams>
+}
+
+export type SyntheticScenario = {
+  id: string
+  label: string
+  durationMs: number
+  keyframes: SyntheticKeyframe[]
+}
+
+export type SyntheticNoiseOptions = {
+  /** Per-landmark jitter (normalized image units, ~1 px at 640 wide = 0.0016). */
+  jitter?: number
+  /** Slow whole-body sway amplitude (normalized image units). */
+  sway?: number
+  /** Average time between blinks (0 disables blinking). */
+  blinkIntervalMs?: number
+}
+
+const DEFAULT_PARAMS: SyntheticPoseParams = {
+  shoulderRounding: 0,
+  headDrop: 0,
+  leanDeg: 0,
+  scale: 1,
+  handZone: null,
+  handReach: 0,
+}
+
+const NOISE_DEFAULTS: Required<SyntheticNoiseOptions> = {
+  jitter: 0.0015,
+  sway: 0.004,
+  blinkIntervalMs: 4_000,
+}
+
+const BLINK_MS = 150
+
+// Upright body layout (normalized image coords at scale 1).
+const SHOULDER_MID = { x: 0.5, y: 0.66 }
+const SHOULDER_WIDTH = 0.32
+const NECK_HEIGHT = 0.22
+/** Lean pivots around the hips, just below the frame. */
+const LEAN_PIVOT = { x: 0.5, y: 1.1 }
+const FACE_WIDTH = 0.15
+const FACE_HEIGHT = 0.2
+/** Nose height within the face box (from the top); matches the mesh anchor layout below. */
+const FACE_NOSE_FRACTION = 0.55
+
+/** Face-box positions (x from center in face widths, y from top in face heights). */
+const FACE_ZONE_TARGETS: Record<FaceZone, { x: number; y: number }> = {
+  hair: { x: 0, y: 0.03 },
+  eyes: { x: -0.2, y: 0.38 },
+  nose: { x: 0, y: 0.55 },
+  mouth: { x: 0, y: 0.74 },
+  chin: { x: 0, y: 0.98 },
+}
+
+const FACE_LANDMARK_COUNT = 468
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+/** Small seeded PRNG (mulberry32) so scripted sessions are reproducible. */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Resolves the body parameters at `tMs` (clamped to the scenario, not looped). */
+export function scenarioParamsAt(scenario: SyntheticScenario, tMs: number): SyntheticPoseParams {
+  // Fill every keyframe forward so each one carries complete parameters.
+  let previous = DEFAULT_PARAMS
+  const resolved = scenario.keyframes.map((keyframe) => {
+    previous = { ...previous, ...keyframe.pose }
+    return { atMs: keyframe.atMs, pose: previous }
+  })
+  if (!resolved.length) return { ...DEFAULT_PARAMS }
+
+  let index = 0
+  while (index + 1 < resolved.length && resolved[index + 1].atMs <= tMs) index++
+
+  const from = resolved[index]
+  const to = resolved[index + 1]
+  if (!to || tMs <= from.atMs) return { ...from.pose }
+
+  const f = (tMs - from.atMs) / (to.atMs - from.atMs)
+  const lerp = (a: number, b: number) => a + (b - a) * f
+  return {
+    shoulderRounding: lerp(from.pose.shoulderRounding, to.pose.shoulderRounding),
+    headDrop: lerp(from.pose.headDrop, to.pose.headDrop),
+    leanDeg: lerp(from.pose.leanDeg, to.pose.leanDeg),
+    scale: lerp(from.pose.scale, to.pose.scale),
+    // The hand keeps heading for its current target until the next keyframe switches it.
+    handZone: from.pose.handZone,
+    handReach: lerp(from.pose.handReach, to.pose.handReach),
+  }
+}
+
+type Transform = (x: number, y: number, z: number) => Landmark
+
+/** Upper-body transform: scale about the shoulder midpoint, then lean about the hips. */
+function bodyTransform(params: SyntheticPoseParams, swayX: number): Transform {
+  const angle = (params.leanDeg * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  return (x, y, z) => {
+    const sx = SHOULDER_MID.x + (x - SHOULDER_MID.x) * params.scale + swayX
+    const sy = SHOULDER_MID.y + (y - SHOULDER_MID.y) * params.scale
+    // MediaPipe's left is the user's left (image right when not mirrored): leaning left moves
+    // the head toward +x and drops the left shoulder.
+    const dx = sx - LEAN_PIVOT.x
+    const dy = sy - LEAN_PIVOT.y
+    return {
+      x: LEAN_PIVOT.x + dx * cos - dy * sin,
+      y: LEAN_PIVOT.y + dy * cos + dx * sin,
+      z: z * params.scale,
+    }
+  }
+}
+
+type FaceLayout = { cx: number; top: number; width: number; height: number }
+
+function faceLayout(params: SyntheticPoseParams): FaceLayout {
+  const noseY = SHOULDER_MID.y - NECK_HEIGHT * (1 - params.headDrop)
+  return {
+    cx: SHOULDER_MID.x,
+    top: noseY - FACE_HEIGHT * FACE_NOSE_FRACTION,
+    width: FACE_WIDTH,
+    height: FACE_HEIGHT,
+  }
+}
+
+/** Point in the (untransformed) face box: x in face widths from center, y in heights from top. */
+function facePoint(face: FaceLayout, u: number, v: number): { x: number; y: number } {
+  return { x: face.cx + u * face.width, y: face.top + v * face.height }
+}
+
+function setEye(
+  points: Array<{ x: number; y: number; z: number }>,
+  face: FaceLayout,
+  indices: readonly number[],
+  centerU: number,
+  openness: number,
+): void {
+  // Order: outer corner, upper lid ×2, inner corner, lower lid ×2 (user's right eye sits at -u).
+  const outward = Math.sign(centerU)
+  const [outer, upper1, upper2, inner, lower1, lower2] = indices
+  const halfWidth = 0.1
+  const lid = 0.04 * openness
+  const at = (du: number, dv: number) => {
+    const p = facePoint(face, centerU + du * outward, 0.38 + dv)
+    return { ...p, z: -0.03 }
+  }
+  points[outer] = at(halfWidth, 0)
+  points[inner] = at(-halfWidth, 0)
+  points[upper1] = at(halfWidth / 3, -lid)
+  points[upper2] = at(-halfWidth / 3, -lid)
+  points[lower1] = at(-halfWidth / 3, lid)
+  points[lower2] = at(halfWidth / 3, lid)
+}
+
+/** 468-point face mesh: an elliptical point cloud with the anchors detectors rely on. */
+function buildFace(
+  face: FaceLayout,
+  eyeOpenness: number,
+): Array<{ x: number; y: number; z: number }> {
+  const points = Array.from({ length: FACE_LANDMARK_COUNT }, (_, i) => {
+    const r = Math.sqrt((i + 0.5) / FACE_LANDMARK_COUNT)
+    const theta = i * GOLDEN_ANGLE
+    const p = facePoint(face, (r * Math.cos(theta)) / 2, 0.5 + (r * Math.sin(theta)) / 2)
+    // Bulges toward the camera in the middle.
+    return { ...p, z: -0.06 * (1 - r * r) }
+  })
+
+  const place = (indices: readonly number[], u: number, v: number, spreadU: number, z: number) => {
+    indices.forEach((index, i) => {
+      const offset = indices.length > 1 ? (i / (indices.length - 1) - 0.5) * spreadU : 0
+      points[index] = { ...facePoint(face, u + offset, v), z }
+    })
+  }
+  place(FACE_HAIR_POINTS, 0, FACE_ZONE_TARGETS.hair.y, 0.5, -0.02)
+  place(FACE_NOSE_POINTS, 0, FACE_ZONE_TARGETS.nose.y, 0.12, -0.08)
+  place(FACE_MOUTH_POINTS, 0, FACE_ZONE_TARGETS.mouth.y, 0.3, -0.05)
+  place(FACE_CHIN_POINTS, 0, FACE_ZONE_TARGETS.chin.y, 0.2, -0.03)
+  setEye(points, face, FACE_RIGHT_EYE_EAR_POINTS, -0.2, eyeOpenness)
+  setEye(points, face, FACE_LEFT_EYE_EAR_POINTS, 0.2, eyeOpenness)
+  // Remaining eye-zone lid centers (159/145 right, 386/374 left).
+  points[159] = { ...facePoint(face, -0.2, 0.38 - 0.04 * eyeOpenness), z: -0.03 }
+  points[145] = { ...facePoint(face, -0.2, 0.38 + 0.04 * eyeOpenness), z: -0.03 }
+  points[386] = { ...facePoint(face, 0.2, 0.38 - 0.04 * eyeOpenness), z: -0.03 }
+  points[374] = { ...facePoint(face, 0.2, 0.38 + 0.04 * eyeOpenness), z: -0.03 }
+  return points
+}
+
+/**
+ * 21-point hand with the fingertips at `tip`. The fingers point sideways (toward +x), the way
+ * a hand reaches the face from the side, so the fingertips rather than the palm touch the zone.
+ */
+function buildHand(tip: { x: number; y: number }, size: number, z: number): Landmark[] {
+  const wrist = { x: tip.x - size, y: tip.y, z }
+  const points: Landmark[] = [wrist]
+  // Thumb, index, middle, ring, pinky: 4 joints each from knuckle to tip.
+  for (let finger = 0; finger < 5; finger++) {
+    const spreadY = finger === 0 ? 0.2 * size : (finger - 2) * 0.06 * size
+    const tipX = tip.x - (finger === 0 ? 0.35 * size : Math.abs(finger - 2) * 0.08 * size)
+    for (let joint = 1; joint <= 4; joint++) {
+      const f = joint / 4
+      points.push({
+        x: wrist.x + (tipX - wrist.x) * (0.35 + 0.65 * f),
+        y: wrist.y + spreadY * (0.6 + 0.4 * f),
+        z: z - 0.01 * f,
+      })
+    }
+  }
+  return points
+}
+
+export type SyntheticFrameOptions = Required<SyntheticNoiseOptions> & {
+  /** Scenario time, drives sway and blinks. */
+  timeMs: number
+  random: () => number
+}
+
+function isBlinking(timeMs: number, intervalMs: number): boolean {
+  if (intervalMs <= 0) return false
+  // Slightly irregular spacing so the blink detector sees a natural rhythm.
+  const phase = (timeMs + Math.sin(timeMs / 7_300) * intervalMs * 0.3) % intervalMs
+  return phase < BLINK_MS
+}
+
+/** Generates one holistic-style Results frame for the given body parameters. */
+export function generateResults(params: SyntheticPoseParams, opts: SyntheticFrameOptions): Results {
+  const swayX = Math.sin(opts.timeMs / 2_300) * opts.sway
+  const transform = bodyTransform(params, swayX)
+  const jitter = () => (opts.random() - 0.5) * 2 * opts.jitter
+  const noisy = (p: Landmark): Landmark => ({ ...p, x: p.x + jitter(), y: p.y + jitter() })
+
+  const face = faceLayout(params)
+  const eyeOpenness = isBlinking(opts.timeMs, opts.blinkIntervalMs) ? 0.1 : 1
+  const faceLandmarks = buildFace(face, eyeOpenness).map((p) => noisy(transform(p.x, p.y, p.z)))
+
+  // Shoulders narrow (foreshortening) and come toward the camera as they round forward.
+  const halfWidth = (SHOULDER_WIDTH / 2) * (1 - params.shoulderRounding)
+  const shoulderZ = -0.25 - params.shoulderRounding * 0.3
+  const at = (u: number, v: number, z: number) => {
+    const p = facePoint(face, u, v)
+    return transform(p.x, p.y, z)
+  }
+  const body = (x: number, y: number, z: number) => transform(x, y, z)
+
+  // Right hand: moves from its resting spot toward the target zone (user's right = image left).
+  const restTip = { x: 0.36, y: 0.9 }
+  const target = params.handZone ? FACE_ZONE_TARGETS[params.handZone] : null
+  const targetTip = target ? at(target.x, target.y, 0) : restTip
+  const reach = target ? Math.max(0, Math.min(1, params.handReach)) : 0
+  const rightTip = {
+    x: restTip.x + (targetTip.x - restTip.x) * reach,
+    y: restTip.y + (targetTip.y - restTip.y) * reach,
+  }
+  const handSize = 0.09 * params.scale
+  const rightHand = buildHand(rightTip, handSize, -0.04).map(noisy)
+  const leftHand = buildHand({ x: 0.64, y: 0.9 }, handSize, -0.04).map(noisy)
+
+  const leftShoulder = body(SHOULDER_MID.x + halfWidth, SHOULDER_MID.y, shoulderZ)
+  const rightShoulder = body(SHOULDER_MID.x - halfWidth, SHOULDER_MID.y, shoulderZ)
+  const rightWrist = rightHand[0]
+  const leftWrist = leftHand[0]
+
+  const visible = (p: Landmark, visibility = 0.99): Landmark => ({ ...noisy(p), visibility })
+  const midpoint = (a: Landmark, b: Landmark): Landmark => ({
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    z: (a.z + b.z) / 2,
+  })
+  const hip = (dx: number) => body(SHOULDER_MID.x + dx * params.scale, 1.05, 0)
+  const offFrame = (dx: number, y: number): Landmark => ({
+    ...body(SHOULDER_MID.x + dx, y, 0),
+    visibility: 0.02,
+  })
+
+  const pose: Landmark[] = [
+    visible(at(0, FACE_NOSE_FRACTION, -0.6)), // nose
+    visible(at(0.12, 0.38, -0.57)), // left_eye_inner
+    visible(at(0.2, 0.38, -0.57)), // left_eye
+    visible(at(0.28, 0.38, -0.57)), // left_eye_outer
+    visible(at(-0.12, 0.38, -0.57)), // right_eye_inner
+    visible(at(-0.2, 0.38, -0.57)), // right_eye
+    visible(at(-0.28, 0.38, -0.57)), // right_eye_outer
+    visible(at(0.48, 0.42, -0.35)), // left_ear
+    visible(at(-0.48, 0.42, -0.35)), // right_ear
+    visible(at(0.15, 0.74, -0.55)), // mouth_left
+    visible(at(-0.15, 0.74, -0.55)), // mouth_right
+    visible(leftShoulder),
+    visible(rightShoulder),
+    visible(midpoint(leftShoulder, leftWrist), 0.8), // left_elbow
+    visible(midpoint(rightShoulder, rightWrist), 0.8), // right_elbow
+    visible(leftWrist, 0.9),
+    visible(rightWrist, 0.9),
+    visible(leftHand[20], 0.85), // left_pinky
+    visible(rightHand[20], 0.85), // right_pinky
+    visible(leftHand[8], 0.85), // left_index
+    visible(rightHand[8], 0.85), // right_index
+    visible(leftHand[4], 0.85), // left_thumb
+    visible(rightHand[4], 0.85), // right_thumb
+    visible(hip(0.11), 0.3), // left_hip
+    visible(hip(-0.11), 0.3), // right_hip
+    offFrame(0.12, 1.5), // left_knee
+    offFrame(-0.12, 1.5),
+    offFrame(0.12, 1.9), // left_ankle
+    offFrame(-0.12, 1.9),
+    offFrame(0.13, 1.95), // left_heel
+    offFrame(-0.13, 1.95),
+    offFrame(0.1, 2), // left_foot_index
+    offFrame(-0.1, 2),
+  ]
+
+  return {
+    poseLandmarks: pose,
+    faceLandmarks,
+    leftHandLandmarks: leftHand,
+    rightHandLandmarks: rightHand,
+  } as unknown as Results
+}
+
+/** Scripted scenarios; each starts upright for a few seconds so a reference can be captured. */
+export const SYNTHETIC_SCENARIOS: SyntheticScenario[] = [
+  {
+    id: 'upright',
+    label: 'Upright (baseline)',
+    durationMs: 60_000,
+    keyframes: [{ atMs: 0, pose: {} }],
+  },
+  {
+    id: 'slouch',
+    label: 'Slouch and recover',
+    durationMs: 36_000,
+    keyframes: [
+      { atMs: 0, pose: {} },
+      { atMs: 6_000, pose: {} },
+      { atMs: 9_000, pose: { shoulderRounding: 0.15, headDrop: 0.05 } },
+      { atMs: 24_000, pose: { shoulderRounding: 0.15, headDrop: 0.05 } },
+      { atMs: 27_000, pose: { shoulderRounding: 0, headDrop: 0 } },
+    ],
+  },
+  {
+    id: 'lean',
+    label: 'Lean left, then right',
+    durationMs: 44_000,
+    keyframes: [
+      { atMs: 0, pose: {} },
+      { atMs: 6_000, pose: {} },
+      { atMs: 8_000, pose: { leanDeg: 12 } },
+      { atMs: 18_000, pose: { leanDeg: 12 } },
+      { atMs: 21_000, pose: { leanDeg: -12 } },
+      { atMs: 31_000, pose: { leanDeg: -12 } },
+      { atMs: 33_000, pose: { leanDeg: 0 } },
+    ],
+  },
+  {
+    id: 'face-touch',
+    label: 'Hand to mouth, eyes, chin, hair',
+    durationMs: 40_000,
+    keyframes: [
+      { atMs: 0, pose: {} },
+      { atMs: 5_000, pose: { handZone: 'mouth', handReach: 0 } },
+      { atMs: 5_800, pose: { handReach: 1 } },
+      { atMs: 8_800, pose: { handReach: 1 } },
+      { atMs: 9_600, pose: { handReach: 0 } },
+      { atMs: 13_000, pose: { handZone: 'eyes' } },
+      { atMs: 13_800, pose: { handReach: 1 } },
+      { atMs: 16_800, pose: { handReach: 1 } },
+      { atMs: 17_600, pose: { handReach: 0 } },
+      { atMs: 21_000, pose: { handZone: 'chin' } },
+      { atMs: 21_800, pose: { handReach: 1 } },
+      { atMs: 27_800, pose: { handReach: 1 } },
+      { atMs: 28_600, pose: { handReach: 0 } },
+      { atMs: 31_000, pose: { handZone: 'hair' } },
+      { atMs: 31_800, pose: { handReach: 1 } },
+      { atMs: 34_800, pose: { handReach: 1 } },
+      { atMs: 35_600, pose: { handReach: 0 } },
+    ],
+  },
+]
+
+export type SyntheticSourceOptions = SyntheticNoiseOptions & {
+  /** Time between generated frames (the live detector lands at ~90ms). */
+  frameIntervalMs?: number
+  seed?: number
+  /** Restart the scenario when it ends. */
+  loop?: boolean
+}
+
+const PREVIEW_WIDTH = 640
+const PREVIEW_HEIGHT = 480
+
+/**
+ * Plays a scenario through the same interface as the live Detector: the detection loop
+ * calls `processFrame` every animation frame and gets generated Results via `onResults`.
+ * `getPreviewStream()` stands in for the webcam so the video preview shows the scripted body.
+ */
+export class SyntheticPoseSource implements LandmarkSource {
+  private readonly scenario: SyntheticScenario
+  private readonly opts: Required<SyntheticSourceOptions>
+  private readonly random: () => number
+
+  private onResultsCallback: ((results: Results) => void) | null = null
+  private startMs: number | null = null
+  private lastFrameMs: number | null = null
+  private previewCanvas: HTMLCanvasElement | null = null
+
+  constructor(scenario: SyntheticScenario, opts: SyntheticSourceOptions = {}) {
+    this.scenario = scenario
+    this.opts = {
+      ...NOISE_DEFAULTS,
+      frameIntervalMs: 90,
+      seed: 1,
+      loop: true,
+      ...opts,
+    }
+    this.random = createRandom(this.opts.seed)
+    console.info(`[SyntheticPose] Scenario "${scenario.id}" (${scenario.durationMs / 1000}s)`)
+  }
+
+  async loadModel(): Promise<void> {
+    // Nothing to load; keeps the Detector call sequence unchanged.
+  }
+
+  onResults(callback: (results: Results) => void): void {
+    this.onResultsCallback = callback
+  }
+
+  async processFrame(_videoElement: HTMLVideoElement): Promise<void> {
+    const nowMs = performance.now()
+    if (this.lastFrameMs !== null && nowMs - this.lastFrameMs < this.opts.frameIntervalMs) return
+
+    if (this.startMs === null) this.startMs = nowMs
+    this.lastFrameMs = nowMs
+
+    let timeMs = nowMs - this.startMs
+    if (this.opts.loop) timeMs %= this.scenario.durationMs
+
+    const results = generateResults(scenarioParamsAt(this.scenario, timeMs), {
+      jitter: this.opts.jitter,
+      sway: this.opts.sway,
+      blinkIntervalMs: this.opts.blinkIntervalMs,
+      timeMs,
+      random: this.random,
+    })
+    this.paintPreview(results)
+    this.onResultsCallback?.(results)
+  }
+
+  /** A canvas-backed stream for the video preview (painted on every generated frame). */
+  getPreviewStream(): MediaStream {
+    if (!this.previewCanvas) {
+      this.previewCanvas = document.createElement('canvas')
+      this.previewCanvas.width = PREVIEW_WIDTH
+      this.previewCanvas.height = PREVIEW_HEIGHT
+    }
+    const stream = this.previewCanvas.captureStream()
+    // The stream needs a first frame before the video element reports it can play.
+    this.paintPreview(null)
+    return stream
+  }
+
+  async cleanup(): Promise<void> {
+    this.onResultsCallback = null
+    this.previewCanvas = null
+  }
+
+  private paintPreview(results: Results | null): void {
+    const ctx = this.previewCanvas?.getContext('2d')
+    if (!ctx) return
+
+    ctx.fillStyle = '#1d2430'
+    ctx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)'
+    ctx.font = '14px sans-serif'
+    ctx.fillText(`Synthetic: ${this.scenario.label}`, 12, 24)
+    if (!results) return
+
+    const toPx = (p: { x: number; y: number }) => [p.x * PREVIEW_WIDTH, p.y * PREVIEW_HEIGHT]
+    ctx.fillStyle = 'rgba(220, 200, 180, 0.8)'
+    for (const p of [
+      ...(results.faceLandmarks ?? []),
+      ...(results.leftHandLandmarks ?? []),
+      ...(results.rightHandLandmarks ?? []),
+    ]) {
+      const [x, y] = toPx(p)
+      ctx.fillRect(x - 1, y - 1, 2, 2)
+    }
+
+    const pose = results.poseLandmarks ?? []
+    ctx.strokeStyle = 'rgba(220, 200, 180, 0.8)'
+    ctx.lineWidth = 6
+    ctx.beginPath()
+    for (const [a, b] of [
+      [11, 12],
+      [11, 13],
+      [13, 15],
+      [12, 14],
+      [14, 16],
+    ]) {
+      const [ax, ay] = toPx(pose[a])
+      const [bx, by] = toPx(pose[b])
+      ctx.moveTo(ax, ay)
+      ctx.lineTo(bx, by)
+    }
+    ctx.stroke()
+  }
+}
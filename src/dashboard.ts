@@ -0,0 +1,278 @@
+// Dashboard — posture history charts drawn on plain canvases
+// Score over time, time in bad posture, alerts by type and an hour-of-day heatmap.
+
+import type {
+  DashboardRange,
+  HistoryBucket,
+  HistorySummary,
+  HourHeatmap,
+  RangeBounds,
+} from './core/history-stats.ts'
+
+const COLOR_ACCENT = '#00ff88'
+const COLOR_WARNING = '#ffaa00'
+const COLOR_ERROR = '#ff4444'
+const COLOR_GRID = '#333333'
+const COLOR_LABEL = '#999999'
+const COLOR_EMPTY = '#1a1a1a'
+
+const CHART_PADDING = { top: 8, right: 8, bottom: 20, left: 32 }
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/** Everything the dashboard shows for one day or week */
+export type DashboardView = {
+  title: string
+  range: DashboardRange
+  bounds: RangeBounds
+  buckets: HistoryBucket[]
+  summary: HistorySummary
+  heatmap: HourHeatmap
+  /** Display names by alert type (falls back to the type) */
+  alertLabels: Record<string, string>
+  /** Current posture score while monitoring; null when idle */
+  liveScore: number | null
+}
+
+/** Formats a duration as "1h 05m" or "12m" */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60_000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '–' : String(Math.round(score))
+}
+
+/** Matches the canvas backing store to its CSS size (sharp on high-DPI screens) */
+function prepareCanvas(canvas: HTMLCanvasElement): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  const dpr = window.devicePixelRatio || 1
+  const width = canvas.clientWidth
+  const height = canvas.clientHeight
+  canvas.width = Math.round(width * dpr)
+  canvas.height = Math.round(height * dpr)
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+  ctx.clearRect(0, 0, width, height)
+  ctx.font = '11px system-ui, sans-serif'
+  return ctx
+}
+
+type Plot = { x: number; y: number; w: number; h: number }
+
+function plotArea(canvas: HTMLCanvasElement): Plot {
+  return {
+    x: CHART_PADDING.left,
+    y: CHART_PADDING.top,
+    w: canvas.clientWidth - CHART_PADDING.left - CHART_PADDING.right,
+    h: canvas.clientHeight - CHART_PADDING.top - CHART_PADDING.bottom,
+  }
+}
+
+/** Horizontal grid lines with value labels on the left */
+function drawYAxis(ctx: CanvasRenderingContext2D, plot: Plot, ticks: number[], max: number): void {
+  ctx.strokeStyle = COLOR_GRID
+  ctx.fillStyle = COLOR_LABEL
+  ctx.lineWidth = 1
+  ctx.textAlign = 'right'
+  ctx.textBaseline = 'middle'
+  for (const tick of ticks) {
+    const y = plot.y + plot.h - (tick / max) * plot.h
+    ctx.beginPath()
+    ctx.moveTo(plot.x, y)
+    ctx.lineTo(plot.x + plot.w, y)
+    ctx.stroke()
+    ctx.fillText(String(tick), plot.x - 4, y)
+  }
+}
+
+/** Hour marks for a day, weekday names for a week */
+function drawTimeAxis(ctx: CanvasRenderingContext2D, plot: Plot, view: DashboardView): void {
+  const { startMs, endMs, dayStarts } = view.bounds
+  const xAt = (t: number) => plot.x + ((t - startMs) / (endMs - startMs)) * plot.w
+
+  ctx.fillStyle = COLOR_LABEL
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+  const labelY = plot.y + plot.h + 4
+
+  if (view.range === 'day') {
+    for (let hour = 0; hour <= 24; hour += 3) {
+      const t = new Date(startMs).setHours(hour)
+      ctx.fillText(String(hour), xAt(Math.min(t, endMs)), labelY)
+    }
+    return
+  }
+
+  for (let i = 0; i < dayStarts.length - 1; i++) {
+    ctx.fillText(WEEKDAYS[i], xAt((dayStarts[i] + dayStarts[i + 1]) / 2), labelY)
+  }
+}
+
+/** Mean score line (gaps where nothing was scored) over faint per-bucket minimum bars */
+function drawScoreChart(canvas: HTMLCanvasElement, view: DashboardView): void {
+  const ctx = prepareCanvas(canvas)
+  if (!ctx) return
+  const plot = plotArea(canvas)
+  const { buckets } = view
+  const slot = plot.w / Math.max(1, buckets.length)
+  const yAt = (score: number) => plot.y + plot.h - (score / 100) * plot.h
+
+  drawYAxis(ctx, plot, [0, 50, 100], 100)
+  drawTimeAxis(ctx, plot, view)
+
+  ctx.fillStyle = 'rgba(255, 68, 68, 0.35)'
+  buckets.forEach((bucket, i) => {
+    if (bucket.minScore === null || bucket.meanScore === null) return
+    const top = yAt(bucket.meanScore)
+    ctx.fillRect(plot.x + i * slot, top, Math.max(1, slot - 1), yAt(bucket.minScore) - top)
+  })
+
+  ctx.strokeStyle = COLOR_ACCENT
+  ctx.lineWidth = 2
+  ctx.beginPath()
+  let drawing = false
+  buckets.forEach((bucket, i) => {
+    if (bucket.meanScore === null) {
+      drawing = false
+      return
+    }
+    const x = plot.x + (i + 0.5) * slot
+    const y = yAt(bucket.meanScore)
+    if (drawing) ctx.lineTo(x, y)
+    else ctx.moveTo(x, y)
+    drawing = true
+  })
+  ctx.stroke()
+}
+
+/** Minutes of bad posture per bucket */
+function drawBadPostureChart(canvas: HTMLCanvasElement, view: DashboardView): void {
+  const ctx = prepareCanvas(canvas)
+  if (!ctx) return
+  const plot = plotArea(canvas)
+  const minutes = view.buckets.map((b) => b.badPostureMs / 60_000)
+  const max = Math.max(1, Math.ceil(Math.max(...minutes)))
+  const slot = plot.w / Math.max(1, minutes.length)
+
+  drawYAxis(ctx, plot, [0, max], max)
+  drawTimeAxis(ctx, plot, view)
+
+  ctx.fillStyle = COLOR_WARNING
+  minutes.forEach((value, i) => {
+    if (value <= 0) return
+    const h = (value / max) * plot.h
+    ctx.fillRect(plot.x + i * slot, plot.y + plot.h - h, Math.max(1, slot - 1), h)
+  })
+}
+
+/** Green (always upright) to red (always slouched); empty cells where nobody was present */
+function heatColor(share: number | null): string {
+  if (share === null) return COLOR_EMPTY
+  const hue = Math.round(150 * (1 - share))
+  return `hsl(${hue}, 80%, 45%)`
+}
+
+function drawHeatmap(canvas: HTMLCanvasElement, view: DashboardView): void {
+  // A single day is one row; keep its cells from stretching to the week's height.
+  canvas.classList.toggle('dashboard__chart--short', view.range === 'day')
+  const ctx = prepareCanvas(canvas)
+  if (!ctx) return
+  const plot = plotArea(canvas)
+  const rows = view.heatmap
+  const cellW = plot.w / 24
+  const cellH = plot.h / Math.max(1, rows.length)
+
+  ctx.textBaseline = 'middle'
+  rows.forEach((row, day) => {
+    if (view.range === 'week') {
+      ctx.fillStyle = COLOR_LABEL
+      ctx.textAlign = 'right'
+      ctx.fillText(WEEKDAYS[day], plot.x - 4, plot.y + (day + 0.5) * cellH)
+    }
+
+    row.forEach((share, hour) => {
+      ctx.fillStyle = heatColor(share)
+      ctx.fillRect(plot.x + hour * cellW, plot.y + day * cellH, cellW - 1, cellH - 1)
+    })
+  })
+
+  ctx.fillStyle = COLOR_LABEL
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+  for (let hour = 0; hour < 24; hour += 3) {
+    ctx.fillText(String(hour), plot.x + (hour + 0.5) * cellW, plot.y + plot.h + 4)
+  }
+}
+
+function renderAlertCounts(container: HTMLElement, view: DashboardView): void {
+  container.replaceChildren()
+  const counts = Object.entries(view.summary.alerts).sort((a, b) => b[1] - a[1])
+
+  if (!counts.length) {
+    const empty = document.createElement('li')
+    empty.className = 'dashboard__alerts-empty'
+    empty.textContent = 'No alerts'
+    container.appendChild(empty)
+    return
+  }
+
+  const max = counts[0][1]
+  for (const [type, count] of counts) {
+    const item = document.createElement('li')
+    item.className = 'dashboard__alert'
+
+    const label = document.createElement('span')
+    label.textContent = view.alertLabels[type] ?? type
+    const bar = document.createElement('span')
+    bar.className = 'dashboard__alert-bar'
+    bar.style.width = `${(count / max) * 100}%`
+    bar.style.backgroundColor = COLOR_ERROR
+    const value = document.createElement('span')
+    value.className = 'dashboard__alert-count'
+    value.textContent = String(count)
+
+    item.append(label, bar, value)
+    container.appendChild(item)
+  }
+}
+
+function setText(id: string, text: string): void {
+  const el = document.getElementById(id)
+  if (el) el.textContent = text
+}
+
+/** Shows the dashboard in place of the monitoring layout (or switches back) */
+export function showDashboard(visible: boolean): void {
+  const dashboard = document.getElementById('dashboard')
+  const mainLayout = document.querySelector<HTMLElement>('.main-layout')
+  if (dashboard) dashboard.hidden = !visible
+  if (mainLayout) mainLayout.hidden = visible
+}
+
+/** Fills in the summary tiles and redraws every chart */
+export function renderDashboard(view: DashboardView): void {
+  const { summary } = view
+  setText('dashboard-title', view.title)
+  setText('dashboard-live-score', formatScore(view.liveScore))
+  setText('dashboard-mean-score', formatScore(summary.meanScore))
+  setText('dashboard-min-score', formatScore(summary.minScore))
+  setText('dashboard-bad-time', formatDuration(summary.badPostureMs))
+  setText('dashboard-present-time', formatDuration(summary.presentMs))
+
+  document.querySelectorAll<HTMLButtonElement>('[data-dashboard-range]').forEach((btn) => {
+    btn.setAttribute('aria-pressed', String(btn.dataset.dashboardRange === view.range))
+  })
+
+  const score = document.getElementById('dashboard-score-chart')
+  if (score instanceof HTMLCanvasElement) drawScoreChart(score, view)
+  const bad = document.getElementById('dashboard-bad-chart')
+  if (bad instanceof HTMLCanvasElement) drawBadPostureChart(bad, view)
+  const heatmap = document.getElementById('dashboard-heatmap')
+  if (heatmap instanceof HTMLCanvasElement) drawHeatmap(heatmap, view)
+  const alerts = document.getElementById('dashboard-alerts')
+  if (alerts) renderAlertCounts(alerts, view)
+}
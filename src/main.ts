@@ -2,7 +2,20 @@
 // Wires together modules: capabilities, UI, canvas, capture, detection
 
 import type { Results } from '@mediapipe/holistic'
-import { AlertEngine } from './core/alert-engine.ts'
+import {
+  ALERT_CHANNELS,
+  ALERT_PRIORITIES,
+  AlertEngine,
+  type AlertPolicy,
+  type AlertPriority,
+  type AlertRequest,
+  ESCALATION_CHANNELS,
+  ESCALATION_PRESETS,
+  type EscalationChannel,
+  type EscalationStep,
+} from './core/alert-engine.ts'
+import { BlinkRateMonitor } from './core/blink.ts'
+import { CameraShift, reanchorReference } from './core/camera-shift.ts'
 import {
   drawBoundingBox,
   drawCaptureOverlay,
@@ -15,27 +28,119 @@ import {
   displayMobileBlock,
 } from './core/capabilities.ts'
 import {
+  calibrateReferencePose,
   captureReferencePose,
-  extractTriangleLandmarks,
+  extractCaptureFrame,
   getCaptureBuffer,
   getIsCapturing,
 } from './core/capture.ts'
-import { Detector } from './core/detector.ts'
-import { PostureDeviation } from './core/posture.ts'
-import { HandFaceProximity } from './core/proximity.ts'
-import { clearAllData, loadReference, type ReferencePose } from './core/reference-store.ts'
 import {
+  buildExportFile,
+  collectLocalData,
+  decryptLocalData,
+  type ImportMode,
+  importLocalData,
+  type LocalData,
+  parseExportFile,
+} from './core/data-export.ts'
+import { DEFAULT_FRAME_DECIMATION, Detector, type LandmarkSource } from './core/detector.ts'
+import {
+  type AlertDetector,
+  adaptDetector,
+  type DetectorDefinition,
+  DetectorRegistry,
+  type SensitivityLevel,
+} from './core/detector-registry.ts'
+import { type ForwardHeadOptions, ForwardHeadPosture } from './core/forward-head.ts'
+import {
+  DEFAULT_BACKGROUND_INTERVAL_MS,
+  FrameScheduler,
+  RateMeter,
+} from './core/frame-scheduler.ts'
+import {
+  HistoryAggregator,
+  type HistoryMinute,
+  loadHistory,
+  pruneHistory,
+  saveHistoryMinutes,
+} from './core/history.ts'
+import {
+  bucketHistory,
+  type DashboardRange,
+  hourHeatmap,
+  type RangeBounds,
+  rangeBounds,
+  shiftAnchor,
+  summarizeHistory,
+} from './core/history-stats.ts'
+import { LateralLean, type LateralLeanOptions } from './core/lean.ts'
+import { PostureDeviation, type PostureDeviationOptions } from './core/posture.ts'
+import { type BreakReminder, PresenceTracker } from './core/presence.ts'
+import {
+  FACE_ZONES,
+  type FaceZone,
+  HandFaceProximity,
+  type HandFaceProximityOptions,
+} from './core/proximity.ts'
+import {
+  parseQuietHours,
+  type QuietHoursRule,
+  SNOOZE_CHOICES,
+  type SnoozeChoice,
+  snoozeEnd,
+} from './core/quiet-hours.ts'
+import {
+  clearAllData,
+  createProfile,
+  deleteProfile,
+  ensureActiveProfile,
+  listProfiles,
+  type ReferencePose,
+  type ReferenceProfile,
+  renameProfile,
+  saveReference,
+  setActiveProfile,
+} from './core/reference-store.ts'
+import { type CustomRule, CustomRuleDetector, parseRules } from './core/rules.ts'
+import { ScreenDistance } from './core/screen-distance.ts'
+import {
+  parseSession,
+  type RecordedSession,
+  SessionRecorder,
+  SessionReplay,
+} from './core/session-recording.ts'
+import { SYNTHETIC_SCENARIOS, SyntheticPoseSource } from './core/synthetic-pose.ts'
+import { renderDashboard, showDashboard } from './dashboard.ts'
+import { PipWidget, pipSupport } from './pip-widget.ts'
+import {
+  downloadTextFile,
+  hideCameraMovedPrompt,
   hideProgress,
+  renderAlertPolicies,
+  renderDetectorSettings,
+  renderProfilePicker,
+  renderQuietHours,
   resetDetectionStatus,
+  setRecordButtonState,
   showAlertToast,
+  showCameraMovedPrompt,
   showErrorToast,
+  showEscalationBanner,
   showProgress,
+  showReplayControls,
+  showRuleEditorStatus,
   showSuccessToast,
   showUpdatePrompt,
+  showVideoFileControls,
   syncStartButton,
+  updateAlertStatus,
+  updateDetectionRate,
   updateDetectionStatus,
   updateReferenceStatus,
+  updateReplayControls,
+  updateSittingStatus,
   updateStatusDisplay,
+  updateVideoFileControls,
 } from './ui.ts'
 
 // ---------------------------------------------------------------------------
@@ -44,8 +149,13 @@ import {
 
 let firstDetectionReceived = false
 let detectionLoopRunning = false
-let animationFrameId: number | null = null
+let frameScheduler: FrameScheduler | null = null
+/** Completed detections, for the rate indicator */
+const detectionRate = new RateMeter()
+let lastRateUpdateMs = 0
+let backgroundIntervalMs = DEFAULT_BACKGROUND_INTERVAL_MS
 let currentReference: ReferencePose | null = null
+let activeProfileId: string | null = null
 
 /** Cached detection canvas context (queried once in initializeApp, used every frame) */
 let detectionCtx: CanvasRenderingContext2D | null = null
@@ -54,68 +164,839 @@ let modelSwitchPending = false
 let modelSwitchOverlayTimeoutId: number | null = null
 let onModelSwitchFirstResult: (() => void) | null = null
 
+/** Set when a scripted session (`?synthetic=<scenario>`) stands in for the webcam. */
+let syntheticSource: SyntheticPoseSource | null = null
+
+/** Local video used instead of getUserMedia (file picker, or `?video=<url>` on the dev server). */
+let videoFileSource: { url: string; name: string; isObjectUrl: boolean } | null = null
+let videoFileLoop = true
+
+/** Frame-step size for video files (most screen and phone recordings are 30 fps). */
+const VIDEO_FRAME_S = 1 / 30
+
 // ---------------------------------------------------------------------------
 // Alerts (shared mechanisms)
 // ---------------------------------------------------------------------------
 
-type SensitivityLevel = 'low' | 'medium' | 'high'
-
 const STORAGE_KEY_FACE_TOUCH_SENS = 'posturelens.sensitivity.faceTouch'
+const STORAGE_KEY_FACE_ZONES = 'posturelens.faceZones'
 const STORAGE_KEY_POSTURE_SENS = 'posturelens.sensitivity.posture'
+const STORAGE_KEY_DISABLED_DETECTORS = 'posturelens.detectors.disabled'
+const STORAGE_KEY_CUSTOM_RULES = 'posturelens.customRules'
+const STORAGE_KEY_SCREEN_DISTANCE_DELAY = 'posturelens.screenDistance.delayMs'
+const STORAGE_KEY_BREAK_SIT_LIMIT = 'posturelens.breaks.sitLimitMs'
+const STORAGE_KEY_BREAK_ABSENCE = 'posturelens.breaks.breakAfterAbsentMs'
+const STORAGE_KEY_ALERT_POLICIES = 'posturelens.alerts.policies'
+const STORAGE_KEY_ALERT_SPACING = 'posturelens.alerts.minSpacingMs'
+const STORAGE_KEY_ALERT_NOTIFICATIONS = 'posturelens.alerts.notifications'
+const STORAGE_KEY_BACKGROUND_INTERVAL = 'posturelens.detection.backgroundIntervalMs'
+const STORAGE_KEY_ALERT_SNOOZE = 'posturelens.alerts.snoozedUntil'
+const STORAGE_KEY_QUIET_HOURS = 'posturelens.alerts.quietHours'
 
-let alertEngine: AlertEngine | null = null
-let handFaceProximity = new HandFaceProximity()
-let postureDeviation = new PostureDeviation()
+const SCREEN_DISTANCE_DELAYS_MS = [10_000, 20_000, 60_000, 180_000]
+const DEFAULT_SCREEN_DISTANCE_DELAY_MS = 20_000
+
+const BREAK_SIT_LIMITS_MS = [30 * 60_000, 50 * 60_000, 60 * 60_000, 90 * 60_000]
+const DEFAULT_BREAK_SIT_LIMIT_MS = 50 * 60_000
+
+const BREAK_ABSENCES_MS = [60_000, 2 * 60_000, 5 * 60_000]
+const DEFAULT_BREAK_ABSENCE_MS = 2 * 60_000
+
+const BACKGROUND_INTERVALS_MS = [1_000, 500, 200]
+
+const ALERT_COOLDOWNS_MS = [5_000, 15_000, 30_000, 60_000, 2 * 60_000, 5 * 60_000]
+const ALERT_SPACINGS_MS = [0, 10_000, 30_000, 60_000]
+const DEFAULT_ALERT_SPACING_MS = 10_000
+
+/** Alert type of the camera-moved check (detectors use their registry id). */
+const CAMERA_SHIFT_ALERT_TYPE = 'camera-shift'
+const CAMERA_SHIFT_ALERT_LABEL = 'Camera moved'
+
+/** Alert type whose condition (posture deviated) drives its escalation ladder. */
+const POSTURE_ALERT_TYPE = 'posture'
 
-let _handsNearFaceAlertCount = 0
-let _postureAlertCount = 0
+let alertEngine: AlertEngine | null = null
+const detectorRegistry = new DetectorRegistry()
+const presenceTracker = new PresenceTracker()
+/** Set every frame by the always-on presence update; surfaced by the break-reminder entry */
+let pendingBreakReminder: BreakReminder | null = null
+const cameraShift = new CameraShift()
+let cameraMovedPromptVisible = false
+let faceZones: FaceZone[] = [...FACE_ZONES]
+let screenDistanceDelayMs = DEFAULT_SCREEN_DISTANCE_DELAY_MS
+let customRules: CustomRule[] = []
+
+let _cameraShiftAlertCount = 0
 
 function parseSensitivityLevel(value: string | null): SensitivityLevel {
   if (value === 'low' || value === 'medium' || value === 'high') return value
   return 'medium'
 }
 
-function createHandFaceProximity(level: SensitivityLevel): HandFaceProximity {
-  switch (level) {
-    case 'high':
-      return new HandFaceProximity({
-        framesToTrigger: 2,
-        normalizedDistanceThreshold: 0.25,
-        zDistanceThreshold: 0.14,
-      })
-    case 'low':
-      return new HandFaceProximity({
-        framesToTrigger: 4,
-        normalizedDistanceThreshold: 0.12,
-        zDistanceThreshold: 0.1,
-      })
-    default:
-      return new HandFaceProximity({
-        framesToTrigger: 3,
-        normalizedDistanceThreshold: 0.18,
-        zDistanceThreshold: 0.12,
-      })
+/** Parses the persisted list of enabled face zones; all zones are enabled by default. */
+function parseFaceZones(value: string | null): FaceZone[] {
+  if (value === null) return [...FACE_ZONES]
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (!Array.isArray(parsed)) return [...FACE_ZONES]
+    return FACE_ZONES.filter((zone) => parsed.includes(zone))
+  } catch {
+    return [...FACE_ZONES]
   }
 }
 
-function createPostureDeviation(level: SensitivityLevel): PostureDeviation {
-  switch (level) {
-    case 'high':
-      return new PostureDeviation({
-        framesToTrigger: 3,
-        ratioDropThreshold: 0.05,
-      })
-    case 'low':
-      return new PostureDeviation({
-        framesToTrigger: 5,
-        ratioDropThreshold: 0.1,
-      })
-    default:
-      return new PostureDeviation({
-        framesToTrigger: 4,
-        ratioDropThreshold: 0.07,
-      })
+/** Parses the persisted list of disabled detector ids. */
+function parseDisabledDetectors(value: string | null): string[] {
+  if (value === null) return []
+  try {
+    const parsed: unknown = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+type UserAlertPolicy = Partial<
+  Pick<AlertPolicy, 'cooldownMs' | 'priority' | 'channels' | 'escalation'>
+>
+
+/** Parses a persisted escalation ladder; null if any step is malformed. */
+function parseEscalation(value: unknown): EscalationStep[] | null {
+  if (!Array.isArray(value)) return null
+  const steps: EscalationStep[] = []
+  for (const raw of value) {
+    if (typeof raw !== 'object' || raw === null) return null
+    const { afterMs, channels } = raw as Record<string, unknown>
+    if (typeof afterMs !== 'number' || !Number.isFinite(afterMs) || afterMs < 0) return null
+    if (!Array.isArray(channels)) return null
+    steps.push({
+      afterMs,
+      channels: ESCALATION_CHANNELS.filter((c) => channels.includes(c as EscalationChannel)),
+    })
+  }
+  return steps
+}
+
+/** Parses persisted per-type alert overrides, dropping unknown or invalid fields. */
+function parseAlertPolicies(value: string | null): Record<string, UserAlertPolicy> {
+  if (value === null) return {}
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    return {}
   }
+  if (typeof parsed !== 'object' || parsed === null) return {}
+
+  const policies: Record<string, UserAlertPolicy> = {}
+  for (const [type, raw] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof raw !== 'object' || raw === null) continue
+    const r = raw as Record<string, unknown>
+    const policy: UserAlertPolicy = {}
+    if (ALERT_COOLDOWNS_MS.includes(r.cooldownMs as number))
+      policy.cooldownMs = Number(r.cooldownMs)
+    if (ALERT_PRIORITIES.includes(r.priority as AlertPriority)) {
+      policy.priority = r.priority as AlertPriority
+    }
+    if (Array.isArray(r.channels)) {
+      policy.channels = ALERT_CHANNELS.filter((c) => (r.channels as unknown[]).includes(c))
+    }
+    const escalation = parseEscalation(r.escalation)
+    if (escalation) policy.escalation = escalation
+    policies[type] = policy
+  }
+  return policies
+}
+
+/** Parses a persisted duration select value, falling back if it is not one of the choices. */
+function parseDurationChoice(value: string | null, choices: number[], fallback: number): number {
+  const ms = Number(value)
+  return choices.includes(ms) ? ms : fallback
+}
+
+/**
+ * Restores a persisted duration select and calls `apply` with it now and on every change.
+ */
+function bindDurationSelect(
+  id: string,
+  storageKey: string,
+  choices: number[],
+  fallback: number,
+  apply: (ms: number) => void,
+): void {
+  const select = document.getElementById(id) as HTMLSelectElement | null
+  const saved = parseDurationChoice(localStorage.getItem(storageKey), choices, fallback)
+  if (select) select.value = String(saved)
+  apply(saved)
+
+  select?.addEventListener('change', () => {
+    const ms = parseDurationChoice(select.value, choices, fallback)
+    localStorage.setItem(storageKey, String(ms))
+    apply(ms)
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Detectors
+// ---------------------------------------------------------------------------
+
+const HAND_FACE_PRESETS: Record<SensitivityLevel, HandFaceProximityOptions> = {
+  high: { triggerMs: 200, normalizedDistanceThreshold: 0.25, zDistanceThreshold: 0.14 },
+  medium: { triggerMs: 300, normalizedDistanceThreshold: 0.18, zDistanceThreshold: 0.12 },
+  low: { triggerMs: 500, normalizedDistanceThreshold: 0.12, zDistanceThreshold: 0.1 },
+}
+
+const POSTURE_PRESETS: Record<SensitivityLevel, PostureDeviationOptions> = {
+  high: { triggerMs: 1_500, ratioDropThreshold: 0.05 },
+  medium: { triggerMs: 3_000, ratioDropThreshold: 0.07 },
+  low: { triggerMs: 5_000, ratioDropThreshold: 0.1 },
+}
+
+const FORWARD_HEAD_PRESETS: Record<SensitivityLevel, ForwardHeadOptions> = {
+  high: { triggerMs: 1_500, displacementThreshold: 0.08 },
+  medium: { triggerMs: 3_000, displacementThreshold: 0.12 },
+  low: { triggerMs: 5_000, displacementThreshold: 0.16 },
+}
+
+const LEAN_PRESETS: Record<SensitivityLevel, LateralLeanOptions> = {
+  high: { triggerMs: 1_500, tiltThresholdDeg: 6, offsetThreshold: 0.11 },
+  medium: { triggerMs: 3_000, tiltThresholdDeg: 8, offsetThreshold: 0.15 },
+  low: { triggerMs: 5_000, tiltThresholdDeg: 11, offsetThreshold: 0.2 },
+}
+
+/** Built-in detectors; the registry orders them by priority (lowest first). */
+const DETECTORS: DetectorDefinition[] = [
+  {
+    id: 'hands-near-face',
+    label: 'Hands near face',
+    priority: 10,
+    requiresReference: false,
+    tunable: true,
+    create: (level) =>
+      adaptDetector(
+        new HandFaceProximity({ ...HAND_FACE_PRESETS[level], enabledZones: faceZones }),
+        (d, frame) => d.update(frame.results, frame.nowMs),
+      ),
+  },
+  {
+    id: 'posture',
+    label: 'Slouching',
+    priority: 20,
+    requiresReference: true,
+    tunable: true,
+    create: (level) => {
+      const posture = new PostureDeviation(POSTURE_PRESETS[level])
+      return {
+        ...adaptDetector(posture, (d, frame) =>
+          frame.reference ? d.update(frame.results, frame.reference, frame.nowMs) : null,
+        ),
+        postureSample: () => {
+          const score = posture.getLastScore()
+          return score ? { score: score.overall, deviated: posture.isDeviated() } : null
+        },
+      }
+    },
+  },
+  {
+    id: 'forward-head',
+    label: 'Head forward',
+    priority: 30,
+    requiresReference: true,
+    tunable: true,
+    create: (level) =>
+      adaptDetector(new ForwardHeadPosture(FORWARD_HEAD_PRESETS[level]), (d, frame) =>
+        frame.reference ? d.update(frame.results, frame.reference, frame.nowMs) : null,
+      ),
+  },
+  {
+    id: 'lean',
+    label: 'Leaning sideways',
+    priority: 40,
+    requiresReference: true,
+    tunable: true,
+    create: (level) =>
+      adaptDetector(new LateralLean(LEAN_PRESETS[level]), (d, frame) =>
+        frame.reference ? d.update(frame.results, frame.reference, frame.nowMs) : null,
+      ),
+  },
+  {
+    id: 'screen-distance',
+    label: 'Too close to the screen',
+    priority: 50,
+    requiresReference: true,
+    tunable: false,
+    create: () =>
+      adaptDetector(new ScreenDistance({ tooCloseMs: screenDistanceDelayMs }), (d, frame) =>
+        frame.reference ? d.update(frame.results, frame.reference, frame.nowMs) : null,
+      ),
+  },
+  {
+    id: 'blink',
+    label: 'Low blink rate',
+    priority: 60,
+    requiresReference: false,
+    tunable: false,
+    create: () =>
+      adaptDetector(new BlinkRateMonitor(), (d, frame) => d.update(frame.results, frame.nowMs)),
+  },
+  {
+    id: 'break-reminder',
+    label: 'Break reminders',
+    priority: 70,
+    requiresReference: false,
+    tunable: false,
+    // The shared tracker is updated every frame outside the registry (sitting time stays
+    // continuous through capture and with reminders off); the entry only raises its alert,
+    // and registry resets leave the sitting time alone (see stopDetection).
+    create: (): AlertDetector => ({
+      update: () => pendingBreakReminder,
+      reset: () => {
+        pendingBreakReminder = null
+      },
+      acknowledge: () => presenceTracker.acknowledge(),
+    }),
+  },
+  {
+    id: 'custom-rules',
+    label: 'Custom rules',
+    priority: 80,
+    requiresReference: false,
+    tunable: false,
+    create: () =>
+      adaptDetector(new CustomRuleDetector(customRules), (d, frame) =>
+        d.update(frame.results, frame.nowMs),
+      ),
+  },
+]
+
+/** Existing sensitivity keys are kept so saved settings survive; newer detectors use their id. */
+function sensitivityStorageKey(id: string): string {
+  if (id === 'hands-near-face') return STORAGE_KEY_FACE_TOUCH_SENS
+  if (id === 'posture') return STORAGE_KEY_POSTURE_SENS
+  return `posturelens.sensitivity.${id}`
+}
+
+/** Every detector setting: persisted in localStorage and embedded in session recordings. */
+type DetectorSettings = {
+  detectors: Array<{ id: string; enabled: boolean; level: SensitivityLevel }>
+  faceZones: FaceZone[]
+  screenDistanceDelayMs: number
+  sitLimitMs: number
+  breakAfterAbsentMs: number
+  customRules: CustomRule[]
+}
+
+function loadPersistedDetectorSettings(): DetectorSettings {
+  const disabled = parseDisabledDetectors(localStorage.getItem(STORAGE_KEY_DISABLED_DETECTORS))
+
+  return {
+    detectors: DETECTORS.map((definition) => {
+      // Reference-based checks used to share the posture setting; start them from it.
+      const saved =
+        localStorage.getItem(sensitivityStorageKey(definition.id)) ??
+        (definition.requiresReference ? localStorage.getItem(STORAGE_KEY_POSTURE_SENS) : null)
+      return {
+        id: definition.id,
+        enabled: !disabled.includes(definition.id),
+        level: parseSensitivityLevel(saved),
+      }
+    }),
+    faceZones: parseFaceZones(localStorage.getItem(STORAGE_KEY_FACE_ZONES)),
+    screenDistanceDelayMs: parseDurationChoice(
+      localStorage.getItem(STORAGE_KEY_SCREEN_DISTANCE_DELAY),
+      SCREEN_DISTANCE_DELAYS_MS,
+      DEFAULT_SCREEN_DISTANCE_DELAY_MS,
+    ),
+    sitLimitMs: parseDurationChoice(
+      localStorage.getItem(STORAGE_KEY_BREAK_SIT_LIMIT),
+      BREAK_SIT_LIMITS_MS,
+      DEFAULT_BREAK_SIT_LIMIT_MS,
+    ),
+    breakAfterAbsentMs: parseDurationChoice(
+      localStorage.getItem(STORAGE_KEY_BREAK_ABSENCE),
+      BREAK_ABSENCES_MS,
+      DEFAULT_BREAK_ABSENCE_MS,
+    ),
+    customRules: parseRules(localStorage.getItem(STORAGE_KEY_CUSTOM_RULES) ?? '').rules,
+  }
+}
+
+/** Settings currently in effect (may differ from the persisted ones during a replay). */
+function getDetectorSettings(): DetectorSettings {
+  const presence = presenceTracker.getOptions()
+  return {
+    detectors: detectorRegistry.list().map(({ id, enabled, level }) => ({ id, enabled, level })),
+    faceZones: [...faceZones],
+    screenDistanceDelayMs,
+    sitLimitMs: presence.sitLimitMs,
+    breakAfterAbsentMs: presence.breakAfterAbsentMs,
+    customRules,
+  }
+}
+
+/** Validates settings from a recording; anything missing or malformed keeps the persisted value. */
+function parseDetectorSettings(raw: unknown): DetectorSettings {
+  const fallback = loadPersistedDetectorSettings()
+  if (!raw || typeof raw !== 'object') return fallback
+
+  const r = raw as Partial<Record<keyof DetectorSettings, unknown>>
+  const isDuration = (v: unknown): v is number => typeof v === 'number' && v > 0
+  const detectors = Array.isArray(r.detectors)
+    ? r.detectors
+        .filter((d): d is Record<string, unknown> => !!d && typeof d === 'object')
+        .map((d) => ({
+          id: String(d.id),
+          enabled: d.enabled !== false,
+          level: parseSensitivityLevel(typeof d.level === 'string' ? d.level : null),
+        }))
+    : fallback.detectors
+
+  return {
+    detectors,
+    faceZones: Array.isArray(r.faceZones)
+      ? FACE_ZONES.filter((zone) => (r.faceZones as unknown[]).includes(zone))
+      : fallback.faceZones,
+    screenDistanceDelayMs: isDuration(r.screenDistanceDelayMs)
+      ? r.screenDistanceDelayMs
+      : fallback.screenDistanceDelayMs,
+    sitLimitMs: isDuration(r.sitLimitMs) ? r.sitLimitMs : fallback.sitLimitMs,
+    breakAfterAbsentMs: isDuration(r.breakAfterAbsentMs)
+      ? r.breakAfterAbsentMs
+      : fallback.breakAfterAbsentMs,
+    customRules: Array.isArray(r.customRules)
+      ? parseRules(JSON.stringify(r.customRules)).rules
+      : fallback.customRules,
+  }
+}
+
+/** Applies settings to the registry and the detectors' shared options (not persisted). */
+function applyDetectorSettings(settings: DetectorSettings): void {
+  faceZones = settings.faceZones
+  screenDistanceDelayMs = settings.screenDistanceDelayMs
+  customRules = settings.customRules
+  presenceTracker.setOptions({
+    sitLimitMs: settings.sitLimitMs,
+    breakAfterAbsentMs: settings.breakAfterAbsentMs,
+  })
+
+  // Recreating every detector picks up the shared options above.
+  for (const detector of detectorRegistry.list()) {
+    const saved = settings.detectors.find((d) => d.id === detector.id)
+    detectorRegistry.setEnabled(detector.id, saved?.enabled ?? detector.enabled)
+    detectorRegistry.setSensitivity(detector.id, saved?.level ?? detector.level)
+  }
+}
+
+/**
+ * Restores per-type alert policies and the global spacing, and renders their controls.
+ * Needs the alert engine and the registered detectors.
+ */
+function setupAlertPolicies(): void {
+  const engine = alertEngine
+  if (!engine) return
+
+  const saved = parseAlertPolicies(localStorage.getItem(STORAGE_KEY_ALERT_POLICIES))
+  for (const [type, policy] of Object.entries(saved)) engine.setPolicy(type, policy)
+
+  bindDurationSelect(
+    'alert-spacing',
+    STORAGE_KEY_ALERT_SPACING,
+    ALERT_SPACINGS_MS,
+    DEFAULT_ALERT_SPACING_MS,
+    (ms) => engine.setMinSpacingMs(ms),
+  )
+
+  setupSystemNotifications(engine)
+
+  const container = document.getElementById('alert-policies')
+  if (!container) return
+
+  const types = [
+    ...detectorRegistry.list().map((d) => ({ type: d.id, label: d.label })),
+    { type: CAMERA_SHIFT_ALERT_TYPE, label: CAMERA_SHIFT_ALERT_LABEL },
+  ]
+  renderAlertPolicies(
+    container,
+    types.map((t) => ({
+      ...t,
+      policy: engine.getPolicy(t.type),
+      escalates: t.type === POSTURE_ALERT_TYPE,
+    })),
+    ALERT_COOLDOWNS_MS,
+    (type, patch) => {
+      engine.setPolicy(type, patch)
+      saved[type] = { ...saved[type], ...patch }
+      localStorage.setItem(STORAGE_KEY_ALERT_POLICIES, JSON.stringify(saved))
+    },
+  )
+}
+
+/**
+ * Binds the background-notification toggle. Turning it on asks for permission first; the
+ * toggle only stays on (and persisted) once the browser grants it.
+ */
+function setupSystemNotifications(engine: AlertEngine): void {
+  const toggle = document.getElementById('system-notifications') as HTMLInputElement | null
+  const status = document.getElementById('system-notifications-status')
+  if (!toggle || !status) return
+
+  if (typeof Notification === 'undefined') {
+    toggle.disabled = true
+    status.textContent = 'Not supported in this browser'
+    return
+  }
+
+  const apply = (enabled: boolean) => {
+    toggle.checked = enabled
+    engine.setNotificationsEnabled(enabled)
+    localStorage.setItem(STORAGE_KEY_ALERT_NOTIFICATIONS, enabled ? 'on' : 'off')
+    if (Notification.permission === 'denied') {
+      status.textContent =
+        'Blocked \u2014 allow notifications for this site in the browser settings'
+    } else {
+      status.textContent = enabled ? 'Alerts show as notifications while the tab is hidden' : ''
+    }
+  }
+
+  // Permission can be revoked between visits.
+  const saved = localStorage.getItem(STORAGE_KEY_ALERT_NOTIFICATIONS) === 'on'
+  apply(saved && Notification.permission === 'granted')
+
+  toggle.addEventListener('change', async () => {
+    if (!toggle.checked) {
+      apply(false)
+      return
+    }
+    let permission = Notification.permission
+    if (permission === 'default') {
+      try {
+        permission = await Notification.requestPermission()
+      } catch (error) {
+        console.warn('[PostureLens] Notification permission request failed:', error)
+      }
+    }
+    apply(permission === 'granted')
+  })
+
+  // Back in front: the in-page effects take over again.
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') engine.clearNotification()
+  })
+}
+
+/** New quiet hours start as weeknights, 22:00 to 07:00. */
+const DEFAULT_QUIET_HOURS: QuietHoursRule = {
+  days: [1, 2, 3, 4, 5],
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+}
+
+/** Parses the persisted quiet-hours list. */
+function loadQuietHours(): QuietHoursRule[] {
+  try {
+    return parseQuietHours(JSON.parse(localStorage.getItem(STORAGE_KEY_QUIET_HOURS) ?? '[]'))
+  } catch {
+    return []
+  }
+}
+
+function syncAlertStatus(): void {
+  const suppression = alertEngine?.getSuppression() ?? null
+  updateAlertStatus(suppression)
+  const resumeBtn = document.getElementById('snooze-resume')
+  if (resumeBtn) resumeBtn.hidden = suppression?.reason !== 'snooze'
+}
+
+/**
+ * Restores the snooze and quiet hours and binds their controls. Silenced alerts are not
+ * raised at all, while detection and history recording carry on.
+ */
+function setupAlertSilencing(engine: AlertEngine): void {
+  const snoozedUntil = Number(localStorage.getItem(STORAGE_KEY_ALERT_SNOOZE))
+  if (snoozedUntil > Date.now()) engine.snooze(snoozedUntil)
+
+  const snooze = (untilMs: number | null) => {
+    engine.snooze(untilMs)
+    if (untilMs === null) localStorage.removeItem(STORAGE_KEY_ALERT_SNOOZE)
+    else localStorage.setItem(STORAGE_KEY_ALERT_SNOOZE, String(untilMs))
+    console.info(
+      untilMs === null
+        ? '[PostureLens] Alerts resumed'
+        : `[PostureLens] Alerts snoozed until ${new Date(untilMs).toLocaleTimeString()}`,
+    )
+    syncAlertStatus()
+  }
+  for (const btn of document.querySelectorAll<HTMLButtonElement>('[data-snooze]')) {
+    const choice = btn.dataset.snooze as SnoozeChoice
+    if (!SNOOZE_CHOICES.includes(choice)) continue
+    btn.addEventListener('click', () => snooze(snoozeEnd(choice, Date.now())))
+  }
+  document.getElementById('snooze-resume')?.addEventListener('click', () => snooze(null))
+
+  let quietHours = loadQuietHours()
+  engine.setQuietHours(quietHours)
+  const saveQuietHours = (rules: QuietHoursRule[]) => {
+    quietHours = rules
+    engine.setQuietHours(rules)
+    localStorage.setItem(STORAGE_KEY_QUIET_HOURS, JSON.stringify(rules))
+    syncAlertStatus()
+  }
+
+  const container = document.getElementById('quiet-hours')
+  if (container) {
+    renderQuietHours(container, quietHours, saveQuietHours)
+    document.getElementById('quiet-hours-add')?.addEventListener('click', () => {
+      saveQuietHours([...quietHours, { ...DEFAULT_QUIET_HOURS }])
+      renderQuietHours(container, quietHours, saveQuietHours)
+    })
+  }
+
+  // Snoozes run out and quiet hours begin on their own.
+  syncAlertStatus()
+  window.setInterval(syncAlertStatus, 15_000)
+}
+
+/**
+ * Registers the built-in detectors with their persisted settings and renders the
+ * generated enable/sensitivity controls.
+ */
+function setupDetectors(): void {
+  for (const definition of DETECTORS) detectorRegistry.register(definition)
+  applyDetectorSettings(loadPersistedDetectorSettings())
+  setupAlertPolicies()
+
+  const container = document.getElementById('detector-settings')
+  if (container) {
+    renderDetectorSettings(
+      container,
+      detectorRegistry.list(),
+      (id, enabled) => {
+        detectorRegistry.setEnabled(id, enabled)
+        const disabled = detectorRegistry
+          .list()
+          .filter((d) => !d.enabled)
+          .map((d) => d.id)
+        localStorage.setItem(STORAGE_KEY_DISABLED_DETECTORS, JSON.stringify(disabled))
+      },
+      (id, level) => {
+        detectorRegistry.setSensitivity(id, level)
+        localStorage.setItem(sensitivityStorageKey(id), level)
+      },
+    )
+  }
+
+  const faceZoneInputs = Array.from(
+    document.querySelectorAll<HTMLInputElement>('#face-zones input[type="checkbox"]'),
+  )
+  for (const input of faceZoneInputs) {
+    input.checked = faceZones.includes(input.value as FaceZone)
+    input.addEventListener('change', () => {
+      faceZones = FACE_ZONES.filter((zone) =>
+        faceZoneInputs.some((i) => i.checked && i.value === zone),
+      )
+      localStorage.setItem(STORAGE_KEY_FACE_ZONES, JSON.stringify(faceZones))
+      detectorRegistry.rebuild('hands-near-face')
+    })
+  }
+
+  bindDurationSelect(
+    'screen-distance-delay',
+    STORAGE_KEY_SCREEN_DISTANCE_DELAY,
+    SCREEN_DISTANCE_DELAYS_MS,
+    DEFAULT_SCREEN_DISTANCE_DELAY_MS,
+    (ms) => {
+      screenDistanceDelayMs = ms
+      detectorRegistry.rebuild('screen-distance')
+    },
+  )
+  bindDurationSelect(
+    'break-reminder-after',
+    STORAGE_KEY_BREAK_SIT_LIMIT,
+    BREAK_SIT_LIMITS_MS,
+    DEFAULT_BREAK_SIT_LIMIT_MS,
+    (ms) => presenceTracker.setOptions({ sitLimitMs: ms }),
+  )
+  bindDurationSelect(
+    'break-absence',
+    STORAGE_KEY_BREAK_ABSENCE,
+    BREAK_ABSENCES_MS,
+    DEFAULT_BREAK_ABSENCE_MS,
+    (ms) => presenceTracker.setOptions({ breakAfterAbsentMs: ms }),
+  )
+  bindDurationSelect(
+    'background-interval',
+    STORAGE_KEY_BACKGROUND_INTERVAL,
+    BACKGROUND_INTERVALS_MS,
+    DEFAULT_BACKGROUND_INTERVAL_MS,
+    (ms) => {
+      backgroundIntervalMs = ms
+      frameScheduler?.setBackgroundIntervalMs(ms)
+    },
+  )
+
+  setupRuleEditor()
+}
+
+/** Wires the custom-rule editor: rules only replace the active set once they validate. */
+function setupRuleEditor(): void {
+  const input = document.getElementById('custom-rules-input') as HTMLTextAreaElement | null
+  const saveBtn = document.getElementById('custom-rules-save')
+  if (!input || !saveBtn) return
+
+  input.value = localStorage.getItem(STORAGE_KEY_CUSTOM_RULES) ?? ''
+  if (customRules.length) showRuleEditorStatus(`${customRules.length} rule(s) active`, false)
+
+  saveBtn.addEventListener('click', () => {
+    const { rules, errors } = parseRules(input.value)
+    if (errors.length) {
+      showRuleEditorStatus(errors.join('\n'), true)
+      return
+    }
+
+    customRules = rules
+    localStorage.setItem(STORAGE_KEY_CUSTOM_RULES, input.value)
+    detectorRegistry.rebuild('custom-rules')
+    showRuleEditorStatus(rules.length ? `${rules.length} rule(s) active` : 'No custom rules', false)
+    console.info(`[CustomRules] ${rules.length} rule(s) loaded`)
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Reference profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Resets detectors whose state is relative to the current reference (after it changes).
+ */
+function resetReferenceDetectors(): void {
+  detectorRegistry.reset({ referenceOnly: true })
+  resetCameraShift()
+}
+
+function resetCameraShift(): void {
+  cameraShift.reset()
+  hideCameraMovedPrompt()
+  cameraMovedPromptVisible = false
+}
+
+/** Re-renders the profile picker from IndexedDB, selecting the active profile */
+async function refreshProfilePicker(): Promise<void> {
+  const select = document.getElementById('profile-select') as HTMLSelectElement | null
+  if (!select) return
+
+  const profiles = await listProfiles()
+  renderProfilePicker(select, profiles, activeProfileId)
+}
+
+/**
+ * Makes a profile the one posture detection runs against.
+ * Posture smoothing is reset because the previous reference no longer applies.
+ */
+function applyActiveProfile(
+  profile: ReferenceProfile,
+  captureBtn: HTMLButtonElement | null,
+  startBtn: HTMLButtonElement | null,
+): void {
+  activeProfileId = profile.id
+  currentReference = profile.pose
+  resetReferenceDetectors()
+  updateReferenceStatus(currentReference)
+
+  if (captureBtn) {
+    captureBtn.textContent = currentReference ? 'Recapture Pose' : 'Capture Reference Pose'
+  }
+  if (startBtn) syncStartButton(startBtn, detectionLoopRunning, !!currentReference)
+}
+
+function setupProfileControls(
+  captureBtn: HTMLButtonElement | null,
+  startBtn: HTMLButtonElement | null,
+): void {
+  const select = document.getElementById('profile-select') as HTMLSelectElement | null
+  const newBtn = document.getElementById('profile-new-btn')
+  const renameBtn = document.getElementById('profile-rename-btn')
+  const deleteBtn = document.getElementById('profile-delete-btn')
+
+  if (!select) return
+
+  const switchTo = async (id: string) => {
+    await setActiveProfile(id)
+    const profiles = await listProfiles()
+    const profile = profiles.find((p) => p.id === id)
+    if (!profile) return
+    applyActiveProfile(profile, captureBtn, startBtn)
+    renderProfilePicker(select, profiles, activeProfileId)
+    console.info(`[PostureLens] Active profile: ${profile.name}`)
+  }
+
+  select.addEventListener('change', async () => {
+    if (getIsCapturing()) {
+      showErrorToast('Cannot switch profile during capture')
+      if (activeProfileId) select.value = activeProfileId
+      return
+    }
+
+    try {
+      await switchTo(select.value)
+    } catch (error) {
+      console.error('[PostureLens] Failed to switch profile:', error)
+      showErrorToast('Failed to switch profile')
+    }
+  })
+
+  newBtn?.addEventListener('click', async () => {
+    if (getIsCapturing()) return
+    const name = window.prompt('Profile name (e.g. Sitting, Standing, Laptop only)')
+    if (!name?.trim()) return
+
+    try {
+      const profile = await createProfile(name)
+      await switchTo(profile.id)
+      showSuccessToast(`Profile "${profile.name}" created \u2014 capture a reference pose`)
+    } catch (error) {
+      console.error('[PostureLens] Failed to create profile:', error)
+      showErrorToast('Failed to create profile')
+    }
+  })
+
+  renameBtn?.addEventListener('click', async () => {
+    if (!activeProfileId) return
+    const current = select.selectedOptions[0]?.textContent ?? ''
+    const name = window.prompt('Rename profile', current.replace(/ \(not captured\)$/, ''))
+    if (!name?.trim()) return
+
+    try {
+      await renameProfile(activeProfileId, name)
+      await refreshProfilePicker()
+    } catch (error) {
+      console.error('[PostureLens] Failed to rename profile:', error)
+      showErrorToast('Failed to rename profile')
+    }
+  })
+
+  deleteBtn?.addEventListener('click', async () => {
+    if (!activeProfileId || getIsCapturing()) return
+
+    try {
+      const profiles = await listProfiles()
+      if (profiles.length <= 1) {
+        showErrorToast('Cannot delete the only profile')
+        return
+      }
+
+      const profile = profiles.find((p) => p.id === activeProfileId)
+      if (!window.confirm(`Delete profile "${profile?.name ?? ''}" and its reference pose?`)) {
+        return
+      }
+
+      await deleteProfile(activeProfileId)
+      const next = await ensureActiveProfile()
+      await switchTo(next.id)
+    } catch (error) {
+      console.error('[PostureLens] Failed to delete profile:', error)
+      showErrorToast('Failed to delete profile')
+    }
+  })
 }
 
 // ---------------------------------------------------------------------------
@@ -128,6 +1009,18 @@ async function setupWebcam(): Promise<HTMLVideoElement> {
     throw new Error('Video preview element not found')
   }
 
+  if (syntheticSource) {
+    videoPreview.srcObject = syntheticSource.getPreviewStream()
+    console.info('[PostureLens] Synthetic preview stream attached')
+    return videoPreview
+  }
+
+  if (videoFileSource) {
+    await loadVideoFile(videoPreview, videoFileSource.url)
+    console.info(`[PostureLens] Video file attached: ${videoFileSource.name}`)
+    return videoPreview
+  }
+
   try {
     const stream = await navigator.mediaDevices.getUserMedia({
       video: { width: 640, height: 480, facingMode: 'user' },
@@ -143,11 +1036,586 @@ async function setupWebcam(): Promise<HTMLVideoElement> {
   }
 }
 
+/** Plays a video file in the preview element; resolves once the first frame is decodable. */
+async function loadVideoFile(video: HTMLVideoElement, url: string): Promise<void> {
+  video.srcObject = null
+  video.muted = true
+  video.loop = videoFileLoop
+
+  // Restarting the same file resumes where it was paused.
+  if (video.src !== new URL(url, window.location.href).href) {
+    video.src = url
+  }
+
+  if (video.readyState < 2) {
+    await new Promise<void>((resolve, reject) => {
+      video.addEventListener('loadeddata', () => resolve(), { once: true })
+      video.addEventListener(
+        'error',
+        () => reject(new Error('Failed to load video file. Is it a format the browser can play?')),
+        { once: true },
+      )
+    })
+  }
+
+  await video.play()
+}
+
+/** Drops the video-file source so the next setupWebcam() uses the camera again. */
+function clearVideoFileSource(video: HTMLVideoElement): void {
+  if (!videoFileSource) return
+
+  if (videoFileSource.isObjectUrl) URL.revokeObjectURL(videoFileSource.url)
+  videoFileSource = null
+  video.pause()
+  video.removeAttribute('src')
+  video.load()
+}
+
+function videoFileSourceFromUrl(): typeof videoFileSource {
+  const url = new URLSearchParams(window.location.search).get('video')
+  if (!url) return null
+  return { url, name: url.split('/').pop() || url, isObjectUrl: false }
+}
+
+/**
+ * Wires the input-source controls: pick a local video file (or switch back to the webcam),
+ * plus loop, play/pause and frame stepping for the file. `switchSource` restarts detection
+ * on whatever setupWebcam() now provides.
+ */
+function setupVideoFileControls(video: HTMLVideoElement, switchSource: () => Promise<void>): void {
+  const fileInput = document.getElementById('video-file-input') as HTMLInputElement | null
+  const webcamBtn = document.getElementById('use-webcam-btn')
+  const playBtn = document.getElementById('video-file-play-btn')
+  const stepBackBtn = document.getElementById('video-file-step-back')
+  const stepForwardBtn = document.getElementById('video-file-step-forward')
+  const loopInput = document.getElementById('video-file-loop') as HTMLInputElement | null
+
+  const sync = () => {
+    if (!videoFileSource) return
+    updateVideoFileControls(video.currentTime, video.duration, !video.paused)
+  }
+  for (const event of ['timeupdate', 'play', 'pause', 'seeked', 'loadedmetadata']) {
+    video.addEventListener(event, sync)
+  }
+
+  showVideoFileControls(videoFileSource?.name ?? null)
+
+  fileInput?.addEventListener('change', async () => {
+    const file = fileInput.files?.[0]
+    fileInput.value = ''
+    if (!file) return
+
+    clearVideoFileSource(video)
+    videoFileSource = { url: URL.createObjectURL(file), name: file.name, isObjectUrl: true }
+    showVideoFileControls(file.name)
+    await switchSource()
+  })
+
+  webcamBtn?.addEventListener('click', async () => {
+    clearVideoFileSource(video)
+    showVideoFileControls(null)
+    await switchSource()
+  })
+
+  playBtn?.addEventListener('click', () => {
+    if (!videoFileSource) return
+    if (video.paused) void video.play()
+    else video.pause()
+  })
+
+  const step = (frames: number) => {
+    if (!videoFileSource) return
+    video.pause()
+    const duration = Number.isFinite(video.duration) ? video.duration : video.currentTime
+    video.currentTime = Math.max(0, Math.min(duration, video.currentTime + frames * VIDEO_FRAME_S))
+  }
+  stepBackBtn?.addEventListener('click', () => step(-1))
+  stepForwardBtn?.addEventListener('click', () => step(1))
+
+  if (loopInput) {
+    loopInput.checked = videoFileLoop
+    loopInput.addEventListener('change', () => {
+      videoFileLoop = loopInput.checked
+      video.loop = videoFileLoop
+    })
+  }
+}
+
+/**
+ * Scripted sessions for testing without a webcam: `?synthetic=slouch` (see SYNTHETIC_SCENARIOS
+ * for ids), optionally with `&seed=<n>` for a different noise sequence.
+ */
+function createSyntheticSourceFromUrl(): SyntheticPoseSource | null {
+  const params = new URLSearchParams(window.location.search)
+  const id = params.get('synthetic')
+  if (id === null) return null
+
+  const scenario = SYNTHETIC_SCENARIOS.find((s) => s.id === id)
+  if (!scenario) {
+    const ids = SYNTHETIC_SCENARIOS.map((s) => s.id).join(', ')
+    console.warn(`[PostureLens] Unknown synthetic scenario "${id}" (available: ${ids})`)
+    return null
+  }
+
+  const seed = Number(params.get('seed'))
+  return new SyntheticPoseSource(scenario, Number.isInteger(seed) && seed > 0 ? { seed } : {})
+}
+
+// ---------------------------------------------------------------------------
+// Camera moved
+// ---------------------------------------------------------------------------
+
+/**
+ * Shows the camera-moved prompt while a shift is confirmed, hides it once resolved, and
+ * restarts the reference detectors on either change.
+ */
+function syncCameraMovedPrompt(): void {
+  const shifted = cameraShift.isShifted()
+  if (shifted === cameraMovedPromptVisible) return
+
+  cameraMovedPromptVisible = shifted
+  // Reference detectors are skipped while shifted; timers from before the pause would
+  // otherwise fire on the first frame after it.
+  detectorRegistry.reset({ referenceOnly: true })
+  if (!shifted) {
+    hideCameraMovedPrompt()
+    return
+  }
+
+  showCameraMovedPrompt(
+    () => {
+      void reanchorCurrentReference()
+    },
+    () => {
+      // Capture resets the camera-shift state once the new reference is in place.
+      document.getElementById('capture-btn')?.click()
+    },
+  )
+}
+
+/** Moves the current reference into the new camera framing and persists it. */
+async function reanchorCurrentReference(): Promise<void> {
+  const shift = cameraShift.getShift()
+  // During a replay the shift belongs to the recorded framing, not the live camera.
+  if (!currentReference || !shift || sessionReplay) return
+
+  const profileId = activeProfileId
+  const reanchored = reanchorReference(currentReference, shift)
+
+  try {
+    await saveReference(reanchored, profileId ?? undefined)
+  } catch (error) {
+    console.error('[PostureLens] Failed to save re-anchored reference:', error)
+    showErrorToast('Failed to save reference')
+    return
+  }
+
+  if (profileId !== activeProfileId) return
+
+  currentReference = reanchored
+  resetReferenceDetectors()
+  updateReferenceStatus(reanchored)
+  await refreshProfilePicker()
+  showSuccessToast('Reference re-anchored to the new camera position')
+}
+
+// ---------------------------------------------------------------------------
+// Session recording & replay
+// ---------------------------------------------------------------------------
+
+const sessionRecorder = new SessionRecorder()
+let sessionReplay: SessionReplay | null = null
+/** Judges the replay on its own clock, apart from the live engine's cooldowns and episodes */
+let replayAlertEngine: AlertEngine | null = null
+
+function sessionFilename(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `posturelens-session-${day}-${time}.jsonl`
+}
+
+/**
+ * Wires recording (landmarks + reference + detector settings, downloaded as JSONL) and
+ * replay of a recorded file. `stopLiveDetection` releases the webcam so the replay is the
+ * only source feeding onDetectorResults.
+ */
+function setupSessionTools(stopLiveDetection: () => void): void {
+  const recordBtn = document.getElementById('record-btn') as HTMLButtonElement | null
+  const fileInput = document.getElementById('replay-file') as HTMLInputElement | null
+  const playBtn = document.getElementById('replay-play-btn')
+  const seekInput = document.getElementById('replay-seek') as HTMLInputElement | null
+  const closeBtn = document.getElementById('replay-close-btn')
+
+  recordBtn?.addEventListener('click', () => {
+    if (sessionRecorder.isRecording()) {
+      const frameCount = sessionRecorder.getFrameCount()
+      downloadTextFile(sessionFilename(new Date()), sessionRecorder.stop())
+      setRecordButtonState(recordBtn, false)
+      showSuccessToast(`Recording saved (${frameCount} frames)`)
+      return
+    }
+
+    if (!detectionLoopRunning) {
+      showErrorToast('Start monitoring before recording')
+      return
+    }
+
+    sessionRecorder.start(currentReference, getDetectorSettings())
+    setRecordButtonState(recordBtn, true)
+  })
+
+  fileInput?.addEventListener('change', async () => {
+    const file = fileInput.files?.[0]
+    fileInput.value = ''
+    if (!file) return
+
+    try {
+      startReplay(parseSession(await file.text()), stopLiveDetection)
+    } catch (error) {
+      console.error('[PostureLens] Failed to load recording:', error)
+      showErrorToast(
+        `Invalid recording: ${error instanceof Error ? error.message : 'unknown error'}`,
+      )
+    }
+  })
+
+  playBtn?.addEventListener('click', () => {
+    if (!sessionReplay) return
+    if (sessionReplay.isPlaying()) sessionReplay.pause()
+    else sessionReplay.play()
+  })
+
+  seekInput?.addEventListener('input', () => {
+    sessionReplay?.seek(Number(seekInput.value))
+  })
+
+  closeBtn?.addEventListener('click', () => {
+    closeReplay()
+    updateStatusDisplay('Replay closed \u2014 start monitoring to resume')
+  })
+}
+
+/**
+ * Alert engine for a replay: the live policies and spacing, timed by the replay position and
+ * never snoozed or in quiet hours (those follow the wall clock).
+ */
+function createReplayAlertEngine(replay: SessionReplay): AlertEngine {
+  const live = alertEngine
+  const types = [...detectorRegistry.list().map((d) => d.id), CAMERA_SHIFT_ALERT_TYPE]
+  return new AlertEngine({
+    showToast: showAlertToast,
+    showBanner: showEscalationBanner,
+    minSpacingMs: live?.getMinSpacingMs(),
+    typeDefaults: live ? Object.fromEntries(types.map((t) => [t, live.getPolicy(t)])) : {},
+    now: () => replay.getPositionMs(),
+  })
+}
+
+function resetDetectorsForReplay(): void {
+  detectorRegistry.reset()
+  detectorRegistry.resetAlertCounts()
+  resetCameraShift()
+  _cameraShiftAlertCount = 0
+
+  // Cooldowns and episodes from before a seek would span the jump. Ending the old engine's
+  // episodes takes down the escalation banner and ambient glow it may be showing.
+  replayAlertEngine?.resetEscalations()
+  replayAlertEngine = sessionReplay ? createReplayAlertEngine(sessionReplay) : null
+}
+
+/** Replaces the webcam with a recorded session, using the settings it was recorded with. */
+function startReplay(session: RecordedSession, stopLiveDetection: () => void): void {
+  if (sessionRecorder.isRecording()) {
+    showErrorToast('Stop recording before replaying a session')
+    return
+  }
+
+  closeReplay()
+  if (detectionLoopRunning) stopLiveDetection()
+
+  applyDetectorSettings(parseDetectorSettings(session.header.settings))
+
+  sessionReplay = new SessionReplay(session, {
+    onFrame: onDetectorResults,
+    // Detector timers from before the jump would span the skipped section.
+    onSeek: resetDetectorsForReplay,
+    onProgress: (positionMs, playing) =>
+      updateReplayControls(positionMs, session.durationMs, playing),
+  })
+
+  resetDetectorsForReplay()
+
+  showReplayControls(true)
+  updateStatusDisplay('Replaying recording')
+  console.info(
+    `[PostureLens] Replaying ${session.frames.length} frames (${(session.durationMs / 1000).toFixed(1)}s)`,
+  )
+  sessionReplay.play()
+}
+
+/** Stops any replay and restores the persisted detector settings. */
+function closeReplay(): void {
+  if (!sessionReplay) return
+
+  sessionReplay.pause()
+  sessionReplay = null
+
+  applyDetectorSettings(loadPersistedDetectorSettings())
+  resetDetectorsForReplay()
+  showReplayControls(false)
+  resetDetectionStatus()
+  if (detectionCtx) {
+    detectionCtx.clearRect(0, 0, detectionCtx.canvas.width, detectionCtx.canvas.height)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Posture history
+// ---------------------------------------------------------------------------
+
+const historyAggregator = new HistoryAggregator()
+
+/** Only live camera monitoring goes into history (not replays, synthetic or video files). */
+function isRecordingHistory(): boolean {
+  return !sessionReplay && !syntheticSource && !videoFileSource
+}
+
+function persistHistory(minutes: HistoryMinute[]): Promise<void> {
+  return saveHistoryMinutes(minutes).catch((error) => {
+    console.warn('[History] Failed to save minutes:', error)
+  })
+}
+
+/** Saves the partial current minute too (monitoring stopped or the page is going away). */
+function flushHistory(): void {
+  historyAggregator.pause()
+  void persistHistory(historyAggregator.flush())
+}
+
+// ---------------------------------------------------------------------------
+// Dashboard
+// ---------------------------------------------------------------------------
+
+const DASHBOARD_REFRESH_MS = 60_000
+const ALERT_TYPE_LABELS: Record<string, string> = {
+  [CAMERA_SHIFT_ALERT_TYPE]: CAMERA_SHIFT_ALERT_LABEL,
+}
+
+let dashboardRange: DashboardRange = 'day'
+let dashboardAnchorMs = Date.now()
+let dashboardRefreshId: number | null = null
+
+function dashboardTitle(range: DashboardRange, bounds: RangeBounds): string {
+  const start = new Date(bounds.startMs)
+  if (range === 'day') {
+    return start.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })
+  }
+  return `Week of ${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`
+}
+
+/** Saves the current partial minute, then redraws from IndexedDB. */
+async function refreshDashboard(): Promise<void> {
+  await persistHistory(historyAggregator.flush())
+
+  const bounds = rangeBounds(dashboardRange, dashboardAnchorMs)
+  const minutes = await loadHistory(bounds.startMs, bounds.endMs - 1)
+
+  const alertLabels = { ...ALERT_TYPE_LABELS }
+  for (const detector of detectorRegistry.list()) alertLabels[detector.id] = detector.label
+
+  renderDashboard({
+    title: dashboardTitle(dashboardRange, bounds),
+    range: dashboardRange,
+    bounds,
+    buckets: bucketHistory(minutes, bounds.startMs, bounds.endMs, bounds.bucketMs),
+    summary: summarizeHistory(minutes),
+    heatmap: hourHeatmap(minutes, bounds.dayStarts),
+    alertLabels,
+    liveScore: detectionLoopRunning ? (detectorRegistry.postureSample()?.score ?? null) : null,
+  })
+}
+
+function setDashboardVisible(visible: boolean): void {
+  const dashboardBtn = document.getElementById('dashboard-btn')
+  dashboardBtn?.setAttribute('aria-pressed', String(visible))
+  showDashboard(visible)
+
+  if (dashboardRefreshId !== null) {
+    clearInterval(dashboardRefreshId)
+    dashboardRefreshId = null
+  }
+  if (!visible) return
+
+  const refresh = () => {
+    refreshDashboard().catch((error) => {
+      console.error('[Dashboard] Failed to load history:', error)
+      showErrorToast('Could not load posture history')
+    })
+  }
+  refresh()
+  dashboardRefreshId = window.setInterval(refresh, DASHBOARD_REFRESH_MS)
+}
+
+function setupDashboard(): void {
+  const dashboardBtn = document.getElementById('dashboard-btn')
+  const dashboard = document.getElementById('dashboard')
+  dashboardBtn?.addEventListener('click', () => setDashboardVisible(dashboard?.hidden ?? false))
+
+  const navigate = (direction: -1 | 1) => {
+    dashboardAnchorMs = shiftAnchor(dashboardRange, dashboardAnchorMs, direction)
+    setDashboardVisible(true)
+  }
+  document.getElementById('dashboard-prev')?.addEventListener('click', () => navigate(-1))
+  document.getElementById('dashboard-next')?.addEventListener('click', () => navigate(1))
+
+  for (const btn of document.querySelectorAll<HTMLButtonElement>('[data-dashboard-range]')) {
+    btn.addEventListener('click', () => {
+      dashboardRange = btn.dataset.dashboardRange === 'week' ? 'week' : 'day'
+      setDashboardVisible(true)
+    })
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Posture widget (Picture-in-Picture)
+// ---------------------------------------------------------------------------
+
+const pipWidget = new PipWidget(() => {
+  alertEngine?.setFlashTarget(null)
+  syncPipButton()
+})
+
+function syncPipButton(): void {
+  document.getElementById('pip-btn')?.setAttribute('aria-pressed', String(pipWidget.isOpen()))
+}
+
+async function togglePipWidget(): Promise<void> {
+  if (pipWidget.isOpen()) {
+    pipWidget.close()
+    return
+  }
+
+  try {
+    await pipWidget.open()
+  } catch (error) {
+    console.warn('[PostureLens] Could not open the posture widget:', error)
+    showErrorToast('Could not open the posture widget')
+    return
+  }
+  // The page is usually out of sight while the widget is up: flash there instead.
+  alertEngine?.setFlashTarget((variant) => pipWidget.flash(variant))
+  syncPipButton()
+}
+
+function setupPipWidget(): void {
+  const pipBtn = document.getElementById('pip-btn')
+  if (!pipBtn || !pipSupport()) return
+  pipBtn.hidden = false
+  pipBtn.addEventListener('click', () => void togglePipWidget())
+}
+
+// ---------------------------------------------------------------------------
+// Data export & import
+// ---------------------------------------------------------------------------
+
+function exportFilename(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `posturelens-export-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`
+}
+
+async function exportLocalData(): Promise<void> {
+  const passphrase = window.prompt(
+    'Passphrase to encrypt the export (leave empty to export unencrypted)',
+    '',
+  )
+  if (passphrase === null) return
+
+  await persistHistory(historyAggregator.flush())
+  const data = await collectLocalData()
+  const now = new Date()
+  downloadTextFile(exportFilename(now), await buildExportFile(data, passphrase || undefined, now))
+  showSuccessToast(
+    `Exported ${data.profiles.length} profile(s) and ${data.history.length} minute(s) of history`,
+  )
+}
+
+/**
+ * Reads, decrypts and confirms an import, then stops monitoring (via `stopMonitoring`) and
+ * writes it. A cancelled prompt or an invalid file leaves monitoring running.
+ */
+async function importLocalDataFile(
+  file: File,
+  mode: ImportMode,
+  stopMonitoring: () => void,
+): Promise<boolean> {
+  const exported = parseExportFile(await file.text())
+
+  let data: LocalData
+  if ('encrypted' in exported) {
+    const passphrase = window.prompt('This export is encrypted. Passphrase:')
+    if (passphrase === null) return false
+    data = await decryptLocalData(exported.encrypted, passphrase)
+  } else {
+    data = exported.data
+  }
+
+  if (
+    mode === 'replace' &&
+    !window.confirm('Replace all profiles, settings and history in this browser with the import?')
+  ) {
+    return false
+  }
+
+  stopMonitoring()
+  await persistHistory(historyAggregator.flush())
+  await importLocalData(data, mode)
+  return true
+}
+
+/** Export/import buttons; an import reloads the app so every module picks up the new data. */
+function setupDataTransfer(stopLiveDetection: () => void): void {
+  const exportBtn = document.getElementById('export-data-btn')
+  const importInput = document.getElementById('import-data-file') as HTMLInputElement | null
+  const modeSelect = document.getElementById('import-mode') as HTMLSelectElement | null
+
+  exportBtn?.addEventListener('click', () => {
+    exportLocalData().catch((error) => {
+      console.error('[PostureLens] Failed to export data:', error)
+      showErrorToast('Failed to export local data')
+    })
+  })
+
+  importInput?.addEventListener('change', async () => {
+    const file = importInput.files?.[0]
+    importInput.value = ''
+    if (!file) return
+
+    const mode: ImportMode = modeSelect?.value === 'replace' ? 'replace' : 'merge'
+    try {
+      const imported = await importLocalDataFile(file, mode, () => {
+        closeReplay()
+        if (detectionLoopRunning) stopLiveDetection()
+      })
+      if (!imported) return
+      showSuccessToast('Data imported \u2014 reloading')
+      window.setTimeout(() => window.location.reload(), 1_000)
+    } catch (error) {
+      console.error('[PostureLens] Failed to import data:', error)
+      showErrorToast(error instanceof Error ? error.message : 'Failed to import data')
+    }
+  })
+}
+
 // ---------------------------------------------------------------------------
 // Detection loop
 // ---------------------------------------------------------------------------
 
-function onDetectorResults(results: Results): void {
+function onDetectorResults(results: Results, nowMs: number = performance.now()): void {
+  detectionRate.record(performance.now())
+  if (sessionRecorder.isRecording()) sessionRecorder.record(results, nowMs)
+
   if (modelSwitchPending) {
     modelSwitchPending = false
     if (modelSwitchOverlayTimeoutId !== null) {
@@ -164,7 +1632,7 @@ function onDetectorResults(results: Results): void {
 
   if (!firstDetectionReceived) {
     firstDetectionReceived = true
-    if (!getIsCapturing()) {
+    if (!getIsCapturing() && !sessionReplay) {
       updateStatusDisplay(
         currentReference ? 'Running' : 'Ready \u2014 capture a reference pose to begin',
       )
@@ -181,39 +1649,92 @@ function onDetectorResults(results: Results): void {
     `[Detector] Landmarks - Pose: ${poseLandmarks}, Left Hand: ${leftHandLandmarks}, Right Hand: ${rightHandLandmarks}, Face: ${faceLandmarks}`,
   )
 
-  // Collect triangle landmarks during capture
+  // Collect triangle + head landmarks + face size during capture
   if (getIsCapturing() && results.poseLandmarks) {
-    const triangle = extractTriangleLandmarks(results.poseLandmarks)
-    if (triangle) {
-      getCaptureBuffer().push(triangle)
+    const frame = extractCaptureFrame(results)
+    if (frame) {
+      getCaptureBuffer().push(frame)
     }
   }
 
+  // Presence runs regardless of capture/alert state so sitting time stays continuous. It
+  // tracks the live user only: replay frames run on the recording's clock.
+  if (!sessionReplay) {
+    pendingBreakReminder = presenceTracker.update(results, nowMs)
+    updateSittingStatus(presenceTracker.getSeatedMs())
+  } else {
+    pendingBreakReminder = null
+  }
+
+  const engine = sessionReplay ? replayAlertEngine : alertEngine
+
   // Alerts are active when we are not capturing.
-  // Hands-near-face does not require a reference.
-  if (!getIsCapturing() && alertEngine && !modelSwitchPending) {
-    // Hands-near-face is higher priority than posture, but we still update posture state
-    // every frame so it can build streak/smoothing even while proximity is active.
-    const proximityAlert = handFaceProximity.update(results)
-    const postureAlert = currentReference
-      ? postureDeviation.update(results, currentReference)
+  if (!getIsCapturing() && engine && !modelSwitchPending) {
+    // A replay is judged against the reference it was recorded with.
+    const monitoredReference = sessionReplay
+      ? sessionReplay.session.header.reference
+      : currentReference
+
+    // A moved camera invalidates the reference: pause reference-based detectors until the
+    // user re-anchors or recaptures (or the framing returns).
+    const cameraShiftAlert = monitoredReference
+      ? cameraShift.update(results, monitoredReference, nowMs)
       : null
+    syncCameraMovedPrompt()
+    const reference = cameraShift.isShifted() ? null : monitoredReference
+
+    // All enabled detectors update every frame; the alert engine raises at most one alert,
+    // picked by each type's policy (priority, cooldown).
+    const candidates: AlertRequest[] = detectorRegistry
+      .evaluate({ results, reference, nowMs })
+      .map((hit) => ({ type: hit.id, variant: hit.alert.variant, reason: hit.alert.reason }))
+    if (cameraShiftAlert) {
+      // Same list order as before the registry: right after hands-near-face.
+      const afterHandsNearFace = candidates.findIndex((c) => c.type !== 'hands-near-face')
+      candidates.splice(afterHandsNearFace < 0 ? candidates.length : afterHandsNearFace, 0, {
+        type: CAMERA_SHIFT_ALERT_TYPE,
+        variant: cameraShiftAlert.variant,
+        reason: cameraShiftAlert.reason,
+      })
+    }
 
-    if (proximityAlert) {
-      const fired = alertEngine.trigger(proximityAlert.variant, proximityAlert.reason)
-      if (fired) {
-        _handsNearFaceAlertCount++
-        handFaceProximity.acknowledge()
-      }
-    } else if (postureAlert) {
-      const fired = alertEngine.trigger(postureAlert.variant, postureAlert.reason)
-      if (fired) {
-        _postureAlertCount++
-        postureDeviation.acknowledge()
-      }
+    const fired = engine.triggerFirst(candidates)
+    const firedAlert = fired?.type ?? null
+    if (firedAlert === CAMERA_SHIFT_ALERT_TYPE) {
+      _cameraShiftAlertCount++
+      cameraShift.acknowledge()
+    } else if (firedAlert) {
+      detectorRegistry.acknowledge(firedAlert)
+    }
+
+    // The posture score is stale while reference detectors are paused.
+    const sample = reference ? detectorRegistry.postureSample() : null
+    // Sustained deviation climbs the posture ladder; sitting up straight resets it.
+    engine.updateCondition(POSTURE_ALERT_TYPE, sample?.deviated ?? false)
+
+    if (isRecordingHistory()) {
+      const timeMs = Date.now()
+      historyAggregator.addFrame({
+        timeMs,
+        score: sample?.score ?? null,
+        badPosture: sample?.deviated ?? false,
+        present: poseLandmarks > 0,
+      })
+      if (firedAlert) historyAggregator.addAlert(firedAlert, timeMs)
+      if (historyAggregator.hasCompleted()) void persistHistory(historyAggregator.takeCompleted())
     }
   }
 
+  if (pipWidget.isOpen()) {
+    const sample = cameraShift.isShifted() ? null : detectorRegistry.postureSample()
+    pipWidget.update({
+      results,
+      score: sample?.score ?? null,
+      deviated: sample?.deviated ?? false,
+      escalationStep: engine?.getEscalationStep(POSTURE_ALERT_TYPE) ?? -1,
+    })
+  }
+
   // Update status labels
   updateDetectionStatus('pose', poseLandmarks > 0, '\uD83E\uDDCD')
   updateDetectionStatus('left-hand', leftHandLandmarks > 0, '\u270B')
@@ -234,11 +1755,21 @@ function onDetectorResults(results: Results): void {
   drawCaptureOverlay(ctx)
 }
 
-async function startDetection(detector: Detector, video: HTMLVideoElement): Promise<void> {
+async function startDetection(detector: LandmarkSource, video: HTMLVideoElement): Promise<void> {
   if (detectionLoopRunning) return
 
   detectionLoopRunning = true
-  const processNextFrame = async () => {
+  // Hidden tabs get a few frames per second from a worker timer; each one is processed.
+  frameScheduler = new FrameScheduler({
+    backgroundIntervalMs,
+    onModeChange: (mode) => {
+      if (detector instanceof Detector) {
+        detector.setFrameDecimation(mode === 'background' ? 1 : DEFAULT_FRAME_DECIMATION)
+      }
+      refreshDetectionRate(true)
+    },
+  })
+  frameScheduler.start(async () => {
     if (!detectionLoopRunning) return
 
     try {
@@ -249,13 +1780,19 @@ async function startDetection(detector: Detector, video: HTMLVideoElement): Prom
       // Transient errors can happen during model resets (e.g., toggling modelComplexity).
       console.warn('[PostureLens] Detector frame processing error:', error)
     }
-
-    animationFrameId = requestAnimationFrame(processNextFrame)
-  }
-  animationFrameId = requestAnimationFrame(processNextFrame)
+    refreshDetectionRate()
+  })
   console.info('[PostureLens] Detection loop started')
 }
 
+/** Updates the detection rate indicator, at most once a second unless forced. */
+function refreshDetectionRate(force = false): void {
+  const now = performance.now()
+  if (!force && now - lastRateUpdateMs < 1_000) return
+  lastRateUpdateMs = now
+  updateDetectionRate(detectionRate.rate(now), frameScheduler?.getMode() === 'background')
+}
+
 function showModelSwitchOverlay(message: string): void {
   // Reuse the capture overlay renderer (same canvas) for a transient message.
   setCaptureOverlayText(message)
@@ -280,16 +1817,19 @@ function showModelSwitchOverlay(message: string): void {
 function stopDetection(video: HTMLVideoElement): void {
   detectionLoopRunning = false
   firstDetectionReceived = false
+  flushHistory()
+  alertEngine?.resetEscalations()
 
-  handFaceProximity.reset()
-  postureDeviation.reset()
-  _handsNearFaceAlertCount = 0
-  _postureAlertCount = 0
+  detectorRegistry.reset()
+  detectorRegistry.resetAlertCounts()
+  resetCameraShift()
+  _cameraShiftAlertCount = 0
+  presenceTracker.reset()
 
-  if (animationFrameId !== null) {
-    cancelAnimationFrame(animationFrameId)
-    animationFrameId = null
-  }
+  frameScheduler?.stop()
+  frameScheduler = null
+  detectionRate.reset()
+  pipWidget.clear()
 
   const stream = video.srcObject as MediaStream
   if (stream) {
@@ -297,6 +1837,8 @@ function stopDetection(video: HTMLVideoElement): void {
       track.stop()
     }
     video.srcObject = null
+  } else if (videoFileSource) {
+    video.pause()
   }
 
   if (detectionCtx) {
@@ -597,37 +2139,30 @@ async function initializeApp(): Promise<void> {
     updateStatusDisplay('Initializing detector...')
     showProgress('First-time download: ~26MB (cached for future visits)', 10)
 
-    const detector = new Detector({ modelComplexity: 0 })
+    syntheticSource = createSyntheticSourceFromUrl()
+    videoFileSource = videoFileSourceFromUrl()
+    const detector: LandmarkSource = syntheticSource ?? new Detector({ modelComplexity: 0 })
     detector.onResults(onDetectorResults)
 
-    alertEngine = new AlertEngine({ showToast: showAlertToast })
-
-    // Sensitivity controls (persisted)
-    const faceTouchSelect = document.getElementById(
-      'face-touch-sensitivity',
-    ) as HTMLSelectElement | null
-    const postureSelect = document.getElementById('posture-sensitivity') as HTMLSelectElement | null
-
-    const savedFaceTouch = parseSensitivityLevel(localStorage.getItem(STORAGE_KEY_FACE_TOUCH_SENS))
-    const savedPosture = parseSensitivityLevel(localStorage.getItem(STORAGE_KEY_POSTURE_SENS))
-
-    if (faceTouchSelect) faceTouchSelect.value = savedFaceTouch
-    if (postureSelect) postureSelect.value = savedPosture
-
-    handFaceProximity = createHandFaceProximity(savedFaceTouch)
-    postureDeviation = createPostureDeviation(savedPosture)
-
-    faceTouchSelect?.addEventListener('change', () => {
-      const level = parseSensitivityLevel(faceTouchSelect.value)
-      localStorage.setItem(STORAGE_KEY_FACE_TOUCH_SENS, level)
-      handFaceProximity = createHandFaceProximity(level)
+    alertEngine = new AlertEngine({
+      showToast: showAlertToast,
+      showBanner: showEscalationBanner,
+      // The camera check pauses the reference-based detectors, so it goes first.
+      typeDefaults: {
+        [CAMERA_SHIFT_ALERT_TYPE]: { priority: 'high' },
+        [POSTURE_ALERT_TYPE]: { escalation: ESCALATION_PRESETS.standard },
+      },
     })
 
-    postureSelect?.addEventListener('change', () => {
-      const level = parseSensitivityLevel(postureSelect.value)
-      localStorage.setItem(STORAGE_KEY_POSTURE_SENS, level)
-      postureDeviation = createPostureDeviation(level)
-    })
+    // Detector enable/sensitivity controls (persisted)
+    setupDetectors()
+    setupAlertSilencing(alertEngine)
+
+    // History: apply retention limits once per visit; keep the partial minute on unload.
+    pruneHistory().catch((error) => console.warn('[History] Failed to prune:', error))
+    window.addEventListener('pagehide', flushHistory)
+    setupDashboard()
+    setupPipWidget()
 
     updateStatusDisplay('Loading MediaPipe models...')
     showProgress('Downloading models and assets (one-time)', 30)
@@ -643,15 +2178,19 @@ async function initializeApp(): Promise<void> {
     await startDetection(detector, video)
     hideProgress()
 
-    // Load existing reference pose
-    const existingRef = await loadReference()
+    // Load the active profile's reference pose
+    const activeProfile = await ensureActiveProfile()
+    activeProfileId = activeProfile.id
+    const existingRef = activeProfile.pose
     currentReference = existingRef
-    handFaceProximity.reset()
-    postureDeviation.reset()
+    await refreshProfilePicker()
+    resetReferenceDetectors()
     updateReferenceStatus(existingRef)
 
     const captureBtn = document.getElementById('capture-btn') as HTMLButtonElement
+    const calibrateBtn = document.getElementById('calibrate-btn') as HTMLButtonElement | null
     const startBtn = document.getElementById('start-btn') as HTMLButtonElement
+    if (calibrateBtn) calibrateBtn.disabled = false
 
     if (existingRef) {
       console.info(
@@ -672,34 +2211,90 @@ async function initializeApp(): Promise<void> {
 
     console.info('[PostureLens] App initialized successfully')
 
+    setupProfileControls(captureBtn, startBtn)
+
     // After we're interactive on lite, asynchronously cache the full model and enable the user toggle.
-    setupFullPoseModelToggle(detector)
+    if (detector instanceof Detector) setupFullPoseModelToggle(detector)
+
+    const startWebcamForCapture = async () => {
+      updateStatusDisplay('Starting webcam...')
+      const newVideo = await setupWebcam()
+      firstDetectionReceived = false
+      await startDetection(detector, newVideo)
+    }
+    const getCaptureDetectionState = () => ({ running: detectionLoopRunning, currentReference })
 
     // Wire capture button
     if (captureBtn && startBtn) {
       captureBtn.addEventListener('click', async () => {
+        const profileId = activeProfileId ?? (await ensureActiveProfile()).id
         const ref = await captureReferencePose(
           captureBtn,
           startBtn,
-          async () => {
-            updateStatusDisplay('Starting webcam...')
-            const newVideo = await setupWebcam()
-            firstDetectionReceived = false
-            await startDetection(detector, newVideo)
-          },
-          () => ({ running: detectionLoopRunning, currentReference }),
+          profileId,
+          startWebcamForCapture,
+          getCaptureDetectionState,
         )
-        if (ref) {
+        if (ref && profileId === activeProfileId) {
           currentReference = ref
-          handFaceProximity.reset()
-          postureDeviation.reset()
+          resetReferenceDetectors()
+          await refreshProfilePicker()
         }
       })
     }
 
+    // Wire calibrate button (good + slouched capture)
+    if (calibrateBtn && captureBtn && startBtn) {
+      calibrateBtn.addEventListener('click', async () => {
+        const profileId = activeProfileId ?? (await ensureActiveProfile()).id
+        const ref = await calibrateReferencePose(
+          calibrateBtn,
+          captureBtn,
+          startBtn,
+          profileId,
+          startWebcamForCapture,
+          getCaptureDetectionState,
+        )
+        if (ref && profileId === activeProfileId) {
+          currentReference = ref
+          resetReferenceDetectors()
+          await refreshProfilePicker()
+        }
+      })
+    }
+
+    // Wire input source switching (webcam <-> local video file)
+    setupVideoFileControls(video, async () => {
+      closeReplay()
+      if (detectionLoopRunning) stopDetection(video)
+      try {
+        updateStatusDisplay('Initializing detection...')
+        await startDetection(detector, await setupWebcam())
+      } catch (error) {
+        console.error('[PostureLens] Failed to switch input source:', error)
+        showErrorToast(error instanceof Error ? error.message : 'Failed to switch input source')
+        updateStatusDisplay('Stopped \u2014 camera off')
+      }
+      if (startBtn) syncStartButton(startBtn, detectionLoopRunning, !!currentReference)
+    })
+
+    // Wire session recording/replay (replay stands in for the webcam)
+    setupSessionTools(() => {
+      stopDetection(video)
+      if (startBtn) syncStartButton(startBtn, detectionLoopRunning, !!currentReference)
+    })
+
+    // Wire data export/import
+    setupDataTransfer(() => {
+      stopDetection(video)
+      updateStatusDisplay('Stopped \u2014 camera off')
+      if (startBtn) syncStartButton(startBtn, detectionLoopRunning, !!currentReference)
+    })
+
     // Wire start/stop button
     if (startBtn) {
       startBtn.addEventListener('click', async () => {
+        closeReplay()
         if (detectionLoopRunning) {
           stopDetection(video)
           updateStatusDisplay('Stopped \u2014 camera off')
@@ -729,10 +2324,13 @@ async function initializeApp(): Promise<void> {
           if (detectionLoopRunning) stopDetection(video)
           await clearAllData()
           currentReference = null
-          handFaceProximity.reset()
-          postureDeviation.reset()
-          _handsNearFaceAlertCount = 0
-          _postureAlertCount = 0
+          activeProfileId = (await ensureActiveProfile()).id
+          await refreshProfilePicker()
+          detectorRegistry.reset()
+          detectorRegistry.resetAlertCounts()
+          resetCameraShift()
+          _cameraShiftAlertCount = 0
+          presenceTracker.reset()
           updateReferenceStatus(null)
           updateStatusDisplay('All local data cleared')
           if (captureBtn) {
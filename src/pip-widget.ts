@@ -0,0 +1,214 @@
+// Posture widget — small always-on-top window (Picture-in-Picture)
+// Live score, shoulder triangle and alert state while PostureLens sits behind other apps.
+// Uses Document Picture-in-Picture where available and otherwise shows a canvas stream
+// through video Picture-in-Picture; both draw the same canvas.
+
+import type { Results } from '@mediapipe/holistic'
+import type { AlertVariant } from './core/alert-engine.ts'
+import { drawBoundingBox, drawShoulderTriangle } from './core/canvas-renderer.ts'
+
+// Document Picture-in-Picture is not in the DOM typings yet (Chromium only)
+declare global {
+  interface Window {
+    documentPictureInPicture?: {
+      requestWindow(options?: { width?: number; height?: number }): Promise<Window>
+    }
+  }
+}
+
+const WIDTH = 240
+const HEIGHT = 180
+const STREAM_FPS = 15
+const FLASH_MS = 650
+
+const COLOR_BG = '#0a0a0a'
+const COLOR_OK = '#00ff88'
+const COLOR_WARNING = '#ffaa00'
+const COLOR_ERROR = '#ff4444'
+const COLOR_FACE = '#00aaff'
+const COLOR_IDLE = '#999999'
+
+export type PipMode = 'document' | 'video'
+
+/** What the widget shows for one detection frame */
+export type PipFrame = {
+  results: Results
+  /** Posture score (0-100); null without a usable reference */
+  score: number | null
+  deviated: boolean
+  /** Posture escalation step reached (-1 when none) */
+  escalationStep: number
+}
+
+/** Which widget the browser can open, or null if neither */
+export function pipSupport(): PipMode | null {
+  if (window.documentPictureInPicture) return 'document'
+  if (document.pictureInPictureEnabled && 'captureStream' in HTMLCanvasElement.prototype) {
+    return 'video'
+  }
+  return null
+}
+
+function frameState(frame: PipFrame | null): { color: string; label: string } {
+  if (!frame) return { color: COLOR_IDLE, label: 'Not monitoring' }
+  if (frame.escalationStep >= 0) return { color: COLOR_ERROR, label: 'Sit up straight' }
+  if (frame.deviated) return { color: COLOR_WARNING, label: 'Slouching' }
+  if (frame.score === null) return { color: COLOR_IDLE, label: 'No reference' }
+  return { color: COLOR_OK, label: 'Good posture' }
+}
+
+/**
+ * The widget canvas and the Picture-in-Picture window showing it. Frames are drawn only
+ * while the widget is open.
+ */
+export class PipWidget {
+  private readonly canvas: HTMLCanvasElement
+  private readonly ctx: CanvasRenderingContext2D | null
+  private readonly onClose: () => void
+
+  private mode: PipMode | null = null
+  private pipWindow: Window | null = null
+  private video: HTMLVideoElement | null = null
+  private lastFrame: PipFrame | null = null
+  private flashUntilMs = 0
+  private flashColor = COLOR_ERROR
+
+  constructor(onClose: () => void = () => {}) {
+    this.canvas = document.createElement('canvas')
+    this.canvas.width = WIDTH
+    this.canvas.height = HEIGHT
+    this.ctx = this.canvas.getContext('2d')
+    this.onClose = onClose
+  }
+
+  public isOpen(): boolean {
+    return this.mode !== null
+  }
+
+  /** Opens the widget window (call from a user gesture). */
+  public async open(): Promise<PipMode> {
+    if (this.mode) return this.mode
+    this.draw()
+
+    const documentPip = window.documentPictureInPicture
+    if (documentPip) {
+      const pipWindow = await documentPip.requestWindow({ width: WIDTH, height: HEIGHT })
+      pipWindow.document.title = 'PostureLens'
+      pipWindow.document.body.style.cssText = `margin: 0; background: ${COLOR_BG}; overflow: hidden;`
+      this.canvas.style.cssText =
+        'display: block; width: 100vw; height: 100vh; object-fit: contain;'
+      pipWindow.document.body.appendChild(this.canvas)
+      pipWindow.addEventListener('pagehide', () => this.handleClosed())
+      this.pipWindow = pipWindow
+      this.mode = 'document'
+    } else {
+      // Video PiP needs a playing element in the page; keep it out of sight.
+      const video = document.createElement('video')
+      video.muted = true
+      video.playsInline = true
+      video.style.cssText =
+        'position: fixed; width: 1px; height: 1px; opacity: 0; pointer-events: none;'
+      video.srcObject = this.canvas.captureStream(STREAM_FPS)
+      document.body.appendChild(video)
+      this.video = video
+      try {
+        await video.play()
+        await video.requestPictureInPicture()
+      } catch (error) {
+        this.releaseVideo()
+        throw error
+      }
+      video.addEventListener('leavepictureinpicture', () => this.handleClosed())
+      this.mode = 'video'
+    }
+
+    console.info(`[PipWidget] Opened (${this.mode} Picture-in-Picture)`)
+    return this.mode
+  }
+
+  public close(): void {
+    if (this.mode === 'document') {
+      this.pipWindow?.close()
+    } else if (this.mode === 'video' && document.pictureInPictureElement === this.video) {
+      void document.exitPictureInPicture()
+    }
+    this.handleClosed()
+  }
+
+  /** Shows a detection frame. */
+  public update(frame: PipFrame): void {
+    this.lastFrame = frame
+    if (this.mode) this.draw()
+  }
+
+  /** Back to the idle state (monitoring stopped). */
+  public clear(): void {
+    this.lastFrame = null
+    this.flashUntilMs = 0
+    if (this.mode) this.draw()
+  }
+
+  /** Alert flash, shown over the next frames (the main page may not be visible). */
+  public flash(variant: AlertVariant): void {
+    this.flashUntilMs = performance.now() + FLASH_MS
+    this.flashColor = variant === 'normal' ? COLOR_ERROR : COLOR_WARNING
+    if (this.mode) this.draw()
+  }
+
+  private draw(): void {
+    const ctx = this.ctx
+    if (!ctx) return
+    const frame = this.lastFrame
+    const state = frameState(frame)
+
+    ctx.fillStyle = COLOR_BG
+    ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+    const results = frame?.results
+    if (results?.poseLandmarks) drawShoulderTriangle(ctx, results.poseLandmarks)
+    if (results?.leftHandLandmarks) drawBoundingBox(ctx, results.leftHandLandmarks, COLOR_ERROR)
+    if (results?.rightHandLandmarks) {
+      drawBoundingBox(ctx, results.rightHandLandmarks, COLOR_WARNING)
+    }
+    if (results?.faceLandmarks) drawBoundingBox(ctx, results.faceLandmarks, COLOR_FACE)
+
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'top'
+    ctx.fillStyle = state.color
+    ctx.font = 'bold 36px system-ui, sans-serif'
+    const score = frame?.score ?? null
+    ctx.fillText(score === null ? '–' : String(Math.round(score)), 12, 10)
+    ctx.font = '13px system-ui, sans-serif'
+    ctx.fillText(state.label, 12, 52)
+
+    ctx.strokeStyle = state.color
+    ctx.lineWidth = 4
+    ctx.strokeRect(2, 2, WIDTH - 4, HEIGHT - 4)
+
+    if (performance.now() < this.flashUntilMs) {
+      ctx.globalAlpha = 0.35
+      ctx.fillStyle = this.flashColor
+      ctx.fillRect(0, 0, WIDTH, HEIGHT)
+      ctx.globalAlpha = 1
+    }
+  }
+
+  private handleClosed(): void {
+    if (!this.mode) return
+    this.mode = null
+    this.pipWindow = null
+    this.releaseVideo()
+    this.canvas.remove()
+    console.info('[PipWidget] Closed')
+    this.onClose()
+  }
+
+  private releaseVideo(): void {
+    if (!this.video) return
+    const stream = this.video.srcObject as MediaStream | null
+    for (const track of stream?.getTracks() ?? []) track.stop()
+    this.video.srcObject = null
+    this.video.remove()
+    this.video = null
+  }
+}
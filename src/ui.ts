@@ -1,6 +1,23 @@
 // UI helpers — status display, progress bar, toasts, detection status labels
 
-import type { ReferencePose } from './core/reference-store.ts'
+import {
+  ALERT_CHANNELS,
+  ALERT_PRIORITIES,
+  type AlertChannel,
+  type AlertPolicy,
+  type AlertPriority,
+  type AlertSuppression,
+  ESCALATION_PRESETS,
+  type EscalationPreset,
+  type EscalationStep,
+} from './core/alert-engine.ts'
+import {
+  type DetectorInfo,
+  SENSITIVITY_LEVELS,
+  type SensitivityLevel,
+} from './core/detector-registry.ts'
+import type { QuietHoursRule } from './core/quiet-hours.ts'
+import type { ReferencePose, ReferenceProfile } from './core/reference-store.ts'
 
 /** Updates the main status text */
 export function updateStatusDisplay(message: string): void {
@@ -63,6 +80,14 @@ export function showAlertToast(message: string): void {
   showToast(message, 'error', 4000)
 }
 
+/** Shows the persistent escalation banner, or hides it for null */
+export function showEscalationBanner(message: string | null): void {
+  const banner = document.getElementById('escalation-banner')
+  if (!banner) return
+  banner.textContent = message ?? ''
+  banner.hidden = message === null
+}
+
 export function showUpdatePrompt(version: string, onYes: () => void, onNo: () => void): void {
   const toast = document.getElementById('update-toast')
   const text = document.getElementById('update-toast-text')
@@ -97,6 +122,34 @@ export function showUpdatePrompt(version: string, onYes: () => void, onNo: () =>
   noBtn.addEventListener('click', onNoClick, { once: true })
 }
 
+/**
+ * Shows the camera-moved prompt. Each button hides the prompt before calling its handler;
+ * handlers from a previous showing are replaced.
+ */
+export function showCameraMovedPrompt(onReanchor: () => void, onRecapture: () => void): void {
+  const toast = document.getElementById('camera-moved-toast')
+  const reanchorBtn = document.getElementById('camera-moved-reanchor') as HTMLButtonElement | null
+  const recaptureBtn = document.getElementById('camera-moved-recapture') as HTMLButtonElement | null
+
+  if (!toast || !reanchorBtn || !recaptureBtn) return
+
+  toast.style.display = 'block'
+
+  reanchorBtn.onclick = () => {
+    hideCameraMovedPrompt()
+    onReanchor()
+  }
+  recaptureBtn.onclick = () => {
+    hideCameraMovedPrompt()
+    onRecapture()
+  }
+}
+
+export function hideCameraMovedPrompt(): void {
+  const toast = document.getElementById('camera-moved-toast')
+  if (toast) toast.style.display = 'none'
+}
+
 /** Updates a detection status label (pose, left-hand, right-hand, face) */
 export function updateDetectionStatus(label: string, detected: boolean, emoji: string): void {
   const statusElement = document.getElementById(`${label}-status`)
@@ -106,7 +159,59 @@ export function updateDetectionStatus(label: string, detected: boolean, emoji: s
   }
 }
 
-const DETECTION_LABELS = ['pose', 'left-hand', 'right-hand', 'face'] as const
+/** Updates the continuous sitting time label (null = no active sitting session) */
+export function updateSittingStatus(seatedMs: number | null): void {
+  const statusElement = document.getElementById('sitting-status')
+  if (!statusElement) return
+
+  if (seatedMs === null) {
+    statusElement.textContent = '-'
+    return
+  }
+
+  const totalMinutes = Math.floor(seatedMs / 60_000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  statusElement.textContent =
+    hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`
+}
+
+const DETECTION_LABELS = ['pose', 'left-hand', 'right-hand', 'face', 'sitting', 'rate'] as const
+
+const APP_TITLE = 'PostureLens'
+
+/**
+ * Shows the effective detection rate (completed detections per second). In a background tab
+ * the rate also goes into the page title, so the tab strip shows monitoring is still live.
+ */
+export function updateDetectionRate(fps: number, background: boolean): void {
+  const statusElement = document.getElementById('rate-status')
+  const rate = fps >= 10 ? `${Math.round(fps)} fps` : `${fps.toFixed(1)} fps`
+  if (statusElement) {
+    statusElement.textContent = background ? `${rate} (background)` : rate
+    statusElement.style.color = fps > 0 ? '' : '#ff4444'
+  }
+  document.title = background ? `${APP_TITLE} \u00b7 ${rate}` : APP_TITLE
+}
+
+/** Shows whether alerts are on, snoozed or in quiet hours (and until when) */
+export function updateAlertStatus(suppression: AlertSuppression | null): void {
+  const statusElement = document.getElementById('alerts-status')
+  if (!statusElement) return
+
+  if (!suppression) {
+    statusElement.textContent = 'On'
+    statusElement.style.color = ''
+    return
+  }
+  const until = new Date(suppression.untilMs).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  statusElement.textContent =
+    suppression.reason === 'snooze' ? `Snoozed until ${until}` : `Quiet hours until ${until}`
+  statusElement.style.color = '#ffaa00'
+}
 
 /** Resets all detection status labels to their initial "-" state */
 export function resetDetectionStatus(): void {
@@ -117,6 +222,7 @@ export function resetDetectionStatus(): void {
       el.style.color = ''
     }
   }
+  document.title = APP_TITLE
 }
 
 /** Updates the reference status display with ISO date or "no reference" message */
@@ -128,7 +234,8 @@ export function updateReferenceStatus(ref: ReferencePose | null): void {
     const date = new Date(ref.capturedAt)
     const pad = (n: number) => String(n).padStart(2, '0')
     const dateTimeStr = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
-    refStatus.textContent = `Reference pose loaded (captured: ${dateTimeStr})`
+    const calibrated = ref.calibration ? ', calibrated' : ''
+    refStatus.textContent = `Reference pose loaded (captured: ${dateTimeStr}${calibrated})`
     refStatus.style.color = '#00ff88'
   } else {
     refStatus.textContent = 'No reference pose \u2014 capture one to begin monitoring'
@@ -136,6 +243,339 @@ export function updateReferenceStatus(ref: ReferencePose | null): void {
   }
 }
 
+/** Rebuilds the profile picker options and selects the active profile */
+export function renderProfilePicker(
+  select: HTMLSelectElement,
+  profiles: ReferenceProfile[],
+  activeId: string | null,
+): void {
+  select.replaceChildren()
+  for (const profile of profiles) {
+    const option = document.createElement('option')
+    option.value = profile.id
+    option.textContent = profile.pose ? profile.name : `${profile.name} (not captured)`
+    select.appendChild(option)
+  }
+  if (activeId) select.value = activeId
+}
+
+const SENSITIVITY_LABELS: Record<SensitivityLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+}
+
+/**
+ * Builds one row per registered detector: an enable checkbox and, for tunable detectors,
+ * a sensitivity select. Rows follow registry (priority) order.
+ */
+export function renderDetectorSettings(
+  container: HTMLElement,
+  detectors: DetectorInfo[],
+  onToggle: (id: string, enabled: boolean) => void,
+  onSensitivity: (id: string, level: SensitivityLevel) => void,
+): void {
+  container.replaceChildren()
+
+  for (const detector of detectors) {
+    const row = document.createElement('div')
+    row.className = 'detector-settings__row'
+
+    const toggle = document.createElement('label')
+    toggle.className = 'detector-settings__toggle'
+    const checkbox = document.createElement('input')
+    checkbox.type = 'checkbox'
+    checkbox.checked = detector.enabled
+    checkbox.addEventListener('change', () => onToggle(detector.id, checkbox.checked))
+    toggle.append(checkbox, ` ${detector.label}`)
+    row.appendChild(toggle)
+
+    if (detector.tunable) {
+      const select = document.createElement('select')
+      select.className = 'sensitivity__select detector-settings__select'
+      select.setAttribute('aria-label', `${detector.label} sensitivity`)
+      for (const level of SENSITIVITY_LEVELS) {
+        const option = document.createElement('option')
+        option.value = level
+        option.textContent = SENSITIVITY_LABELS[level]
+        select.appendChild(option)
+      }
+      select.value = detector.level
+      select.disabled = !detector.enabled
+      select.addEventListener('change', () => {
+        onSensitivity(detector.id, select.value as SensitivityLevel)
+      })
+      checkbox.addEventListener('change', () => {
+        select.disabled = !checkbox.checked
+      })
+      row.appendChild(select)
+    }
+
+    container.appendChild(row)
+  }
+}
+
+const PRIORITY_LABELS: Record<AlertPriority, string> = {
+  high: 'High priority',
+  normal: 'Normal priority',
+  low: 'Low priority',
+}
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  flash: 'Flash',
+  toast: 'Toast',
+  beep: 'Beep',
+  notification: 'Notification',
+}
+
+const ESCALATION_LABELS: Record<EscalationPreset, string> = {
+  quick: 'Escalate quickly',
+  standard: 'Escalate gradually',
+  relaxed: 'Escalate slowly',
+}
+
+function formatCooldown(ms: number): string {
+  return ms < 60_000 ? `${ms / 1000} s` : `${ms / 60_000} min`
+}
+
+/** The preset a ladder matches, 'off' when empty, 'custom' otherwise */
+function escalationPresetOf(steps: EscalationStep[]): EscalationPreset | 'off' | 'custom' {
+  if (!steps.length) return 'off'
+  const json = JSON.stringify(steps)
+  const preset = (Object.keys(ESCALATION_PRESETS) as EscalationPreset[]).find(
+    (name) => JSON.stringify(ESCALATION_PRESETS[name]) === json,
+  )
+  return preset ?? 'custom'
+}
+
+/** One alert type in the alert settings (a detector, or the camera-moved check) */
+export type AlertPolicyRow = {
+  type: string
+  label: string
+  policy: AlertPolicy
+  /** Whether the type reports its condition, so an escalation ladder can be chosen */
+  escalates?: boolean
+}
+
+/**
+ * Builds one block per alert type: cooldown and priority selects plus a checkbox per
+ * channel, and an escalation select for types that escalate. `onChange` receives only the
+ * field that changed.
+ */
+export function renderAlertPolicies(
+  container: HTMLElement,
+  rows: AlertPolicyRow[],
+  cooldownChoicesMs: number[],
+  onChange: (type: string, patch: Partial<AlertPolicy>) => void,
+): void {
+  container.replaceChildren()
+
+  for (const { type, label, policy, escalates } of rows) {
+    const block = document.createElement('div')
+    block.className = 'alert-policies__type'
+
+    const title = document.createElement('span')
+    title.className = 'detector-settings__toggle'
+    title.textContent = label
+    block.appendChild(title)
+
+    const selects = document.createElement('div')
+    selects.className = 'detector-settings__row'
+
+    const cooldown = document.createElement('select')
+    cooldown.className = 'sensitivity__select detector-settings__select'
+    cooldown.setAttribute('aria-label', `${label} cooldown`)
+    const choices = cooldownChoicesMs.includes(policy.cooldownMs)
+      ? cooldownChoicesMs
+      : [...cooldownChoicesMs, policy.cooldownMs].sort((a, b) => a - b)
+    for (const ms of choices) {
+      const option = document.createElement('option')
+      option.value = String(ms)
+      option.textContent = `Every ${formatCooldown(ms)} at most`
+      cooldown.appendChild(option)
+    }
+    cooldown.value = String(policy.cooldownMs)
+    cooldown.addEventListener('change', () =>
+      onChange(type, { cooldownMs: Number(cooldown.value) }),
+    )
+
+    const priority = document.createElement('select')
+    priority.className = 'sensitivity__select detector-settings__select'
+    priority.setAttribute('aria-label', `${label} priority`)
+    for (const level of ALERT_PRIORITIES) {
+      const option = document.createElement('option')
+      option.value = level
+      option.textContent = PRIORITY_LABELS[level]
+      priority.appendChild(option)
+    }
+    priority.value = policy.priority
+    priority.addEventListener('change', () => {
+      onChange(type, { priority: priority.value as AlertPriority })
+    })
+
+    selects.append(cooldown, priority)
+
+    if (escalates) {
+      const escalation = document.createElement('select')
+      escalation.className = 'sensitivity__select detector-settings__select'
+      escalation.setAttribute('aria-label', `${label} escalation`)
+      const current = escalationPresetOf(policy.escalation)
+      const options: Array<[string, string]> = [
+        ['off', 'No escalation'],
+        ...(Object.keys(ESCALATION_LABELS) as EscalationPreset[]).map((name): [string, string] => [
+          name,
+          ESCALATION_LABELS[name],
+        ]),
+      ]
+      if (current === 'custom') options.push(['custom', 'Custom escalation'])
+      for (const [value, text] of options) {
+        const option = document.createElement('option')
+        option.value = value
+        option.textContent = text
+        escalation.appendChild(option)
+      }
+      escalation.value = current
+      escalation.addEventListener('change', () => {
+        const value = escalation.value
+        if (value === 'custom') return
+        onChange(type, {
+          escalation: value === 'off' ? [] : ESCALATION_PRESETS[value as EscalationPreset],
+        })
+      })
+      selects.appendChild(escalation)
+    }
+
+    block.appendChild(selects)
+
+    const channels = document.createElement('div')
+    channels.className = 'alert-policies__channels'
+    const inputs: HTMLInputElement[] = []
+    for (const channel of ALERT_CHANNELS) {
+      const option = document.createElement('label')
+      option.className = 'face-zones__option'
+      const checkbox = document.createElement('input')
+      checkbox.type = 'checkbox'
+      checkbox.value = channel
+      checkbox.checked = policy.channels.includes(channel)
+      checkbox.addEventListener('change', () => {
+        const selected = ALERT_CHANNELS.filter((c) =>
+          inputs.some((i) => i.checked && i.value === c),
+        )
+        onChange(type, { channels: selected })
+      })
+      inputs.push(checkbox)
+      option.append(checkbox, ` ${CHANNEL_LABELS[channel]}`)
+      channels.appendChild(option)
+    }
+    block.appendChild(channels)
+
+    container.appendChild(block)
+  }
+}
+
+/** Monday-first, as most work weeks are laid out */
+const WEEKDAYS: Array<[number, string]> = [
+  [1, 'Mon'],
+  [2, 'Tue'],
+  [3, 'Wed'],
+  [4, 'Thu'],
+  [5, 'Fri'],
+  [6, 'Sat'],
+  [0, 'Sun'],
+]
+
+function minuteToTime(minute: number): string {
+  return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`
+}
+
+function timeToMinute(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Builds one block per quiet-hours rule: weekday checkboxes, start and end times and a
+ * remove button. `onChange` receives the whole updated list after every edit.
+ */
+export function renderQuietHours(
+  container: HTMLElement,
+  rules: QuietHoursRule[],
+  onChange: (rules: QuietHoursRule[]) => void,
+): void {
+  container.replaceChildren()
+  const current = rules.map((rule) => ({ ...rule }))
+
+  current.forEach((rule, index) => {
+    const update = (patch: Partial<QuietHoursRule>) => {
+      current[index] = { ...current[index], ...patch }
+      onChange([...current])
+    }
+
+    const block = document.createElement('div')
+    block.className = 'quiet-hours__rule'
+
+    const days = document.createElement('div')
+    days.className = 'quiet-hours__days'
+    const inputs: HTMLInputElement[] = []
+    for (const [day, name] of WEEKDAYS) {
+      const option = document.createElement('label')
+      option.className = 'face-zones__option'
+      const checkbox = document.createElement('input')
+      checkbox.type = 'checkbox'
+      checkbox.value = String(day)
+      checkbox.checked = rule.days.includes(day)
+      checkbox.addEventListener('change', () => {
+        update({ days: inputs.filter((i) => i.checked).map((i) => Number(i.value)) })
+      })
+      inputs.push(checkbox)
+      option.append(checkbox, ` ${name}`)
+      days.appendChild(option)
+    }
+
+    const times = document.createElement('div')
+    times.className = 'quiet-hours__times'
+    const timeInput = (minute: number, label: string, apply: (minute: number) => void) => {
+      const input = document.createElement('input')
+      input.type = 'time'
+      input.className = 'sensitivity__select'
+      input.value = minuteToTime(minute)
+      input.setAttribute('aria-label', label)
+      input.addEventListener('change', () => {
+        const value = timeToMinute(input.value)
+        if (value !== null) apply(value)
+      })
+      return input
+    }
+    const remove = document.createElement('button')
+    remove.type = 'button'
+    remove.className = 'session-tools__btn'
+    remove.textContent = 'Remove'
+    remove.addEventListener('click', () => {
+      const remaining = current.filter((_, i) => i !== index)
+      renderQuietHours(container, remaining, onChange)
+      onChange(remaining)
+    })
+    times.append(
+      timeInput(rule.startMinute, 'Quiet hours start', (startMinute) => update({ startMinute })),
+      '\u2013',
+      timeInput(rule.endMinute, 'Quiet hours end', (endMinute) => update({ endMinute })),
+      remove,
+    )
+
+    block.append(days, times)
+    container.appendChild(block)
+  })
+}
+
+/** Shows the custom-rule editor's validation result (errors one per line) */
+export function showRuleEditorStatus(message: string, isError: boolean): void {
+  const status = document.getElementById('custom-rules-status')
+  if (!status) return
+
+  status.textContent = message
+  status.classList.toggle('rule-editor__status--error', isError)
+}
+
 /** Syncs the Start/Stop button label and disabled state with detection + reference state */
 export function syncStartButton(
   startBtn: HTMLButtonElement,
@@ -145,3 +585,80 @@ export function syncStartButton(
   startBtn.textContent = detectionRunning ? 'Stop Monitoring' : 'Start Monitoring'
   startBtn.disabled = !hasReference
 }
+
+function formatReplayTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+/** Toggles the record button between start and stop-and-download */
+export function setRecordButtonState(recordBtn: HTMLButtonElement, recording: boolean): void {
+  recordBtn.textContent = recording ? 'Stop & Download Recording' : 'Record Session'
+  recordBtn.classList.toggle('session-tools__record--active', recording)
+}
+
+/** Shows or hides the replay transport controls */
+export function showReplayControls(visible: boolean): void {
+  const controls = document.getElementById('replay-controls')
+  if (controls) controls.style.display = visible ? 'flex' : 'none'
+}
+
+/** Syncs the replay play button, seek slider, and position label */
+export function updateReplayControls(
+  positionMs: number,
+  durationMs: number,
+  playing: boolean,
+): void {
+  const playBtn = document.getElementById('replay-play-btn')
+  const seek = document.getElementById('replay-seek') as HTMLInputElement | null
+  const position = document.getElementById('replay-position')
+
+  if (playBtn) playBtn.textContent = playing ? 'Pause' : 'Play'
+  if (seek) {
+    seek.max = String(Math.max(0, Math.round(durationMs)))
+    // Don't fight the user while they drag the slider.
+    if (document.activeElement !== seek) seek.value = String(Math.round(positionMs))
+  }
+  if (position) {
+    position.textContent = `${formatReplayTime(positionMs)} / ${formatReplayTime(durationMs)}`
+  }
+}
+
+/** Saves text as a file download */
+export function downloadTextFile(filename: string, text: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/x-ndjson' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/** Shows the video-file transport controls for `fileName`, or the webcam state when null */
+export function showVideoFileControls(fileName: string | null): void {
+  const controls = document.getElementById('video-file-controls')
+  const name = document.getElementById('video-file-name')
+  const webcamBtn = document.getElementById('use-webcam-btn')
+
+  if (controls) controls.style.display = fileName ? 'flex' : 'none'
+  if (webcamBtn) webcamBtn.style.display = fileName ? '' : 'none'
+  if (name) name.textContent = fileName ?? 'Webcam'
+}
+
+/** Syncs the video-file play button and position label */
+export function updateVideoFileControls(
+  positionS: number,
+  durationS: number,
+  playing: boolean,
+): void {
+  const playBtn = document.getElementById('video-file-play-btn')
+  const position = document.getElementById('video-file-position')
+
+  if (playBtn) playBtn.textContent = playing ? 'Pause' : 'Play'
+  if (position) {
+    const duration = Number.isFinite(durationS) ? formatReplayTime(durationS * 1000) : '--:--'
+    position.textContent = `${formatReplayTime(positionS * 1000)} / ${duration}`
+  }
+}
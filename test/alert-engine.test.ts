@@ -0,0 +1,304 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  type AlertChannel,
+  AlertEngine,
+  type AlertEngineOptions,
+  type AlertRequest,
+  ESCALATION_PRESETS,
+} from '../src/core/alert-engine.ts'
+
+const POSTURE: AlertRequest = { type: 'posture', variant: 'normal', reason: 'Posture' }
+const FACE: AlertRequest = {
+  type: 'hands-near-face',
+  variant: 'normal',
+  reason: 'Hands near mouth',
+}
+
+/** Engine on a fake clock (and page visibility) that records which channels fired. */
+function engine(opts: AlertEngineOptions = {}) {
+  const clock = { now: 0, hidden: false }
+  const fired: Array<[AlertChannel, string]> = []
+  const record = (channel: AlertChannel) => (alert: AlertRequest) => {
+    fired.push([channel, alert.type])
+  }
+  const alerts = new AlertEngine({
+    hostname: 'posturelens.app',
+    now: () => clock.now,
+    isHidden: () => clock.hidden,
+    channels: {
+      flash: record('flash'),
+      toast: record('toast'),
+      beep: record('beep'),
+      notification: record('notification'),
+    },
+    ...opts,
+  })
+  return { alerts, clock, fired }
+}
+
+describe('AlertEngine', () => {
+  test('cooldowns are per type', () => {
+    const { alerts, clock } = engine()
+    expect(alerts.trigger(POSTURE)).toBe(true)
+    expect(alerts.trigger(FACE)).toBe(true)
+
+    clock.now = 30_000
+    expect(alerts.trigger(POSTURE)).toBe(false)
+
+    clock.now = 60_000
+    expect(alerts.trigger(POSTURE)).toBe(true)
+  })
+
+  test('uses the short dev cooldown on localhost', () => {
+    const { alerts, clock } = engine({ hostname: 'localhost' })
+    alerts.trigger(POSTURE)
+    clock.now = 5_000
+    expect(alerts.trigger(POSTURE)).toBe(true)
+  })
+
+  test('the global spacing holds back other types unless they are high priority', () => {
+    const { alerts, clock } = engine({ minSpacingMs: 10_000 })
+    alerts.trigger(POSTURE)
+
+    clock.now = 5_000
+    expect(alerts.trigger(FACE)).toBe(false)
+    alerts.setPolicy(FACE.type, { priority: 'high' })
+    expect(alerts.trigger(FACE)).toBe(true)
+
+    alerts.setMinSpacingMs(0)
+    expect(alerts.trigger({ ...FACE, type: 'lean' })).toBe(true)
+  })
+
+  test('fires only the configured channels', () => {
+    const { alerts, fired } = engine()
+    alerts.setPolicy(POSTURE.type, { channels: ['toast'] })
+    alerts.trigger(POSTURE)
+    alerts.trigger({ ...FACE, variant: 'low-confidence' })
+    expect(fired).toEqual([
+      ['toast', 'posture'],
+      ['flash', 'hands-near-face'],
+    ])
+  })
+
+  test('a type without channels is muted and does not use up its cooldown', () => {
+    const { alerts, clock, fired } = engine()
+    alerts.setPolicy(POSTURE.type, { channels: [] })
+    expect(alerts.trigger(POSTURE)).toBe(false)
+
+    alerts.setPolicy(POSTURE.type, { channels: ['beep'] })
+    clock.now = 1_000
+    expect(alerts.trigger(POSTURE)).toBe(true)
+    expect(fired).toEqual([['beep', 'posture']])
+  })
+
+  test('a hidden tab gets a notification and the beep instead of in-page effects', () => {
+    const { alerts, clock, fired } = engine({ notifications: true })
+    alerts.trigger(POSTURE)
+    expect(fired.map(([channel]) => channel)).toEqual(['flash', 'toast', 'beep'])
+
+    fired.length = 0
+    clock.hidden = true
+    alerts.trigger(FACE)
+    expect(fired.map(([channel]) => channel)).toEqual(['beep', 'notification'])
+  })
+
+  test('a redirected flash still plays while the tab is hidden', () => {
+    const { alerts, clock, fired } = engine()
+    alerts.setFlashTarget(() => {})
+    clock.hidden = true
+    alerts.trigger(POSTURE)
+    expect(fired).toEqual([
+      ['flash', 'posture'],
+      ['beep', 'posture'],
+    ])
+  })
+
+  test('no notification while they are off or the type opts out', () => {
+    const { alerts, clock, fired } = engine()
+    clock.hidden = true
+    alerts.trigger(POSTURE)
+    expect(fired).toEqual([['beep', 'posture']])
+
+    fired.length = 0
+    alerts.setNotificationsEnabled(true)
+    alerts.setPolicy(FACE.type, { channels: ['flash', 'toast'] })
+    expect(alerts.trigger(FACE)).toBe(true)
+    expect(fired).toEqual([])
+  })
+
+  test('setPolicy merges with earlier overrides and type defaults', () => {
+    const { alerts } = engine({ typeDefaults: { 'camera-shift': { priority: 'high' } } })
+    alerts.setPolicy('camera-shift', { cooldownMs: 15_000 })
+    alerts.setPolicy('camera-shift', { channels: ['flash'] })
+    expect(alerts.getPolicy('camera-shift')).toEqual({
+      cooldownMs: 15_000,
+      priority: 'high',
+      channels: ['flash'],
+      lowConfidenceChannels: ['flash'],
+      escalation: [],
+    })
+  })
+
+  describe('triggerFirst', () => {
+    test('fires the first candidate that is allowed, by priority then order', () => {
+      const { alerts, clock } = engine()
+      alerts.setPolicy(FACE.type, { priority: 'low' })
+      expect(alerts.triggerFirst([FACE, POSTURE])).toEqual(POSTURE)
+
+      // Posture is cooling down now, so the next frame falls through to the face alert.
+      clock.now = 1_000
+      expect(alerts.triggerFirst([FACE, POSTURE])).toEqual(FACE)
+
+      clock.now = 2_000
+      expect(alerts.triggerFirst([FACE, POSTURE])).toBeNull()
+    })
+
+    test('keeps list order between equal priorities', () => {
+      const { alerts } = engine()
+      expect(alerts.triggerFirst([FACE, POSTURE])).toEqual(FACE)
+    })
+  })
+})
+
+describe('AlertEngine escalation', () => {
+  /** Standard ladder for posture; ambient and banner state captured. */
+  function escalating() {
+    const ui = { ambient: false, banner: null as string | null }
+    const setup = engine({
+      typeDefaults: { posture: { escalation: ESCALATION_PRESETS.standard } },
+      showAmbient: (active) => {
+        ui.ambient = active
+      },
+      showBanner: (message) => {
+        ui.banner = message
+      },
+    })
+    return { ...setup, ui }
+  }
+
+  test('climbs the ladder while the condition persists', () => {
+    const { alerts, clock, fired, ui } = escalating()
+    expect(alerts.trigger(POSTURE)).toBe(true)
+    expect(ui.ambient).toBe(true)
+    expect(fired).toEqual([])
+    expect(alerts.getEscalationStep('posture')).toBe(0)
+
+    clock.now = 30_000
+    alerts.updateCondition('posture', true)
+    expect(fired).toEqual([['flash', 'posture']])
+
+    clock.now = 2 * 60_000
+    alerts.updateCondition('posture', true)
+    expect(fired.slice(1)).toEqual([
+      ['toast', 'posture'],
+      ['beep', 'posture'],
+    ])
+    expect(ui.banner).toBeNull()
+
+    clock.now = 10 * 60_000
+    alerts.updateCondition('posture', true)
+    expect(ui.banner).toBe('Posture')
+    expect(alerts.getEscalationStep('posture')).toBe(3)
+  })
+
+  test('skipped steps fire together after a gap', () => {
+    const { alerts, clock, fired } = escalating()
+    alerts.trigger(POSTURE)
+    clock.now = 3 * 60_000
+    alerts.updateCondition('posture', true)
+    expect(fired.map(([channel]) => channel)).toEqual(['flash', 'toast', 'beep'])
+  })
+
+  test('correcting resets the ladder and clears persistent indicators', () => {
+    const { alerts, clock, fired, ui } = escalating()
+    alerts.trigger(POSTURE)
+    clock.now = 10 * 60_000
+    alerts.updateCondition('posture', true)
+    expect(ui.banner).toBe('Posture')
+
+    alerts.updateCondition('posture', false)
+    expect(ui.ambient).toBe(false)
+    expect(ui.banner).toBeNull()
+    expect(alerts.getEscalationStep('posture')).toBe(-1)
+
+    // The next episode starts from the bottom again (after the cooldown).
+    fired.length = 0
+    clock.now = 11 * 60_000
+    expect(alerts.trigger(POSTURE)).toBe(true)
+    clock.now += 29_000
+    alerts.updateCondition('posture', true)
+    expect(fired).toEqual([])
+  })
+
+  test('an empty ladder fires the plain channels', () => {
+    const { alerts, fired, ui } = escalating()
+    alerts.setPolicy('posture', { escalation: [] })
+    alerts.trigger(POSTURE)
+    expect(ui.ambient).toBe(false)
+    expect(fired.map(([channel]) => channel)).toEqual(['flash', 'toast', 'beep'])
+  })
+
+  test('visible steps notify while the tab is hidden', () => {
+    const { alerts, clock, fired, ui } = escalating()
+    alerts.setNotificationsEnabled(true)
+    clock.hidden = true
+    alerts.trigger(POSTURE)
+    expect(ui.ambient).toBe(true)
+    expect(fired).toEqual([])
+
+    clock.now = 30_000
+    alerts.updateCondition('posture', true)
+    expect(fired).toEqual([['notification', 'posture']])
+  })
+
+  test('resetEscalations ends every episode', () => {
+    const { alerts, ui } = escalating()
+    alerts.trigger(POSTURE)
+    alerts.resetEscalations()
+    expect(ui.ambient).toBe(false)
+    expect(alerts.getEscalationStep('posture')).toBe(-1)
+  })
+})
+
+describe('AlertEngine silencing', () => {
+  test('a snooze silences every type without using up cooldowns', () => {
+    const { alerts, clock, fired } = engine()
+    alerts.snooze(5 * 60_000)
+    expect(alerts.trigger(POSTURE)).toBe(false)
+    expect(alerts.getSuppression()).toEqual({ reason: 'snooze', untilMs: 5 * 60_000 })
+
+    clock.now = 5 * 60_000
+    expect(alerts.getSuppression()).toBeNull()
+    expect(alerts.trigger(POSTURE)).toBe(true)
+    expect(fired.length).toBeGreaterThan(0)
+  })
+
+  test('quiet hours silence alerts and end running escalations', () => {
+    const ui = { ambient: false }
+    const { alerts, clock } = engine({
+      typeDefaults: { posture: { escalation: ESCALATION_PRESETS.quick } },
+      showAmbient: (active) => {
+        ui.ambient = active
+      },
+      showBanner: () => {},
+    })
+    clock.now = new Date(2026, 0, 5, 11, 59).getTime()
+    alerts.trigger(POSTURE)
+    expect(ui.ambient).toBe(true)
+
+    alerts.setQuietHours([{ days: [1], startMinute: 12 * 60, endMinute: 13 * 60 }])
+    clock.now = new Date(2026, 0, 5, 12, 0).getTime()
+    alerts.updateCondition('posture', true)
+    expect(ui.ambient).toBe(false)
+    expect(alerts.getSuppression()?.reason).toBe('quiet-hours')
+    expect(alerts.trigger({ ...FACE })).toBe(false)
+  })
+
+  test('ending a snooze early', () => {
+    const { alerts } = engine()
+    alerts.snooze(60_000)
+    alerts.snooze(null)
+    expect(alerts.trigger(POSTURE)).toBe(true)
+  })
+})
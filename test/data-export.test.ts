@@ -0,0 +1,217 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  buildExportFile,
+  decryptLocalData,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  type ExportFile,
+  encryptLocalData,
+  type LocalData,
+  mergeLocalData,
+  parseExportFile,
+  validateLocalData,
+} from '../src/core/data-export.ts'
+import type { HistoryMinute } from '../src/core/history.ts'
+import type { ReferenceProfile } from '../src/core/reference-store.ts'
+import { referenceFrom, UPRIGHT } from './fixtures/landmarks.ts'
+
+function profile(id: string, name = id): ReferenceProfile {
+  return { id, name, pose: referenceFrom(UPRIGHT), createdAt: '2026-01-01T00:00:00.000Z' }
+}
+
+function minute(start: number, presentMs = 60_000): HistoryMinute {
+  return {
+    minute: start,
+    scoredFrames: 10,
+    scoreSum: 900,
+    minScore: 85,
+    badPostureMs: 0,
+    presentMs,
+    monitoredMs: 60_000,
+    alerts: { posture: 1 },
+  }
+}
+
+const DATA: LocalData = {
+  profiles: [profile('default', 'Default'), { ...profile('standing'), pose: null }],
+  activeProfileId: 'default',
+  settings: { 'posturelens.sensitivity.posture': 'high', 'posturelens.faceZones': '["mouth"]' },
+  history: [minute(60_000), minute(120_000)],
+}
+
+/** Fast key derivation; the iteration count is stored in the file. */
+const TEST_ITERATIONS = 1_000
+
+describe('parseExportFile', () => {
+  test('round-trips a plain export', async () => {
+    const text = await buildExportFile(DATA, undefined, new Date('2026-02-01T10:00:00Z'))
+    const parsed = parseExportFile(text)
+    expect(parsed).toEqual({
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: '2026-02-01T10:00:00.000Z',
+      data: DATA,
+    })
+  })
+
+  test('rejects other files and versions', () => {
+    expect(() => parseExportFile('not json')).toThrow('File is not valid JSON')
+    expect(() => parseExportFile('{"type":"posturelens-session"}')).toThrow(
+      'Not a PostureLens export',
+    )
+    const future = JSON.stringify({ format: EXPORT_FORMAT, version: 2, exportedAt: '' })
+    expect(() => parseExportFile(future)).toThrow('Unsupported export version 2')
+  })
+
+  test('rejects key-derivation costs that are unusable or would freeze the tab', async () => {
+    const encrypted = await encryptLocalData(DATA, 'correct horse', TEST_ITERATIONS)
+    const file: ExportFile = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: '',
+      encrypted,
+    }
+    for (const iterations of [0, 1.5, 1e10]) {
+      const tampered = JSON.stringify({ ...file, encrypted: { ...file.encrypted, iterations } })
+      expect(() => parseExportFile(tampered)).toThrow(
+        'encrypted.iterations must be a whole number from 1 to 6000000',
+      )
+    }
+    expect(parseExportFile(JSON.stringify(file))).toEqual(file)
+  })
+})
+
+describe('validateLocalData', () => {
+  test('names the first invalid field', () => {
+    const badRatio = {
+      ...DATA,
+      profiles: [{ ...DATA.profiles[0], pose: { ...DATA.profiles[0].pose, ratio: 'x' } }],
+    }
+    expect(() => validateLocalData(badRatio)).toThrow(
+      'data.profiles[0].pose.ratio must be a number',
+    )
+
+    const badMinute = { ...DATA, history: [{ ...DATA.history[0], alerts: { posture: '1' } }] }
+    expect(() => validateLocalData(badMinute)).toThrow(
+      'data.history[0].alerts.posture must be a number',
+    )
+
+    expect(() => validateLocalData({ ...DATA, history: undefined })).toThrow(
+      'data.history must be an array',
+    )
+  })
+
+  test('checks the optional head, face and calibration parts of a pose', () => {
+    const withPose = (patch: Record<string, unknown>) => ({
+      ...DATA,
+      profiles: [{ ...DATA.profiles[0], pose: { ...DATA.profiles[0].pose, ...patch } }],
+    })
+    const point = { x: 0.5, y: 0.4 }
+    const head = { leftEye: point, rightEye: point, leftEar: point, rightEar: point }
+    const calibration = { slouchRatio: 1.2, ratioDropThreshold: 0.1 }
+
+    expect(() =>
+      validateLocalData(withPose({ head, face: { size: 0.3, interocular: 0.1 }, calibration })),
+    ).not.toThrow()
+
+    expect(() => validateLocalData(withPose({ head: { ...head, leftEar: { x: 0.5 } } }))).toThrow(
+      'data.profiles[0].pose.head.leftEar.y must be a number',
+    )
+    expect(() => validateLocalData(withPose({ face: { size: 0.3 } }))).toThrow(
+      'data.profiles[0].pose.face.interocular must be a number',
+    )
+    expect(() =>
+      validateLocalData(withPose({ calibration: { ...calibration, slouchRatio: null } })),
+    ).toThrow('data.profiles[0].pose.calibration.slouchRatio must be a number')
+    // A JSON number like 1e999 parses to Infinity.
+    expect(() =>
+      validateLocalData(
+        withPose({ calibration: { ...calibration, ratioDropThreshold: Number.POSITIVE_INFINITY } }),
+      ),
+    ).toThrow('data.profiles[0].pose.calibration.ratioDropThreshold must be a number')
+  })
+
+  test('only accepts PostureLens settings', () => {
+    const foreign = { ...DATA, settings: { theme: 'dark' } }
+    expect(() => validateLocalData(foreign)).toThrow(
+      'data.settings.theme is not a PostureLens setting',
+    )
+  })
+})
+
+describe('encryption', () => {
+  test('decrypts with the right passphrase', async () => {
+    const payload = await encryptLocalData(DATA, 'correct horse', TEST_ITERATIONS)
+    expect(payload.ciphertext).not.toContain('posturelens')
+
+    const file = JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: '2026-02-01T10:00:00.000Z',
+      encrypted: payload,
+    })
+    const parsed = parseExportFile(file)
+    if (!('encrypted' in parsed)) throw new Error('expected an encrypted export')
+    expect(await decryptLocalData(parsed.encrypted, 'correct horse')).toEqual(DATA)
+  })
+
+  test('rejects a wrong passphrase', async () => {
+    const payload = await encryptLocalData(DATA, 'correct horse', TEST_ITERATIONS)
+    await expect(decryptLocalData(payload, 'battery staple')).rejects.toThrow(
+      'Wrong passphrase or damaged file',
+    )
+  })
+})
+
+describe('mergeLocalData', () => {
+  const local: LocalData = {
+    profiles: [profile('default', 'Default')],
+    activeProfileId: 'default',
+    settings: { 'posturelens.sensitivity.posture': 'low' },
+    history: [minute(120_000, 1_000), minute(180_000)],
+  }
+
+  test('replace takes the import as is', () => {
+    expect(mergeLocalData(local, DATA, 'replace')).toBe(DATA)
+  })
+
+  test('merge keeps local values and adds what is missing', () => {
+    const merged = mergeLocalData(local, DATA, 'merge')
+    expect(merged.profiles.map((p) => p.id)).toEqual(['default', 'standing'])
+    expect(merged.activeProfileId).toBe('default')
+    expect(merged.settings).toEqual({
+      'posturelens.sensitivity.posture': 'low',
+      'posturelens.faceZones': '["mouth"]',
+    })
+    expect(merged.history.map((m) => [m.minute, m.presentMs])).toEqual([
+      [60_000, 60_000],
+      [120_000, 1_000],
+      [180_000, 60_000],
+    ])
+  })
+
+  test('an id clash with different content is added as a renamed copy', () => {
+    const recaptured = { ...profile('default', 'Default'), createdAt: '2026-03-01T00:00:00.000Z' }
+    const merged = mergeLocalData(local, { ...DATA, profiles: [recaptured] }, 'merge', () => 'new')
+    expect(merged.profiles.map((p) => [p.id, p.name])).toEqual([
+      ['default', 'Default'],
+      ['new', 'Default (imported)'],
+    ])
+  })
+
+  test('merging the same data twice changes nothing', () => {
+    const once = mergeLocalData(local, DATA, 'merge')
+    expect(mergeLocalData(once, DATA, 'merge')).toEqual(once)
+  })
+
+  test('merging a clashing profile twice adds one copy', () => {
+    const recaptured = { ...profile('default', 'Default'), createdAt: '2026-03-01T00:00:00.000Z' }
+    const incoming = { ...DATA, profiles: [recaptured] }
+    let copies = 0
+    const newId = () => `copy-${++copies}`
+    const once = mergeLocalData(local, incoming, 'merge', newId)
+    expect(mergeLocalData(once, incoming, 'merge', newId)).toEqual(once)
+    expect(copies).toBe(1)
+  })
+})
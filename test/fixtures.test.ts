@@ -0,0 +1,43 @@
+// Recorded fixtures: replays every `test/fixtures/*.jsonl` session through the detector
+// named in its sidecar and compares the alert timeline.
+
+import { describe, expect, test } from 'bun:test'
+import { join } from 'node:path'
+
+import { PostureDeviation } from '../src/core/posture.ts'
+import { HandFaceProximity } from '../src/core/proximity.ts'
+import type { ReferencePose } from '../src/core/reference-store.ts'
+import { loadRecordedFixtures, runTimeline, type TimelineDetector } from './fixtures/timeline.ts'
+
+/** Detector (default options) per sidecar `detector` value. */
+const DETECTORS: Record<string, (reference: ReferencePose | null) => TimelineDetector> = {
+  posture: (reference) => {
+    if (!reference) throw new Error('posture fixtures need a recorded reference')
+    const detector = new PostureDeviation()
+    return {
+      update: (results, nowMs) => detector.update(results, reference, nowMs),
+      acknowledge: () => detector.acknowledge(),
+    }
+  },
+  'hands-near-face': () => {
+    const detector = new HandFaceProximity()
+    return {
+      update: (results, nowMs) => detector.update(results, nowMs),
+      acknowledge: () => detector.acknowledge(),
+    }
+  },
+}
+
+describe('recorded fixtures', () => {
+  for (const fixture of loadRecordedFixtures(join(import.meta.dir, 'fixtures'))) {
+    test(fixture.name, () => {
+      const create = DETECTORS[fixture.detector]
+      if (!create) throw new Error(`Unknown fixture detector "${fixture.detector}"`)
+
+      const alerts = runTimeline(create(fixture.reference), fixture.frames, {
+        acknowledge: fixture.acknowledge,
+      })
+      expect(alerts).toEqual(fixture.alerts)
+    })
+  }
+})
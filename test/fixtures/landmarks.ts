@@ -0,0 +1,158 @@
+// Synthetic landmark builders
+// Produce MediaPipe-shaped Results from a handful of named points so detector tests can
+// describe poses by geometry instead of by 33/468-point arrays.
+
+import type { Results } from '@mediapipe/holistic'
+
+import {
+  FACE_CHIN_POINTS,
+  FACE_EYES_POINTS,
+  FACE_HAIR_POINTS,
+  FACE_MOUTH_POINTS,
+  FACE_NOSE_POINTS,
+  LANDMARK_LEFT_EAR,
+  LANDMARK_LEFT_EYE,
+  LANDMARK_LEFT_SHOULDER,
+  LANDMARK_NOSE,
+  LANDMARK_RIGHT_EAR,
+  LANDMARK_RIGHT_EYE,
+  LANDMARK_RIGHT_SHOULDER,
+} from '../../src/core/landmarks.ts'
+import { calculateTriangleRatio, type ReferencePose } from '../../src/core/reference-store.ts'
+
+export type Pt = { x: number; y: number; z?: number; visibility?: number }
+
+/** The three points every posture check is built on. */
+export type Triangle = { nose: Pt; leftShoulder: Pt; rightShoulder: Pt }
+
+const POSE_LANDMARK_COUNT = 33
+const FACE_LANDMARK_COUNT = 468
+const HAND_LANDMARK_COUNT = 21
+
+/** Upright sitting pose: shoulder width 0.3, nose 0.2 above the shoulder midpoint (ratio 1.5). */
+export const UPRIGHT: Triangle = {
+  nose: { x: 0.5, y: 0.4, z: -0.5 },
+  leftShoulder: { x: 0.65, y: 0.6, z: -0.2 },
+  rightShoulder: { x: 0.35, y: 0.6, z: -0.2 },
+}
+
+/**
+ * Narrows the shoulders around their midpoint so the triangle ratio drops by `ratioDrop`
+ * (0.1 = 10%), which is how forward shoulder rounding shows up in the image.
+ */
+export function roundShoulders(base: Triangle, ratioDrop: number): Triangle {
+  const midX = (base.leftShoulder.x + base.rightShoulder.x) / 2
+  const scale = 1 - ratioDrop
+  return {
+    nose: base.nose,
+    leftShoulder: { ...base.leftShoulder, x: midX + (base.leftShoulder.x - midX) * scale },
+    rightShoulder: { ...base.rightShoulder, x: midX + (base.rightShoulder.x - midX) * scale },
+  }
+}
+
+/** Moves the nose toward the shoulder line (head dropped) by `fraction` of the current gap. */
+export function dropHead(base: Triangle, fraction: number): Triangle {
+  const midY = (base.leftShoulder.y + base.rightShoulder.y) / 2
+  return { ...base, nose: { ...base.nose, y: base.nose.y + (midY - base.nose.y) * fraction } }
+}
+
+/** Full 33-point pose; eyes and ears sit around the nose, everything else at the shoulders. */
+export function poseLandmarks(triangle: Triangle): Pt[] {
+  const { nose, leftShoulder, rightShoulder } = triangle
+  const mid = {
+    x: (leftShoulder.x + rightShoulder.x) / 2,
+    y: (leftShoulder.y + rightShoulder.y) / 2,
+    z: leftShoulder.z,
+  }
+  const points: Pt[] = Array.from({ length: POSE_LANDMARK_COUNT }, () => ({
+    ...mid,
+    visibility: 1,
+  }))
+
+  points[LANDMARK_NOSE] = { ...nose, visibility: 1 }
+  points[LANDMARK_LEFT_EYE] = { x: nose.x + 0.03, y: nose.y - 0.03, z: nose.z, visibility: 1 }
+  points[LANDMARK_RIGHT_EYE] = { x: nose.x - 0.03, y: nose.y - 0.03, z: nose.z, visibility: 1 }
+  points[LANDMARK_LEFT_EAR] = { x: nose.x + 0.07, y: nose.y - 0.02, z: nose.z, visibility: 1 }
+  points[LANDMARK_RIGHT_EAR] = { x: nose.x - 0.07, y: nose.y - 0.02, z: nose.z, visibility: 1 }
+  points[LANDMARK_LEFT_SHOULDER] = { ...leftShoulder, visibility: 1 }
+  points[LANDMARK_RIGHT_SHOULDER] = { ...rightShoulder, visibility: 1 }
+  return points
+}
+
+/** Reference pose as capture would store it for the given triangle. */
+export function referenceFrom(triangle: Triangle): ReferencePose {
+  const { nose, leftShoulder, rightShoulder } = triangle
+  return {
+    nose: { x: nose.x, y: nose.y, z: nose.z },
+    leftShoulder: { x: leftShoulder.x, y: leftShoulder.y, z: leftShoulder.z },
+    rightShoulder: { x: rightShoulder.x, y: rightShoulder.y, z: rightShoulder.z },
+    ratio: calculateTriangleRatio(nose, leftShoulder, rightShoulder),
+    capturedAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+export type FaceBox = { cx: number; cy: number; size: number; z?: number }
+
+/** Where each zone's anchors sit, as a fraction of the face box height from the top. */
+const ZONE_HEIGHTS: Array<[readonly number[], number]> = [
+  [FACE_HAIR_POINTS, 0],
+  [FACE_EYES_POINTS, 0.35],
+  [FACE_NOSE_POINTS, 0.55],
+  [FACE_MOUTH_POINTS, 0.72],
+  [FACE_CHIN_POINTS, 1],
+]
+
+/**
+ * 468-point face mesh filling a square box: zone anchors at their usual heights on the
+ * center line, two cheek points on the box edges, everything else at the center.
+ */
+export function faceLandmarks(box: FaceBox): Pt[] {
+  const z = box.z ?? -0.05
+  const top = box.cy - box.size / 2
+  const points: Pt[] = Array.from({ length: FACE_LANDMARK_COUNT }, () => ({
+    x: box.cx,
+    y: box.cy,
+    z,
+  }))
+
+  for (const [indices, fraction] of ZONE_HEIGHTS) {
+    for (const index of indices) points[index] = { x: box.cx, y: top + box.size * fraction, z }
+  }
+  points[234] = { x: box.cx - box.size / 2, y: box.cy, z }
+  points[454] = { x: box.cx + box.size / 2, y: box.cy, z }
+  return points
+}
+
+/** Point inside `box` at the height of a zone (same fractions as the mesh anchors). */
+export function facePoint(box: FaceBox, fractionFromTop: number): Pt {
+  return { x: box.cx, y: box.cy - box.size / 2 + box.size * fractionFromTop, z: box.z }
+}
+
+/** 21-point hand clustered tightly around `center`. */
+export function handLandmarks(center: Pt, spread = 0.01): Pt[] {
+  return Array.from({ length: HAND_LANDMARK_COUNT }, (_, i) => {
+    const angle = (i / HAND_LANDMARK_COUNT) * Math.PI * 2
+    return {
+      x: center.x + Math.cos(angle) * spread,
+      y: center.y + Math.sin(angle) * spread,
+      z: center.z ?? -0.05,
+    }
+  })
+}
+
+export type FrameParts = {
+  pose?: Pt[]
+  face?: Pt[]
+  leftHand?: Pt[]
+  rightHand?: Pt[]
+}
+
+/** Assembles a Results object (landmark fields only, like a replayed recording). */
+export function results(parts: FrameParts): Results {
+  return {
+    poseLandmarks: parts.pose,
+    faceLandmarks: parts.face,
+    leftHandLandmarks: parts.leftHand,
+    rightHandLandmarks: parts.rightHand,
+  } as unknown as Results
+}
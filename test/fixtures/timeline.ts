@@ -0,0 +1,93 @@
+// Landmark timelines + expected alerts
+// A fixture is a timestamped landmark sequence (synthetic, or a session recording from the
+// app) plus the alerts a detector should raise while it plays.
+//
+// Recorded fixtures live next to this file as `<name>.jsonl` (the session recording format)
+// with a `<name>.expected.json` sidecar:
+//   {"detector":"posture","acknowledge":true,"alerts":[{"t":5100,"variant":"normal","reason":"Posture"}]}
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { Results } from '@mediapipe/holistic'
+
+import type { DetectorAlert } from '../../src/core/detector-registry.ts'
+import type { ReferencePose } from '../../src/core/reference-store.ts'
+import { parseSession, unpackFrame } from '../../src/core/session-recording.ts'
+
+export type TimelineFrame = { t: number; results: Results }
+
+/** One alert as it appears in a timeline (detector-specific fields dropped). */
+export type TimelineAlert = { t: number; variant: string; reason: string }
+
+export type TimelineDetector = {
+  update: (results: Results, nowMs: number) => DetectorAlert | null
+  acknowledge: () => void
+}
+
+export type RecordedFixture = {
+  name: string
+  /** Which detector the expectations are for (see the fixture test for the mapping). */
+  detector: string
+  reference: ReferencePose | null
+  frames: TimelineFrame[]
+  /** Acknowledge every alert, as the app does when the AlertEngine shows it. */
+  acknowledge: boolean
+  alerts: TimelineAlert[]
+}
+
+/** Frames every `stepMs` over [fromMs, toMs), built from the timestamp. */
+export function sequence(
+  fromMs: number,
+  toMs: number,
+  stepMs: number,
+  build: (t: number) => Results,
+): TimelineFrame[] {
+  const frames: TimelineFrame[] = []
+  for (let t = fromMs; t < toMs; t += stepMs) frames.push({ t, results: build(t) })
+  return frames
+}
+
+/**
+ * Feeds frames through a detector and collects what it emits. With `acknowledge`, every
+ * alert is acknowledged as if it were shown; without it the raw per-frame output is kept
+ * (detectors re-emit until acknowledged).
+ */
+export function runTimeline(
+  detector: TimelineDetector,
+  frames: TimelineFrame[],
+  opts: { acknowledge?: boolean } = {},
+): TimelineAlert[] {
+  const alerts: TimelineAlert[] = []
+  for (const { t, results } of frames) {
+    const alert = detector.update(results, t)
+    if (!alert) continue
+    alerts.push({ t, variant: alert.variant, reason: alert.reason })
+    if (opts.acknowledge) detector.acknowledge()
+  }
+  return alerts
+}
+
+/** Loads every recorded fixture (`*.jsonl` + `*.expected.json`) in `dir`. */
+export function loadRecordedFixtures(dir: string): RecordedFixture[] {
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.jsonl'))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -'.jsonl'.length)
+      const session = parseSession(readFileSync(join(dir, file), 'utf8'))
+      const expected = JSON.parse(readFileSync(join(dir, `${name}.expected.json`), 'utf8')) as {
+        detector: string
+        acknowledge?: boolean
+        alerts: TimelineAlert[]
+      }
+
+      return {
+        name,
+        detector: expected.detector,
+        reference: session.header.reference,
+        frames: session.frames.map((frame) => ({ t: frame.t, results: unpackFrame(frame) })),
+        acknowledge: expected.acknowledge ?? true,
+        alerts: expected.alerts,
+      }
+    })
+}
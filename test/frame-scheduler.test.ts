@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { type FrameMode, FrameScheduler, RateMeter } from '../src/core/frame-scheduler.ts'
+
+describe('RateMeter', () => {
+  test('reports frames per second over the window', () => {
+    const meter = new RateMeter(5_000)
+    for (let t = 0; t <= 4_000; t += 100) meter.record(t)
+    expect(meter.rate(4_000)).toBeCloseTo(10)
+  })
+
+  test('handles slow background rates', () => {
+    const meter = new RateMeter(5_000)
+    for (let t = 0; t <= 4_000; t += 1_000) meter.record(t)
+    expect(meter.rate(4_000)).toBeCloseTo(1)
+  })
+
+  test('drops to zero once frames stop arriving', () => {
+    const meter = new RateMeter(5_000)
+    meter.record(0)
+    meter.record(500)
+    expect(meter.rate(1_000)).toBeGreaterThan(0)
+    expect(meter.rate(6_000)).toBe(0)
+  })
+
+  test('a stall lowers the rate before it reaches zero', () => {
+    const meter = new RateMeter(5_000)
+    for (let t = 0; t <= 1_000; t += 100) meter.record(t)
+    expect(meter.rate(1_000)).toBeCloseTo(10)
+    expect(meter.rate(4_000)).toBeCloseTo(2.5)
+  })
+
+  test('reset forgets earlier frames', () => {
+    const meter = new RateMeter()
+    meter.record(0)
+    meter.record(100)
+    meter.reset()
+    expect(meter.rate(200)).toBe(0)
+  })
+})
+
+/**
+ * Just enough browser for the scheduler: page visibility, animation frames, timer workers
+ * (or none) and `setInterval`, all driven by hand. Restores the real globals afterwards.
+ */
+function fakeBrowser(opts: { workers?: boolean } = {}) {
+  const g = globalThis as Record<string, unknown>
+  const saved = new Map(
+    ['document', 'window', 'requestAnimationFrame', 'cancelAnimationFrame', 'Worker'].map((key) => [
+      key,
+      g[key],
+    ]),
+  )
+  const savedClearInterval = globalThis.clearInterval
+  const savedCreateObjectURL = URL.createObjectURL
+  const savedRevokeObjectURL = URL.revokeObjectURL
+
+  const listeners = new Set<() => void>()
+  const frames = new Map<number, () => void>()
+  const intervals = new Map<number, { ms: number; run: () => void }>()
+  const revoked: string[] = []
+  let nextId = 1
+
+  class FakeWorker {
+    public onmessage: (() => void) | null = null
+    public intervalMs = 0
+    public terminated = false
+    constructor() {
+      if (!opts.workers) throw new Error('Workers are disabled')
+      browser.workers.push(this)
+    }
+    public postMessage(ms: number): void {
+      this.intervalMs = ms
+    }
+    public terminate(): void {
+      this.terminated = true
+    }
+  }
+
+  const browser = {
+    visibility: 'visible' as 'visible' | 'hidden',
+    listeners,
+    frames,
+    intervals,
+    revoked,
+    workers: [] as FakeWorker[],
+    setVisibility(state: 'visible' | 'hidden') {
+      browser.visibility = state
+      for (const listener of listeners) listener()
+    },
+    /** Runs the pending animation frames, like one display refresh. */
+    refresh() {
+      const due = [...frames.values()]
+      frames.clear()
+      for (const run of due) run()
+    },
+    restore() {
+      for (const [key, value] of saved) g[key] = value
+      globalThis.clearInterval = savedClearInterval
+      URL.createObjectURL = savedCreateObjectURL
+      URL.revokeObjectURL = savedRevokeObjectURL
+    },
+  }
+
+  g.document = {
+    get visibilityState() {
+      return browser.visibility
+    },
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  }
+  g.requestAnimationFrame = (run: () => void) => {
+    frames.set(nextId, run)
+    return nextId++
+  }
+  g.cancelAnimationFrame = (id: number) => frames.delete(id)
+  g.Worker = FakeWorker
+  g.window = {
+    setInterval: (run: () => void, ms: number) => {
+      intervals.set(nextId, { ms, run })
+      return nextId++
+    },
+  }
+  globalThis.clearInterval = ((id: number) => intervals.delete(id)) as typeof clearInterval
+  URL.createObjectURL = () => 'blob:timer'
+  URL.revokeObjectURL = (url: string) => revoked.push(url)
+
+  return browser
+}
+
+/** Lets the scheduler's awaited ticks settle. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('FrameScheduler', () => {
+  let browser: ReturnType<typeof fakeBrowser> | null = null
+  afterEach(() => {
+    browser?.restore()
+    browser = null
+  })
+
+  function start(opts: { workers?: boolean; hidden?: boolean } = {}) {
+    browser = fakeBrowser(opts)
+    if (opts.hidden) browser.visibility = 'hidden'
+    const modes: FrameMode[] = []
+    let ticks = 0
+    const scheduler = new FrameScheduler({
+      backgroundIntervalMs: 500,
+      onModeChange: (mode) => modes.push(mode),
+    })
+    scheduler.start(async () => {
+      ticks++
+    })
+    return { browser, scheduler, modes, ticks: () => ticks }
+  }
+
+  test('runs once per animation frame while the tab is visible', async () => {
+    const { browser, modes, ticks } = start({ workers: true })
+    expect(modes).toEqual(['foreground'])
+    for (let i = 0; i < 3; i++) {
+      browser.refresh()
+      await settle()
+    }
+    expect(ticks()).toBe(3)
+    expect(browser.frames.size).toBe(1)
+    expect(browser.workers).toEqual([])
+  })
+
+  test('hands over to the worker timer while hidden and back again', async () => {
+    const { browser, scheduler, modes, ticks } = start({ workers: true })
+
+    browser.setVisibility('hidden')
+    expect(scheduler.getMode()).toBe('background')
+    expect(browser.frames.size).toBe(0)
+    const [worker] = browser.workers
+    expect(worker.intervalMs).toBe(500)
+
+    worker.onmessage?.()
+    await settle()
+    worker.onmessage?.()
+    await settle()
+    expect(ticks()).toBe(2)
+
+    scheduler.setBackgroundIntervalMs(1_000)
+    expect(worker.intervalMs).toBe(1_000)
+
+    browser.setVisibility('visible')
+    expect(modes).toEqual(['foreground', 'background', 'foreground'])
+    expect(worker.intervalMs).toBe(0)
+    expect(browser.frames.size).toBe(1)
+  })
+
+  test('drops background ticks that arrive while a frame is still processing', async () => {
+    browser = fakeBrowser({ workers: true })
+    browser.visibility = 'hidden'
+    let ticks = 0
+    let finish = () => {}
+    const scheduler = new FrameScheduler()
+    scheduler.start(() => {
+      ticks++
+      return new Promise<void>((resolve) => {
+        finish = resolve
+      })
+    })
+
+    const [worker] = browser.workers
+    worker.onmessage?.()
+    worker.onmessage?.()
+    expect(ticks).toBe(1)
+    finish()
+    await settle()
+    worker.onmessage?.()
+    expect(ticks).toBe(2)
+    scheduler.stop()
+  })
+
+  test('falls back to setInterval without workers', async () => {
+    const { browser, ticks } = start({ hidden: true })
+    expect(browser.workers).toEqual([])
+    const [timer] = [...browser.intervals.values()]
+    expect(timer.ms).toBe(500)
+
+    timer.run()
+    await settle()
+    expect(ticks()).toBe(1)
+
+    browser.setVisibility('visible')
+    expect(browser.intervals.size).toBe(0)
+    expect(browser.frames.size).toBe(1)
+  })
+
+  test('stop tears everything down', async () => {
+    const { browser, scheduler, ticks } = start({ workers: true, hidden: true })
+    const [worker] = browser.workers
+
+    scheduler.stop()
+    expect(worker.terminated).toBe(true)
+    expect(browser.revoked).toEqual(['blob:timer'])
+    expect(browser.listeners.size).toBe(0)
+
+    worker.onmessage?.()
+    browser.refresh()
+    await settle()
+    expect(ticks()).toBe(0)
+  })
+})
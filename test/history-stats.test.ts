@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test'
+
+import { type HistoryMinute, MINUTE_MS } from '../src/core/history.ts'
+import {
+  bucketHistory,
+  hourHeatmap,
+  rangeBounds,
+  shiftAnchor,
+  summarizeHistory,
+} from '../src/core/history-stats.ts'
+
+/** Local time, so the tests hold in any time zone. */
+function at(day: number, hour: number, minute = 0): number {
+  return new Date(2026, 0, day, hour, minute).getTime()
+}
+
+function minute(start: number, overrides: Partial<HistoryMinute> = {}): HistoryMinute {
+  return {
+    minute: start,
+    scoredFrames: 600,
+    scoreSum: 600 * 80,
+    minScore: 70,
+    badPostureMs: 0,
+    presentMs: MINUTE_MS,
+    monitoredMs: MINUTE_MS,
+    alerts: {},
+    ...overrides,
+  }
+}
+
+describe('rangeBounds', () => {
+  test('a day runs from local midnight to the next in 15-minute buckets', () => {
+    const bounds = rangeBounds('day', at(7, 14, 30))
+    expect(bounds.startMs).toBe(at(7, 0))
+    expect(bounds.endMs).toBe(at(8, 0))
+    expect(bounds.dayStarts).toEqual([at(7, 0), at(8, 0)])
+    expect(bounds.bucketMs).toBe(15 * MINUTE_MS)
+  })
+
+  test('a week starts on Monday', () => {
+    // 2026-01-07 is a Wednesday; 2026-01-11 a Sunday.
+    for (const anchor of [at(7, 9), at(5, 0), at(11, 23)]) {
+      const bounds = rangeBounds('week', anchor)
+      expect(bounds.startMs).toBe(at(5, 0))
+      expect(bounds.endMs).toBe(at(12, 0))
+      expect(bounds.dayStarts).toHaveLength(8)
+    }
+  })
+
+  test('shiftAnchor steps by a day or a week', () => {
+    expect(shiftAnchor('day', at(7, 14), -1)).toBe(at(6, 0))
+    expect(shiftAnchor('week', at(7, 14), 1)).toBe(at(14, 0))
+  })
+})
+
+describe('summarizeHistory', () => {
+  test('weights the mean by frames and sums times and alerts', () => {
+    const summary = summarizeHistory([
+      minute(at(7, 9, 0), { alerts: { posture: 2 }, badPostureMs: 20_000 }),
+      minute(at(7, 9, 1), {
+        scoredFrames: 200,
+        scoreSum: 200 * 40,
+        minScore: 30,
+        presentMs: 30_000,
+        alerts: { posture: 1, lean: 1 },
+      }),
+    ])
+    expect(summary.meanScore).toBe(70)
+    expect(summary.minScore).toBe(30)
+    expect(summary.badPostureMs).toBe(20_000)
+    expect(summary.presentMs).toBe(90_000)
+    expect(summary.monitoredMs).toBe(2 * MINUTE_MS)
+    expect(summary.alerts).toEqual({ posture: 3, lean: 1 })
+  })
+
+  test('is empty without history', () => {
+    expect(summarizeHistory([])).toEqual({
+      monitoredMs: 0,
+      presentMs: 0,
+      badPostureMs: 0,
+      meanScore: null,
+      minScore: null,
+      alerts: {},
+    })
+  })
+})
+
+describe('bucketHistory', () => {
+  test('groups minutes into fixed buckets and leaves gaps empty', () => {
+    const start = at(7, 9)
+    const buckets = bucketHistory(
+      [
+        minute(at(7, 9, 2), { badPostureMs: 10_000 }),
+        minute(at(7, 9, 14), { minScore: 50, badPostureMs: 5_000 }),
+        minute(at(7, 9, 40)),
+        minute(at(7, 10, 0)),
+      ],
+      start,
+      at(7, 10),
+      15 * MINUTE_MS,
+    )
+    expect(buckets.map((b) => b.start)).toEqual([start, at(7, 9, 15), at(7, 9, 30), at(7, 9, 45)])
+    expect(buckets[0]).toEqual({
+      start,
+      meanScore: 80,
+      minScore: 50,
+      badPostureMs: 15_000,
+      monitoredMs: 2 * MINUTE_MS,
+    })
+    expect(buckets[1].meanScore).toBeNull()
+    expect(buckets[2].monitoredMs).toBe(MINUTE_MS)
+  })
+})
+
+describe('hourHeatmap', () => {
+  test('reports the bad-posture share of present time per day and hour', () => {
+    const { dayStarts } = rangeBounds('week', at(7, 12))
+    const heatmap = hourHeatmap(
+      [
+        minute(at(5, 9, 0), { badPostureMs: 30_000 }),
+        minute(at(5, 9, 1), { badPostureMs: 0 }),
+        minute(at(7, 15, 0), { badPostureMs: 60_000 }),
+        minute(at(7, 16, 0), { presentMs: 0 }),
+        minute(at(12, 9, 0), { badPostureMs: 60_000 }),
+      ],
+      dayStarts,
+    )
+    expect(heatmap).toHaveLength(7)
+    expect(heatmap[0]).toHaveLength(24)
+    expect(heatmap[0][9]).toBe(0.25)
+    expect(heatmap[2][15]).toBe(1)
+    expect(heatmap[2][16]).toBeNull()
+    expect(heatmap[0][10]).toBeNull()
+    expect(heatmap.flat().filter((cell) => cell !== null)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  HistoryAggregator,
+  type HistoryFrame,
+  type HistoryMinute,
+  MINUTE_MS,
+  meanScore,
+  mergeMinutes,
+  minuteStart,
+} from '../src/core/history.ts'
+
+/** 2026-01-01T00:00:00Z, on a minute boundary. */
+const T0 = Date.UTC(2026, 0, 1)
+
+function frame(timeMs: number, overrides: Partial<HistoryFrame> = {}): HistoryFrame {
+  return { timeMs, score: 90, badPosture: false, present: true, ...overrides }
+}
+
+/** Feeds one frame every `stepMs` in [from, to). */
+function feed(
+  history: HistoryAggregator,
+  from: number,
+  to: number,
+  stepMs: number,
+  build: (t: number) => Partial<HistoryFrame> = () => ({}),
+): void {
+  for (let t = from; t < to; t += stepMs) history.addFrame(frame(t, build(t)))
+}
+
+describe('minuteStart', () => {
+  test('floors to the wall-clock minute', () => {
+    expect(minuteStart(T0 + 59_999)).toBe(T0)
+    expect(minuteStart(T0 + 60_000)).toBe(T0 + MINUTE_MS)
+  })
+})
+
+describe('HistoryAggregator', () => {
+  test('aggregates score, bad posture and presence time within a minute', () => {
+    const history = new HistoryAggregator()
+    feed(history, T0, T0 + 30_000, 100, (t) => {
+      const slouched = t >= T0 + 10_000 && t < T0 + 20_000
+      return { score: slouched ? 60 : 90, badPosture: slouched, present: t < T0 + 25_000 }
+    })
+
+    const [minute] = history.flush()
+    expect(minute.minute).toBe(T0)
+    expect(minute.scoredFrames).toBe(300)
+    expect(meanScore(minute)).toBeCloseTo(80, 10)
+    expect(minute.minScore).toBe(60)
+    expect(minute.badPostureMs).toBe(10_000)
+    expect(minute.presentMs).toBe(24_900)
+    expect(minute.monitoredMs).toBe(29_900)
+  })
+
+  test('queues each minute once the next one starts', () => {
+    const history = new HistoryAggregator()
+    feed(history, T0, T0 + 60_000, 1_000)
+    expect(history.hasCompleted()).toBe(false)
+
+    history.addFrame(frame(T0 + 60_000))
+    expect(history.hasCompleted()).toBe(true)
+    expect(history.takeCompleted().map((m) => m.minute)).toEqual([T0])
+    expect(history.hasCompleted()).toBe(false)
+    expect(history.flush().map((m) => m.minute)).toEqual([T0 + MINUTE_MS])
+  })
+
+  test('frames without a score count time but not score', () => {
+    const history = new HistoryAggregator()
+    feed(history, T0, T0 + 5_000, 100, () => ({ score: null, present: false }))
+
+    const [minute] = history.flush()
+    expect(meanScore(minute)).toBeNull()
+    expect(minute.minScore).toBeNull()
+    expect(minute.monitoredMs).toBe(4_900)
+    expect(minute.presentMs).toBe(0)
+  })
+
+  test('gaps (stopped loop, throttled tab) add no time', () => {
+    const history = new HistoryAggregator()
+    history.addFrame(frame(T0))
+    history.addFrame(frame(T0 + 1_000))
+    history.addFrame(frame(T0 + 30_000))
+    history.addFrame(frame(T0 + 31_000))
+    expect(history.flush()[0].monitoredMs).toBe(2_000)
+
+    history.pause()
+    history.addFrame(frame(T0 + 31_500))
+    expect(history.flush()[0].monitoredMs).toBe(0)
+  })
+
+  test('counts alerts by type in the minute they fired', () => {
+    const history = new HistoryAggregator()
+    history.addFrame(frame(T0))
+    history.addAlert('posture', T0 + 1_000)
+    history.addAlert('posture', T0 + 2_000)
+    history.addAlert('camera-shift', T0 + 3_000)
+    history.addAlert('posture', T0 + 61_000)
+
+    const [first, second] = history.flush()
+    expect(first.alerts).toEqual({ posture: 2, 'camera-shift': 1 })
+    expect(second.alerts).toEqual({ posture: 1 })
+  })
+})
+
+describe('mergeMinutes', () => {
+  test('combines two partial records of the same minute', () => {
+    const a: HistoryMinute = {
+      minute: T0,
+      scoredFrames: 10,
+      scoreSum: 900,
+      minScore: 85,
+      badPostureMs: 0,
+      presentMs: 1_000,
+      monitoredMs: 1_000,
+      alerts: { posture: 1 },
+    }
+    const b: HistoryMinute = {
+      ...a,
+      scoredFrames: 10,
+      scoreSum: 500,
+      minScore: 40,
+      badPostureMs: 1_000,
+      alerts: { posture: 1, lean: 2 },
+    }
+
+    const merged = mergeMinutes(a, b)
+    expect(meanScore(merged)).toBe(70)
+    expect(merged.minScore).toBe(40)
+    expect(merged.badPostureMs).toBe(1_000)
+    expect(merged.monitoredMs).toBe(2_000)
+    expect(merged.alerts).toEqual({ posture: 2, lean: 2 })
+    expect(mergeMinutes(a, { ...b, scoredFrames: 0, minScore: null }).minScore).toBe(85)
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, expect, test } from 'bun:test'
+
+import { PostureDeviation, type PostureDeviationOptions } from '../src/core/posture.ts'
+import { calculateTriangleRatio, type ReferencePose } from '../src/core/reference-store.ts'
+import {
+  dropHead,
+  poseLandmarks,
+  referenceFrom,
+  results,
+  roundShoulders,
+  type Triangle,
+  UPRIGHT,
+} from './fixtures/landmarks.ts'
+import { runTimeline, sequence, type TimelineFrame } from './fixtures/timeline.ts'
+
+const REFERENCE = referenceFrom(UPRIGHT)
+const SLOUCHED = roundShoulders(UPRIGHT, 0.1)
+
+function detector(opts: PostureDeviationOptions = {}, reference: ReferencePose = REFERENCE) {
+  const posture = new PostureDeviation(opts)
+  return {
+    posture,
+    update: (r: Parameters<PostureDeviation['update']>[0], nowMs: number) =>
+      posture.update(r, reference, nowMs),
+    acknowledge: () => posture.acknowledge(),
+  }
+}
+
+/** Upright until `fromMs`, then `pose` until `toMs`, then upright again. */
+function slouch(
+  pose: Triangle,
+  fromMs: number,
+  toMs: number,
+  endMs: number,
+  stepMs = 100,
+): TimelineFrame[] {
+  return sequence(0, endMs, stepMs, (t) =>
+    results({ pose: poseLandmarks(t >= fromMs && t < toMs ? pose : UPRIGHT) }),
+  )
+}
+
+describe('calculateTriangleRatio', () => {
+  test('is shoulder width over the nose-to-shoulder-midpoint distance', () => {
+    expect(calculateTriangleRatio(UPRIGHT.nose, UPRIGHT.leftShoulder, UPRIGHT.rightShoulder)).toBe(
+      REFERENCE.ratio,
+    )
+    expect(REFERENCE.ratio).toBeCloseTo(1.5, 10)
+  })
+
+  test('is scale invariant (same posture, closer to the camera)', () => {
+    const scaled = (p: { x: number; y: number }) => ({ x: 0.5 + (p.x - 0.5) * 1.4, y: p.y * 1.4 })
+    const ratio = calculateTriangleRatio(
+      scaled(UPRIGHT.nose),
+      scaled(UPRIGHT.leftShoulder),
+      scaled(UPRIGHT.rightShoulder),
+    )
+    expect(ratio).toBeCloseTo(REFERENCE.ratio, 10)
+  })
+
+  test('returns 0 when the nose sits on the shoulder midpoint', () => {
+    expect(
+      calculateTriangleRatio({ x: 0.5, y: 0.6 }, UPRIGHT.leftShoulder, UPRIGHT.rightShoulder),
+    ).toBe(0)
+  })
+
+  test('drops by the requested fraction when the shoulders round', () => {
+    const { nose, leftShoulder, rightShoulder } = SLOUCHED
+    expect(calculateTriangleRatio(nose, leftShoulder, rightShoulder)).toBeCloseTo(
+      REFERENCE.ratio * 0.9,
+      10,
+    )
+  })
+})
+
+describe('PostureDeviation', () => {
+  test('stays quiet while upright', () => {
+    const frames = sequence(0, 10_000, 100, () => results({ pose: poseLandmarks(UPRIGHT) }))
+    expect(runTimeline(detector(), frames)).toEqual([])
+  })
+
+  test('ignores a ratio drop below the threshold', () => {
+    const frames = slouch(roundShoulders(UPRIGHT, 0.05), 1_000, 10_000, 10_000)
+    expect(runTimeline(detector(), frames)).toEqual([])
+  })
+
+  test('alerts once the drop has held for triggerMs', () => {
+    // 10% drop: smoothing crosses the 7% threshold ~600ms after the slouch, then 3s streak.
+    const frames = slouch(SLOUCHED, 2_000, 8_000, 8_000)
+    expect(runTimeline(detector(), frames, { acknowledge: true })).toEqual([
+      { t: 5_600, variant: 'normal', reason: 'Posture' },
+    ])
+  })
+
+  test('honors a shorter triggerMs', () => {
+    const frames = slouch(SLOUCHED, 2_000, 8_000, 8_000)
+    const alerts = runTimeline(detector({ triggerMs: 1_000 }), frames, { acknowledge: true })
+    expect(alerts.map((a) => a.t)).toEqual([3_600])
+  })
+
+  test('timing does not depend on the frame rate', () => {
+    for (const stepMs of [33, 100, 250]) {
+      const frames = slouch(SLOUCHED, 2_000, 9_000, 9_000, stepMs)
+      const [first] = runTimeline(detector(), frames, { acknowledge: true })
+      expect(first.t).toBeGreaterThanOrEqual(5_400)
+      expect(first.t).toBeLessThanOrEqual(5_900)
+    }
+  })
+
+  test('restarts the streak when posture recovers in between', () => {
+    const frames = sequence(0, 12_000, 100, (t) => {
+      const bad = (t >= 2_000 && t < 4_500) || t >= 6_000
+      return results({ pose: poseLandmarks(bad ? SLOUCHED : UPRIGHT) })
+    })
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    // The smoothed ratio has not fully recovered, so it re-crosses slightly sooner.
+    expect(alerts.map((a) => a.t)).toEqual([9_500])
+  })
+
+  test('re-emits every frame until acknowledged', () => {
+    const frames = slouch(SLOUCHED, 2_000, 8_000, 8_000)
+    const alerts = runTimeline(detector(), frames)
+    expect(alerts[0].t).toBe(5_600)
+    expect(alerts).toHaveLength(24)
+  })
+
+  test('stays quiet after acknowledge until posture recovers, then alerts again', () => {
+    const frames = sequence(0, 16_000, 100, (t) => {
+      const bad = (t >= 2_000 && t < 8_000) || t >= 10_000
+      return results({ pose: poseLandmarks(bad ? SLOUCHED : UPRIGHT) })
+    })
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    expect(alerts.map((a) => a.t)).toEqual([5_600, 13_500])
+  })
+
+  test('reports low confidence when the head dropped (tilt guard)', () => {
+    // 40% narrower shoulders + nose 25% closer to them: ratio still 20% low, head delta 75%.
+    const tilted = dropHead(roundShoulders(UPRIGHT, 0.4), 0.25)
+    const frames = slouch(tilted, 1_000, 8_000, 8_000)
+    const [alert] = runTimeline(detector(), frames, { acknowledge: true })
+    expect(alert.variant).toBe('low-confidence')
+  })
+
+  test('a head drop alone raises the ratio and does not alert', () => {
+    const frames = slouch(dropHead(UPRIGHT, 0.3), 1_000, 8_000, 8_000)
+    expect(runTimeline(detector(), frames)).toEqual([])
+  })
+
+  test('a calibrated reference overrides the sensitivity threshold', () => {
+    const calibrated: ReferencePose = {
+      ...REFERENCE,
+      calibration: { slouchRatio: REFERENCE.ratio * 0.94, ratioDropThreshold: 0.03 },
+    }
+    const frames = slouch(roundShoulders(UPRIGHT, 0.05), 1_000, 8_000, 8_000)
+    expect(runTimeline(detector({}, calibrated), frames)).not.toEqual([])
+    expect(runTimeline(detector(), frames)).toEqual([])
+  })
+
+  test('resets the streak when pose landmarks are lost', () => {
+    const frames = sequence(0, 10_000, 100, (t) => {
+      if (t === 4_000) return results({})
+      return results({ pose: poseLandmarks(t >= 2_000 ? SLOUCHED : UPRIGHT) })
+    })
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    // The smoother restarts from the (already slouched) live value, so only the 3s streak remains.
+    expect(alerts.map((a) => a.t)).toEqual([7_100])
+  })
+
+  test('reset() clears an acknowledged episode', () => {
+    const d = detector()
+    runTimeline(d, slouch(SLOUCHED, 0, 5_000, 5_000), { acknowledge: true })
+    d.posture.reset()
+    const alerts = runTimeline(
+      d,
+      sequence(5_000, 9_000, 100, () => results({ pose: poseLandmarks(SLOUCHED) })),
+    )
+    expect(alerts[0].t).toBe(8_000)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+
+import { PresenceTracker } from '../src/core/presence.ts'
+import { poseLandmarks, results, UPRIGHT } from './fixtures/landmarks.ts'
+
+const MINUTE = 60_000
+const SEATED = results({ pose: poseLandmarks(UPRIGHT) })
+
+describe('PresenceTracker', () => {
+  test('reminds at the sit limit, then every interval once acknowledged', () => {
+    const tracker = new PresenceTracker({ sitLimitMs: 10 * MINUTE, reminderIntervalMs: 5 * MINUTE })
+    tracker.update(SEATED, 0)
+    expect(tracker.update(SEATED, 9 * MINUTE)).toBeNull()
+    expect(tracker.update(SEATED, 10 * MINUTE)?.seatedMs).toBe(10 * MINUTE)
+
+    tracker.acknowledge()
+    expect(tracker.update(SEATED, 14 * MINUTE)).toBeNull()
+    expect(tracker.update(SEATED, 15 * MINUTE)).not.toBeNull()
+  })
+
+  test('changing options keeps an acknowledged reminder acknowledged', () => {
+    const tracker = new PresenceTracker({ sitLimitMs: 10 * MINUTE, reminderIntervalMs: 5 * MINUTE })
+    tracker.update(SEATED, 0)
+    tracker.update(SEATED, 11 * MINUTE)
+    tracker.acknowledge()
+
+    tracker.setOptions({ breakAfterAbsentMs: 5 * MINUTE })
+    expect(tracker.update(SEATED, 12 * MINUTE)).toBeNull()
+    expect(tracker.getSeatedMs()).toBe(12 * MINUTE)
+
+    // A longer sit limit moves the next reminder out; a shorter interval brings it in.
+    tracker.setOptions({ sitLimitMs: 20 * MINUTE })
+    expect(tracker.update(SEATED, 19 * MINUTE)).toBeNull()
+    expect(tracker.update(SEATED, 20 * MINUTE)).not.toBeNull()
+    tracker.acknowledge()
+    tracker.setOptions({ sitLimitMs: 10 * MINUTE, reminderIntervalMs: 2 * MINUTE })
+    expect(tracker.update(SEATED, 21 * MINUTE)).toBeNull()
+    expect(tracker.update(SEATED, 22 * MINUTE)).not.toBeNull()
+  })
+
+  test('a long enough absence is a break', () => {
+    const tracker = new PresenceTracker({ breakAfterAbsentMs: 2 * MINUTE })
+    tracker.update(SEATED, 0)
+    tracker.update(SEATED, 30 * MINUTE)
+    tracker.update(results({}), 31 * MINUTE)
+    expect(tracker.getSeatedMs()).toBe(30 * MINUTE)
+    tracker.update(results({}), 32 * MINUTE)
+    expect(tracker.getSeatedMs()).toBeNull()
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  classifyFaceZone,
+  type FaceZone,
+  HandFaceProximity,
+  type HandFaceProximityOptions,
+} from '../src/core/proximity.ts'
+import {
+  type FaceBox,
+  type FrameParts,
+  faceLandmarks,
+  facePoint,
+  handLandmarks,
+  type Pt,
+  results,
+} from './fixtures/landmarks.ts'
+import { runTimeline, sequence, type TimelineFrame } from './fixtures/timeline.ts'
+
+const FACE: FaceBox = { cx: 0.5, cy: 0.3, size: 0.2 }
+
+/** Zone anchor heights used by the synthetic face mesh. */
+const ZONE_FRACTIONS: Record<FaceZone, number> = {
+  hair: 0,
+  eyes: 0.35,
+  nose: 0.55,
+  mouth: 0.72,
+  chin: 1,
+}
+
+function detector(opts: HandFaceProximityOptions = {}) {
+  const proximity = new HandFaceProximity(opts)
+  return {
+    proximity,
+    update: (r: Parameters<HandFaceProximity['update']>[0], nowMs: number) =>
+      proximity.update(r, nowMs),
+    acknowledge: () => proximity.acknowledge(),
+  }
+}
+
+/** Face in view throughout; the right hand is at `hand(t)` (or out of view when null). */
+function touching(hand: (t: number) => Pt | null, endMs: number): TimelineFrame[] {
+  return sequence(0, endMs, 100, (t) => {
+    const center = hand(t)
+    const parts: FrameParts = { face: faceLandmarks(FACE) }
+    if (center) parts.rightHand = handLandmarks(center)
+    return results(parts)
+  })
+}
+
+const ON_MOUTH = facePoint(FACE, ZONE_FRACTIONS.mouth)
+const AWAY = { x: 0.9, y: 0.8, z: -0.05 }
+
+describe('classifyFaceZone', () => {
+  const face = faceLandmarks(FACE)
+  const rect = { minX: 0.4, minY: 0.2, maxX: 0.6, maxY: 0.4 }
+
+  for (const zone of Object.keys(ZONE_FRACTIONS) as FaceZone[]) {
+    test(`picks ${zone} for a hand on the ${zone} anchors`, () => {
+      const hand = handLandmarks(facePoint(FACE, ZONE_FRACTIONS[zone]))
+      expect(classifyFaceZone(hand, face, rect)).toBe(zone)
+    })
+  }
+
+  test('falls back to the position in the face box without mesh anchors', () => {
+    const hand = [facePoint(FACE, 0.75)]
+    expect(classifyFaceZone(hand, [], rect)).toBe('mouth')
+    expect(classifyFaceZone([facePoint(FACE, 0.1)], [], rect)).toBe('hair')
+  })
+})
+
+describe('HandFaceProximity', () => {
+  test('alerts with the zone reason after triggerMs', () => {
+    const frames = touching(() => ON_MOUTH, 2_000)
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    expect(alerts).toEqual([
+      { t: 300, variant: 'normal', reason: 'Hands near mouth — nail biting?' },
+    ])
+  })
+
+  test('ignores a touch shorter than triggerMs', () => {
+    const frames = touching((t) => (t >= 1_000 && t < 1_200 ? ON_MOUTH : AWAY), 3_000)
+    expect(runTimeline(detector(), frames)).toEqual([])
+  })
+
+  test('respects the distance threshold around the face box', () => {
+    // The hand cluster's nearest point ends up `gap` (in face sizes) right of the box.
+    const beside = (gap: number) => ({ x: 0.6 + FACE.size * gap + 0.01, y: 0.3, z: -0.05 })
+
+    const near = touching(() => beside(0.1), 1_000)
+    const far = touching(() => beside(0.3), 1_000)
+
+    expect(runTimeline(detector(), near)).not.toEqual([])
+    expect(runTimeline(detector(), far)).toEqual([])
+    expect(runTimeline(detector({ normalizedDistanceThreshold: 0.35 }), far)).not.toEqual([])
+  })
+
+  test('re-emits every frame until acknowledged', () => {
+    const alerts = runTimeline(
+      detector(),
+      touching(() => ON_MOUTH, 1_000),
+    )
+    expect(alerts.map((a) => a.t)).toEqual([300, 400, 500, 600, 700, 800, 900])
+  })
+
+  test('after acknowledge, alerts again only once the hand left and came back', () => {
+    const frames = touching((t) => (t < 1_000 || t >= 1_500 ? ON_MOUTH : AWAY), 3_000)
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    expect(alerts.map((a) => a.t)).toEqual([300, 1_800])
+  })
+
+  test('gates on depth: a hand far in front of the face does not count', () => {
+    const frames = touching(() => ({ ...ON_MOUTH, z: -0.3 }), 1_000)
+    expect(runTimeline(detector(), frames)).toEqual([])
+    expect(runTimeline(detector({ zDistanceThreshold: 0.3 }), frames)).not.toEqual([])
+  })
+
+  test('skips the depth gate when the hand has no Z', () => {
+    const frames = sequence(0, 1_000, 100, () =>
+      results({
+        face: faceLandmarks(FACE),
+        rightHand: handLandmarks(ON_MOUTH).map(({ x, y }) => ({ x, y })),
+      }),
+    )
+    expect(runTimeline(detector(), frames)).not.toEqual([])
+  })
+
+  test('restarts the timer when the face or hands are lost', () => {
+    const lostFace = sequence(0, 2_000, 100, (t) =>
+      t === 200
+        ? results({ rightHand: handLandmarks(ON_MOUTH) })
+        : results({ face: faceLandmarks(FACE), rightHand: handLandmarks(ON_MOUTH) }),
+    )
+    expect(runTimeline(detector(), lostFace, { acknowledge: true }).map((a) => a.t)).toEqual([600])
+
+    const lostHand = touching((t) => (t === 200 ? null : ON_MOUTH), 2_000)
+    expect(runTimeline(detector(), lostHand, { acknowledge: true }).map((a) => a.t)).toEqual([600])
+  })
+
+  test('losing landmarks re-arms an acknowledged episode', () => {
+    const frames = touching((t) => (t === 1_000 ? null : ON_MOUTH), 2_000)
+    const alerts = runTimeline(detector(), frames, { acknowledge: true })
+    expect(alerts.map((a) => a.t)).toEqual([300, 1_400])
+  })
+
+  test('ignores zones that are turned off', () => {
+    const noMouth = detector({ enabledZones: ['nose', 'eyes', 'chin', 'hair'] })
+    expect(
+      runTimeline(
+        noMouth,
+        touching(() => ON_MOUTH, 1_000),
+      ),
+    ).toEqual([])
+
+    const onEyes = facePoint(FACE, ZONE_FRACTIONS.eyes)
+    const [alert] = runTimeline(
+      noMouth,
+      touching(() => onEyes, 1_000),
+    )
+    expect(alert.reason).toBe('Hands near eyes — try not to rub them')
+  })
+
+  test('reports low confidence for a small (far away) face', () => {
+    const small: FaceBox = { cx: 0.5, cy: 0.3, size: 0.06 }
+    const hand = facePoint(small, ZONE_FRACTIONS.mouth)
+    const frames = sequence(0, 1_000, 100, () =>
+      results({ face: faceLandmarks(small), leftHand: handLandmarks(hand, 0.003) }),
+    )
+    const [alert] = runTimeline(detector(), frames)
+    expect(alert.variant).toBe('low-confidence')
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+
+import {
+  parseQuietHours,
+  type QuietHoursRule,
+  quietHoursEnd,
+  snoozeEnd,
+} from '../src/core/quiet-hours.ts'
+
+/** Local time on Monday 5 January 2026 (plus `dayOffset` days). */
+function at(hour: number, minute = 0, dayOffset = 0): number {
+  return new Date(2026, 0, 5 + dayOffset, hour, minute).getTime()
+}
+
+const WEEKNIGHTS: QuietHoursRule = {
+  days: [1, 2, 3, 4, 5],
+  startMinute: 22 * 60,
+  endMinute: 7 * 60,
+}
+const LUNCH: QuietHoursRule = { days: [1, 2, 3, 4, 5], startMinute: 12 * 60, endMinute: 13 * 60 }
+
+describe('quietHoursEnd', () => {
+  test('same-day window', () => {
+    expect(quietHoursEnd([LUNCH], at(12, 30))).toBe(at(13))
+    expect(quietHoursEnd([LUNCH], at(13))).toBeNull()
+    expect(quietHoursEnd([LUNCH], at(11, 59))).toBeNull()
+  })
+
+  test('a window past midnight belongs to the day it starts', () => {
+    // Monday 23:00 until Tuesday 07:00
+    expect(quietHoursEnd([WEEKNIGHTS], at(23))).toBe(at(7, 0, 1))
+    expect(quietHoursEnd([WEEKNIGHTS], at(3, 0, 1))).toBe(at(7, 0, 1))
+    // Friday night runs into Saturday morning, but Sunday night is not quiet.
+    expect(quietHoursEnd([WEEKNIGHTS], at(6, 0, 5))).toBe(at(7, 0, 5))
+    expect(quietHoursEnd([WEEKNIGHTS], at(23, 0, 6))).toBeNull()
+    // Monday early morning belongs to Sunday night.
+    expect(quietHoursEnd([WEEKNIGHTS], at(6))).toBeNull()
+  })
+
+  test('follows touching windows to the last end', () => {
+    const afternoon: QuietHoursRule = { days: [1], startMinute: 13 * 60, endMinute: 14 * 60 }
+    expect(quietHoursEnd([LUNCH, afternoon], at(12, 15))).toBe(at(14))
+  })
+
+  test('no rules, no quiet hours', () => {
+    expect(quietHoursEnd([], at(12))).toBeNull()
+  })
+})
+
+describe('snoozeEnd', () => {
+  test('fixed durations and until tomorrow', () => {
+    expect(snoozeEnd('15m', at(10))).toBe(at(10, 15))
+    expect(snoozeEnd('60m', at(10))).toBe(at(11))
+    expect(snoozeEnd('tomorrow', at(10))).toBe(at(0, 0, 1))
+  })
+})
+
+describe('parseQuietHours', () => {
+  test('keeps valid rules and drops malformed ones', () => {
+    expect(
+      parseQuietHours([
+        { days: [5, 1, 9], startMinute: 60, endMinute: 120 },
+        { days: [1], startMinute: 24 * 60, endMinute: 0 },
+        { days: 'mon', startMinute: 0, endMinute: 60 },
+        null,
+      ]),
+    ).toEqual([{ days: [1, 5], startMinute: 60, endMinute: 120 }])
+    expect(parseQuietHours('nope')).toEqual([])
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test'
+
+import { POSE_LANDMARK_NAMES, type PoseLandmarkName } from '../src/core/landmarks.ts'
+import { type CustomRule, CustomRuleDetector, parseRules } from '../src/core/rules.ts'
+import { type Pt, poseLandmarks, results, UPRIGHT } from './fixtures/landmarks.ts'
+import { runTimeline, sequence } from './fixtures/timeline.ts'
+
+const FRAME_MS = 100
+
+const HAND_UP: CustomRule = {
+  id: 'hand-up',
+  message: 'Right hand above nose',
+  forMs: 1_000,
+  when: { above: ['right_wrist', 'nose'] },
+}
+
+const UNEVEN: CustomRule = {
+  id: 'uneven',
+  message: 'Shoulders uneven',
+  forMs: 0,
+  when: { gt: [{ abs: { delta: ['y', 'left_shoulder', 'right_shoulder'] } }, 0.05] },
+}
+
+/** Upright pose with some landmarks moved. */
+function pose(moves: Partial<Record<PoseLandmarkName, Pt>> = {}) {
+  const points = poseLandmarks(UPRIGHT)
+  for (const [name, point] of Object.entries(moves)) {
+    points[POSE_LANDMARK_NAMES.indexOf(name as PoseLandmarkName)] = { ...point, visibility: 1 }
+  }
+  return results({ pose: points })
+}
+
+const HAND_RAISED = { right_wrist: { x: 0.4, y: 0.2 } }
+const SHOULDER_DROPPED = { left_shoulder: { x: 0.65, y: 0.7 } }
+
+function detector(rules: CustomRule[]) {
+  const rulesDetector = new CustomRuleDetector(rules)
+  return {
+    update: (r: Parameters<CustomRuleDetector['update']>[0], nowMs: number) =>
+      rulesDetector.update(r, nowMs),
+    acknowledge: () => rulesDetector.acknowledge(),
+  }
+}
+
+describe('parseRules', () => {
+  test('accepts the documented example', () => {
+    const { rules, errors } = parseRules(JSON.stringify([HAND_UP, UNEVEN]))
+    expect(errors).toEqual([])
+    expect(rules).toEqual([HAND_UP, UNEVEN])
+  })
+
+  test('reports every problem with its path and applies none of the rules', () => {
+    const { rules, errors } = parseRules(
+      JSON.stringify([
+        HAND_UP,
+        { ...HAND_UP, message: 'Again' },
+        { ...UNEVEN, forMs: -5, when: { above: ['right_wrist', 'noze'] } },
+      ]),
+    )
+    expect(rules).toEqual([])
+    expect(errors).toEqual([
+      '[1].id: duplicate id "hand-up"',
+      '[2].forMs: expected a duration in ms (>= 0)',
+      '[2].when.above[1]: unknown landmark "noze"',
+    ])
+  })
+
+  test('rejects malformed input', () => {
+    expect(parseRules('').errors).toEqual([])
+    expect(parseRules('{').errors[0]).toStartWith('Invalid JSON:')
+    expect(parseRules('{}').errors).toEqual(['Expected an array of rules'])
+    expect(
+      parseRules('[{ "id": "a", "message": "m", "forMs": "1s", "when": { "lt": [1] } }]').errors,
+    ).toEqual([
+      '[0].forMs: expected a duration in ms (>= 0)',
+      '[0].when.lt: expected [value, value]',
+    ])
+  })
+})
+
+describe('CustomRuleDetector', () => {
+  test('alerts once the condition has held for forMs', () => {
+    const frames = [
+      ...sequence(0, 1_000, FRAME_MS, () => pose()),
+      ...sequence(1_000, 3_000, FRAME_MS, () => pose(HAND_RAISED)),
+    ]
+    const alerts = runTimeline(detector([HAND_UP]), frames, { acknowledge: true })
+    expect(alerts).toEqual([{ t: 2_000, variant: 'normal', reason: 'Right hand above nose' }])
+  })
+
+  test('a rule re-emits until acknowledged and alerts again after its condition clears', () => {
+    const frames = [
+      ...sequence(0, 300, FRAME_MS, () => pose(SHOULDER_DROPPED)),
+      ...sequence(300, 500, FRAME_MS, () => pose()),
+      ...sequence(500, 700, FRAME_MS, () => pose(SHOULDER_DROPPED)),
+    ]
+    expect(runTimeline(detector([UNEVEN]), frames).map((a) => a.t)).toEqual([0, 100, 200, 500, 600])
+    expect(runTimeline(detector([UNEVEN]), frames, { acknowledge: true }).map((a) => a.t)).toEqual([
+      0, 500,
+    ])
+  })
+
+  test('earlier rules win, and acknowledging one lets the next through', () => {
+    const both = { ...HAND_RAISED, ...SHOULDER_DROPPED }
+    const frames = sequence(0, 1_500, FRAME_MS, () => pose(both))
+    const alerts = runTimeline(detector([{ ...HAND_UP, forMs: 0 }, UNEVEN]), frames, {
+      acknowledge: true,
+    })
+    expect(alerts.map((a) => [a.t, a.reason])).toEqual([
+      [0, 'Right hand above nose'],
+      [100, 'Shoulders uneven'],
+    ])
+
+    // Unacknowledged, the first rule keeps the slot.
+    const raw = runTimeline(detector([{ ...HAND_UP, forMs: 0 }, UNEVEN]), frames.slice(0, 3))
+    expect(raw.map((a) => a.reason)).toEqual(Array(3).fill('Right hand above nose'))
+  })
+
+  test('missing landmarks never match', () => {
+    const hidden = poseLandmarks(UPRIGHT).map((p) => ({ ...p, visibility: 0.1 }))
+    const frames = sequence(0, 500, FRAME_MS, () => results({ pose: hidden }))
+    expect(runTimeline(detector([{ ...HAND_UP, when: { not: HAND_UP.when } }]), frames)).toEqual([])
+  })
+})
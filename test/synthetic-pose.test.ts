@@ -0,0 +1,217 @@
+import { describe, expect, test } from 'bun:test'
+import type { Results } from '@mediapipe/holistic'
+
+import { BlinkRateMonitor } from '../src/core/blink.ts'
+import {
+  LANDMARK_LEFT_SHOULDER,
+  LANDMARK_NOSE,
+  LANDMARK_RIGHT_SHOULDER,
+} from '../src/core/landmarks.ts'
+import { LateralLean } from '../src/core/lean.ts'
+import { PostureDeviation } from '../src/core/posture.ts'
+import { HandFaceProximity } from '../src/core/proximity.ts'
+import { calculateTriangleRatio, type ReferencePose } from '../src/core/reference-store.ts'
+import {
+  createRandom,
+  generateResults,
+  SYNTHETIC_SCENARIOS,
+  type SyntheticScenario,
+  scenarioParamsAt,
+} from '../src/core/synthetic-pose.ts'
+import { runTimeline, sequence, type TimelineFrame } from './fixtures/timeline.ts'
+
+const FRAME_MS = 90
+
+function scenario(id: string): SyntheticScenario {
+  const found = SYNTHETIC_SCENARIOS.find((s) => s.id === id)
+  if (!found) throw new Error(`No scenario "${id}"`)
+  return found
+}
+
+/** Plays a scenario once, by default at the live detector's frame rate. */
+function play(s: SyntheticScenario, seed = 1, frameMs = FRAME_MS): TimelineFrame[] {
+  const random = createRandom(seed)
+  return sequence(0, s.durationMs, frameMs, (t) =>
+    generateResults(scenarioParamsAt(s, t), {
+      jitter: 0.0015,
+      sway: 0.004,
+      blinkIntervalMs: 4_000,
+      timeMs: t,
+      random,
+    }),
+  )
+}
+
+/** Reference from a single frame (capture averages several; one is enough without noise spikes). */
+function referenceFrom(results: Results): ReferencePose {
+  const pose = results.poseLandmarks
+  const nose = pose[LANDMARK_NOSE]
+  const leftShoulder = pose[LANDMARK_LEFT_SHOULDER]
+  const rightShoulder = pose[LANDMARK_RIGHT_SHOULDER]
+  return {
+    nose,
+    leftShoulder,
+    rightShoulder,
+    ratio: calculateTriangleRatio(nose, leftShoulder, rightShoulder),
+    capturedAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+describe('generateResults', () => {
+  test('produces full holistic landmark sets', () => {
+    const [frame] = play(scenario('upright'))
+    expect(frame.results.poseLandmarks).toHaveLength(33)
+    expect(frame.results.faceLandmarks).toHaveLength(468)
+    expect(frame.results.leftHandLandmarks).toHaveLength(21)
+    expect(frame.results.rightHandLandmarks).toHaveLength(21)
+  })
+
+  test('is reproducible for a seed and varies across seeds', () => {
+    const a = play(scenario('upright'), 7)[10].results.poseLandmarks[0]
+    const b = play(scenario('upright'), 7)[10].results.poseLandmarks[0]
+    const c = play(scenario('upright'), 8)[10].results.poseLandmarks[0]
+    expect(a).toEqual(b)
+    expect(a).not.toEqual(c)
+  })
+
+  test('shoulder rounding lowers the triangle ratio by about the requested amount', () => {
+    const opts = { jitter: 0, sway: 0, blinkIntervalMs: 0, timeMs: 0, random: () => 0.5 }
+    const upright = scenarioParamsAt(scenario('upright'), 0)
+    const base = referenceFrom(generateResults(upright, opts)).ratio
+    const rounded = referenceFrom(
+      generateResults({ ...upright, shoulderRounding: 0.1 }, opts),
+    ).ratio
+    expect(rounded / base).toBeCloseTo(0.9, 5)
+  })
+})
+
+describe('scenarioParamsAt', () => {
+  test('interpolates numbers and carries values forward between keyframes', () => {
+    const s = scenario('slouch')
+    expect(scenarioParamsAt(s, 3_000).shoulderRounding).toBe(0)
+    expect(scenarioParamsAt(s, 7_500).shoulderRounding).toBeCloseTo(0.075, 10)
+    expect(scenarioParamsAt(s, 20_000).shoulderRounding).toBeCloseTo(0.15, 10)
+    expect(scenarioParamsAt(s, 35_000).shoulderRounding).toBe(0)
+  })
+
+  test('keeps the hand target until the next keyframe switches it', () => {
+    const s = scenario('face-touch')
+    expect(scenarioParamsAt(s, 7_000).handZone).toBe('mouth')
+    expect(scenarioParamsAt(s, 12_000).handZone).toBe('mouth')
+    expect(scenarioParamsAt(s, 12_000).handReach).toBe(0)
+    expect(scenarioParamsAt(s, 15_000).handZone).toBe('eyes')
+  })
+})
+
+describe('scenarios through the detectors', () => {
+  test('slouch raises a posture alert only after the slouch', () => {
+    const frames = play(scenario('slouch'))
+    const reference = referenceFrom(frames[10].results)
+    const posture = new PostureDeviation()
+    const alerts = runTimeline(
+      {
+        update: (results, nowMs) => posture.update(results, reference, nowMs),
+        acknowledge: () => posture.acknowledge(),
+      },
+      frames,
+      { acknowledge: true },
+    )
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].t).toBeGreaterThan(9_000)
+    expect(alerts[0].t).toBeLessThan(15_000)
+  })
+
+  test('lean raises left then right lean alerts', () => {
+    const frames = play(scenario('lean'))
+    const reference = referenceFrom(frames[10].results)
+    const lean = new LateralLean()
+    const alerts = runTimeline(
+      {
+        update: (results, nowMs) => lean.update(results, reference, nowMs),
+        acknowledge: () => lean.acknowledge(),
+      },
+      frames,
+      { acknowledge: true },
+    )
+    expect(alerts.map((a) => a.reason)).toEqual(['Leaning left', 'Leaning right'])
+  })
+
+  test('lean triggers after the same time at foreground and background frame rates', () => {
+    const leanAlertTimes = (frameMs: number) => {
+      const frames = play(scenario('lean'), 1, frameMs)
+      const reference = referenceFrom(frames[0].results)
+      const lean = new LateralLean()
+      return runTimeline(
+        {
+          update: (results, nowMs) => lean.update(results, reference, nowMs),
+          acknowledge: () => lean.acknowledge(),
+        },
+        frames,
+        { acknowledge: true },
+      ).map((a) => a.t)
+    }
+
+    const foreground = leanAlertTimes(FRAME_MS)
+    const background = leanAlertTimes(500)
+    expect(background).toHaveLength(foreground.length)
+    background.forEach((t, i) => {
+      expect(Math.abs(t - foreground[i])).toBeLessThanOrEqual(1_000)
+    })
+  })
+
+  test('face-touch visits mouth, eyes, chin and hair', () => {
+    const proximity = new HandFaceProximity()
+    const alerts = runTimeline(
+      {
+        update: (results, nowMs) => proximity.update(results, nowMs),
+        acknowledge: () => proximity.acknowledge(),
+      },
+      play(scenario('face-touch')),
+      { acknowledge: true },
+    )
+    expect(alerts.map((a) => a.reason)).toEqual([
+      'Hands near mouth — nail biting?',
+      'Hands near eyes — try not to rub them',
+      'Chin resting on hand',
+      'Hands in hair',
+    ])
+  })
+})
+
+describe('blink rate through the generator', () => {
+  /** Sitting still for `durationMs`, sampled every `stepMs`. */
+  function stare(stepMs: number, blinkIntervalMs: number, durationMs = 100_000): TimelineFrame[] {
+    const params = scenarioParamsAt(scenario('upright'), 0)
+    const random = createRandom(1)
+    return sequence(0, durationMs, stepMs, (t) =>
+      generateResults(params, { jitter: 0.0015, sway: 0.004, blinkIntervalMs, timeMs: t, random }),
+    )
+  }
+
+  function blinkAlerts(frames: TimelineFrame[], monitor = new BlinkRateMonitor()) {
+    return runTimeline(
+      {
+        update: (results, nowMs) => monitor.update(results, nowMs),
+        acknowledge: () => monitor.acknowledge(),
+      },
+      frames,
+      { acknowledge: true },
+    )
+  }
+
+  test('a normal blink rate stays quiet and a stare raises one reminder', () => {
+    const monitor = new BlinkRateMonitor()
+    expect(blinkAlerts(stare(FRAME_MS, 4_000), monitor)).toEqual([])
+    expect(monitor.getBlinksPerMinute()).toBeGreaterThan(10)
+
+    const alerts = blinkAlerts(stare(FRAME_MS, 0))
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].t).toBeGreaterThanOrEqual(90_000)
+  })
+
+  test('background-tab frame rates (2 fps) miss blinks, so no rate and no reminder', () => {
+    const monitor = new BlinkRateMonitor()
+    expect(blinkAlerts(stare(500, 4_000), monitor)).toEqual([])
+    expect(monitor.getBlinksPerMinute()).toBeNull()
+  })
+})